@@ -174,8 +174,12 @@ export class UploadService extends BaseService {
       // Validate file size
       validateFileSize(file.size, this.config);
 
-      // Validate file type
-      validateFileType(file.type, this.config);
+      // Convert File to ArrayBuffer then to Buffer
+      const arrayBuffer = await file.arrayBuffer();
+      const buffer = Buffer.from(arrayBuffer);
+
+      // Validate file type, detected from the content rather than trusting the client
+      validateFileType(file.type, this.config, { filename: sanitizedFilename, buffer });
 
       // Auto-create target directory if configured
       const fullPath = path.join(this.config.targetDirectory, subpath);
@@ -186,10 +190,6 @@ export class UploadService extends BaseService {
       // Build target file path
       const targetPath = path.join(fullPath, sanitizedFilename);
 
-      // Convert File to ArrayBuffer then to Buffer
-      const arrayBuffer = await file.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-
       // Write file using injected filesystem
       await this.filesystem.writeFile(targetPath, buffer);
 
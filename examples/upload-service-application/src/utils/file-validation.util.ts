@@ -5,6 +5,7 @@
  * These utilities check files against configured constraints before storage.
  */
 
+import { contentMatchesType, detectContentType } from "@ignis/filesystem";
 import type { TUploadConfiguration } from "../types/upload.types";
 import type { TValidationError } from "../types/validation.types";
 
@@ -42,23 +43,56 @@ export function validateFileSize(fileSize: number, config: TUploadConfiguration)
 /**
  * Validate file type against configured allowed types
  *
- * @param fileType - MIME type of the file (e.g., "image/png")
+ * The client-provided MIME type and file extension can be wrong or forged.
+ * When the file content is given, both claims must agree with its magic bytes
+ * if their type has a known signature (a PNG must start like a PNG); the
+ * upload is rejected otherwise. The type detected from the content and
+ * extension is then checked against the allowed types. Types without a
+ * signature, such as text formats, cannot be verified and are taken as claimed.
+ *
+ * @param fileType - MIME type sent by the client (e.g., "image/png")
  * @param config - Upload configuration containing allowedFileTypes
- * @throws Error with INVALID_FILE_TYPE code if file type not allowed
+ * @param content - Optional file name and content to detect the real type from
+ * @throws Error with INVALID_FILE_TYPE code if file type not allowed or not matching the content
  */
-export function validateFileType(fileType: string, config: TUploadConfiguration): void {
+export function validateFileType(
+  fileType: string,
+  config: TUploadConfiguration,
+  content?: { filename: string; buffer: Buffer },
+): void {
   // If allowedFileTypes is null, all types are accepted
   if (config.allowedFileTypes === null) {
     return;
   }
 
+  let detectedType: string | undefined;
+  if (content) {
+    const extensionType = detectContentType(content.filename);
+    const claimedTypes = [fileType, extensionType].filter((type): type is string => !!type);
+    const mismatch = claimedTypes.find(type => !contentMatchesType(type, content.buffer));
+    if (mismatch) {
+      throw getError(
+        `File content does not match type ${mismatch}`,
+        "INVALID_FILE_TYPE",
+        {
+          fileType,
+          extensionType,
+          allowedTypes: config.allowedFileTypes,
+        },
+      );
+    }
+    detectedType = detectContentType(content.filename, content.buffer);
+  }
+  const actualType = detectedType ?? fileType;
+
   // Check if the file type is in the allowed list
-  if (!config.allowedFileTypes.includes(fileType)) {
+  if (!config.allowedFileTypes.includes(actualType)) {
     throw getError(
-      `File type ${fileType} not allowed`,
+      `File type ${actualType} not allowed`,
       "INVALID_FILE_TYPE",
       {
         fileType,
+        detectedType,
         allowedTypes: config.allowedFileTypes,
       },
     );
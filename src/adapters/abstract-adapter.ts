@@ -0,0 +1,397 @@
+/**
+ * Abstract Adapter
+ *
+ * Base class for adapters that implements the derived operations of
+ * BaseAdapter on top of a small set of core primitives (reading, writing and
+ * deleting files, listing and creating directories, stat and streams).
+ * Custom adapters only have to implement the abstract methods; adapters that
+ * can do better natively override the defaults.
+ */
+
+import { Readable, Writable } from "stream";
+
+import {
+  AdapterMetadata,
+  BaseAdapter,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../interfaces/adapter.interface";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  GlobOptions,
+  LockHandle,
+  LockOptions,
+  ReaddirIteratorOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import {
+  AlreadyExistsError,
+  FileNotFoundError,
+  PreconditionFailedError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+import { getRetryDelay } from "../utils/error-mapper";
+import { resolveFileMetadata } from "../utils/metadata-utils";
+import { normalizePath } from "../utils/path-utils";
+import { resolveSignedUrlOptions } from "../utils/signed-url-utils";
+import { isExclusive } from "../utils/write-utils";
+import { removeEach } from "../utils/batch-utils";
+import { globWithWalk } from "../utils/glob-utils";
+import { iterateReaddirPages, paginateEntries, walkDirectory } from "../utils/walk-utils";
+import { watchByPolling } from "../utils/watch-utils";
+import {
+  acquireLock,
+  createLockHandle,
+  createLockRecord,
+  isLockExpired,
+  LockRecord,
+  lockFilePath,
+  parseLockRecord,
+  resolveLockOptions,
+} from "../utils/lock-utils";
+
+/**
+ * Attempts of a read-modify-write before a conflicting writer wins
+ */
+const REWRITE_MAX_ATTEMPTS = 8;
+
+/**
+ * Adapter base class with default implementations of the derived operations
+ *
+ * The read-modify-write defaults (appendFile, setFileMetadata and lock) are
+ * only safe against concurrent writers if `stat` reports an `etag` and
+ * `writeFile`/`unlink` honour `ifMatch` and the `"wx"` flag.
+ */
+export abstract class AbstractAdapter implements BaseAdapter {
+  abstract readFile(filePath: string): Promise<Buffer>;
+  abstract readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+
+  abstract writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void>;
+
+  abstract unlink(filePath: string, options?: UnlinkOptions): Promise<void>;
+
+  abstract readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  abstract readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+
+  abstract mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void>;
+
+  abstract rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void>;
+
+  abstract stat(filePath: string): Promise<FileStats>;
+
+  abstract getFileMetadata(filePath: string): Promise<FileMetadata>;
+
+  abstract createReadStream(filePath: string, options?: ReadStreamOptions): Readable;
+
+  abstract createWriteStream(filePath: string, options?: WriteStreamOptions): Writable;
+
+  abstract getMetadata(): AdapterMetadata;
+
+  /**
+   * Append data to a file, creating it if needed
+   *
+   * The file is read and written back, conditional on its ETag.
+   */
+  async appendFile(
+    filePath: string,
+    data: string | Buffer,
+    encoding?: BufferEncoding,
+  ): Promise<void> {
+    const newData = typeof data === "string" ? Buffer.from(data, encoding) : data;
+
+    await this.rewriteFile(filePath, current =>
+      current
+        ? { content: Buffer.concat([current.content, newData]), metadata: current.metadata }
+        : { content: newData, metadata: {} },
+    );
+  }
+
+  /**
+   * Delete many files, ignoring paths that do not exist
+   *
+   * @throws {BatchOperationError} listing every path that could not be deleted
+   */
+  async removeMany(paths: string[], options?: RemoveManyOptions): Promise<void> {
+    return removeEach(paths, filePath => this.unlink(filePath), options);
+  }
+
+  /**
+   * Copy a file by reading it and writing it to the destination
+   */
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    const content = await this.readFile(src);
+    const metadata = resolveFileMetadata(options) ?? (await this.getFileMetadata(src));
+
+    await this.writeFile(dest, content, {
+      ...metadata,
+      flag: isExclusive(options) ? "wx" : "w",
+    });
+  }
+
+  /**
+   * Rename a file by copying it and deleting the source
+   */
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
+    await this.copyFile(oldPath, newPath, options);
+    await this.unlink(oldPath);
+  }
+
+  /**
+   * Acquire an advisory lock on a path
+   *
+   * The lock is a hidden `.<name>.lock` file created exclusively (`"wx"`). An
+   * expired lock file is taken over with a write conditional on its ETag, and
+   * the lock file is deleted on release unless it has been taken over since.
+   * `readdir` should drop lock files from its listing with `hideLockFiles`, so
+   * they are not walked, globbed or watched either.
+   */
+  async lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    const lockOptions = resolveLockOptions(options);
+    const lockPath = lockFilePath(filePath);
+
+    return acquireLock(filePath, lockOptions, this.getMetadata().name, async () => {
+      const record = createLockRecord(lockOptions.ttl);
+      const content = JSON.stringify(record);
+
+      try {
+        await this.writeFile(lockPath, content, { flag: "wx" });
+      } catch (error) {
+        if (!(error instanceof AlreadyExistsError)) {
+          throw error;
+        }
+
+        const current = await this.readLockFile(lockPath);
+        if (!current || !isLockExpired(current.record)) {
+          return undefined;
+        }
+        try {
+          await this.writeFile(lockPath, content, { ifMatch: current.etag });
+        } catch (takeoverError) {
+          if (
+            takeoverError instanceof PreconditionFailedError ||
+            takeoverError instanceof FileNotFoundError
+          ) {
+            return undefined;
+          }
+          throw takeoverError;
+        }
+      }
+
+      const { etag } = await this.stat(lockPath);
+      return createLockHandle(filePath, record, async () => {
+        try {
+          await this.unlink(lockPath, { ifMatch: etag });
+        } catch (error) {
+          if (
+            !(error instanceof PreconditionFailedError) &&
+            !(error instanceof FileNotFoundError)
+          ) {
+            throw error;
+          }
+        }
+      });
+    });
+  }
+
+  /**
+   * Read one page of directory contents, sorted by name
+   */
+  async readdirPaged(dirPath: string, options?: ReaddirPageOptions): Promise<ReaddirPage> {
+    return paginateEntries(await this.readdir(dirPath), options);
+  }
+
+  /**
+   * Iterate over directory contents, fetching one page at a time
+   */
+  readdirIterator(
+    dirPath: string,
+    options?: ReaddirIteratorOptions,
+  ): AsyncIterableIterator<string> {
+    return iterateReaddirPages(this, dirPath, options);
+  }
+
+  /**
+   * Get symbolic link statistics; the same as stat unless overridden
+   */
+  async lstat(filePath: string): Promise<FileStats> {
+    return this.stat(filePath);
+  }
+
+  /**
+   * Check that a file exists
+   */
+  async access(filePath: string, _mode?: number): Promise<void> {
+    await this.stat(filePath);
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file
+   *
+   * The file is read and written back with the new metadata, conditional on its ETag.
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    const resolved = resolveFileMetadata(metadata) ?? {};
+
+    await this.rewriteFile(filePath, current => {
+      if (!current) {
+        throw new FileNotFoundError(filePath, {
+          backend: this.getMetadata().name,
+          operation: "setFileMetadata",
+        });
+      }
+      return { content: current.content, metadata: resolved };
+    });
+  }
+
+  /**
+   * Check if file/directory exists
+   */
+  async exists(filePath: string): Promise<boolean> {
+    try {
+      await this.stat(filePath);
+      return true;
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Normalize a path after checking that it exists
+   */
+  async realpath(filePath: string): Promise<string> {
+    await this.stat(filePath);
+    return normalizePath(filePath);
+  }
+
+  /**
+   * Signed URLs are not supported unless overridden
+   *
+   * @throws {ValidationError} always
+   */
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    resolveSignedUrlOptions(options);
+    const backend = this.getMetadata().name;
+    throw new ValidationError(`Signed URLs are not supported by the ${backend} adapter`, {
+      backend,
+      path: filePath,
+      operation: "getSignedUrl",
+    });
+  }
+
+  /**
+   * Recursively walk a directory tree
+   */
+  walk(dirPath: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+    return walkDirectory(this, dirPath, options);
+  }
+
+  /**
+   * Find paths matching a glob pattern
+   */
+  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+    return globWithWalk(this, pattern, options);
+  }
+
+  /**
+   * Watch a directory for changes by comparing snapshots every `interval` milliseconds
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    return watchByPolling(this, dirPath, options);
+  }
+
+  /**
+   * Read a file and write back the result of `update`, conditional on its ETag
+   *
+   * `update` receives undefined if the file does not exist, in which case the
+   * file is created exclusively. A write that raced with another writer is
+   * retried on the new content.
+   */
+  private async rewriteFile(
+    filePath: string,
+    update: (current: { content: Buffer; metadata: FileMetadata } | undefined) => {
+      content: Buffer;
+      metadata: FileMetadata;
+    },
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.readForUpdate(filePath);
+      const next = update(current);
+
+      try {
+        await this.writeFile(
+          filePath,
+          next.content,
+          current ? { ...next.metadata, ifMatch: current.etag } : { ...next.metadata, flag: "wx" },
+        );
+        return;
+      } catch (error) {
+        const raced =
+          error instanceof PreconditionFailedError || error instanceof AlreadyExistsError;
+        if (!raced || attempt >= REWRITE_MAX_ATTEMPTS) {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, getRetryDelay(error, attempt)));
+      }
+    }
+  }
+
+  /**
+   * Read the ETag, content and metadata of a file
+   *
+   * @returns undefined if the file does not exist
+   */
+  private async readForUpdate(
+    filePath: string,
+  ): Promise<{ content: Buffer; metadata: FileMetadata; etag?: string } | undefined> {
+    try {
+      // The ETag is read first, so a write in between fails the conditional write back
+      const { etag } = await this.stat(filePath);
+      const content = await this.readFile(filePath);
+      const metadata = await this.getFileMetadata(filePath);
+      return { content, metadata, etag };
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the record and ETag of a lock file, or undefined if there is none
+   */
+  private async readLockFile(
+    lockPath: string,
+  ): Promise<{ record: LockRecord | undefined; etag?: string } | undefined> {
+    try {
+      const { etag } = await this.stat(lockPath);
+      return { record: parseLockRecord(await this.readFile(lockPath, "utf8")), etag };
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
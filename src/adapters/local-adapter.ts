@@ -10,13 +10,71 @@ import { Readable, Writable } from "stream";
 import path from "path";
 
 import {
-  BaseAdapter,
+  AdapterCapabilities,
+  AdapterMetadata,
   ReadStreamOptions,
   WriteStreamOptions,
 } from "../interfaces/adapter.interface";
-import { FileStats } from "../interfaces/filesystem.interface";
-import { mapNativeError, PermissionError } from "../errors/filesystem-errors";
-import { normalizePath } from "../utils/path-utils";
+import { AbstractAdapter } from "./abstract-adapter";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  LockHandle,
+  LockOptions,
+  ReaddirOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import {
+  AlreadyExistsError,
+  IsDirectoryError,
+  PermissionError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+import type { LocalSignedUrlConfig } from "../types/config";
+import { mapError, resolveErrorCode } from "../utils/error-mapper";
+import { assertEtagMatches, isExclusive, resolveWriteFileOptions } from "../utils/write-utils";
+import {
+  createAtomicWriteStream,
+  isTemporarySiblingName,
+  temporarySiblingPath,
+  writeFileAtomic,
+} from "../utils/atomic-write-utils";
+import {
+  acquireLock,
+  createLockHandle,
+  createLockRecord,
+  isLockExpired,
+  hideLockFiles,
+  isLockFileName,
+  lockFilePath,
+  LockRecord,
+  parseLockRecord,
+  resolveLockOptions,
+} from "../utils/lock-utils";
+import {
+  describedFileName,
+  hideMetadataSidecars,
+  metadataSidecarName,
+  resolveFileMetadata,
+} from "../utils/metadata-utils";
+import { createSignedUrlToken, resolveSignedUrlOptions } from "../utils/signed-url-utils";
+import { joinPath, normalizePath } from "../utils/path-utils";
+import { withCommitStep } from "../utils/stream-utils";
+import { createDirectoryEntry } from "../utils/walk-utils";
+import {
+  SnapshotWatcher,
+  WATCH_SETTLE_DELAY,
+  WatchSnapshot,
+  takePathSnapshot,
+  takeSnapshot,
+} from "../utils/watch-utils";
 
 /**
  * Local adapter configuration
@@ -26,6 +84,10 @@ export interface LocalAdapterConfig {
   basePath: string;
   /** Whether to create missing directories automatically */
   createMissingDirs: boolean;
+  /** Write files atomically unless a write opts out (default: false) */
+  atomicWrites?: boolean;
+  /** Secret and route URL of `getSignedUrl()` */
+  signedUrls?: LocalSignedUrlConfig;
   /** Operation timeout in milliseconds */
   timeout?: number;
   /** Maximum number of retries for failed operations */
@@ -43,15 +105,30 @@ export interface LocalAdapterConfig {
 /**
  * Local filesystem adapter implementation
  */
-export class LocalAdapter implements BaseAdapter {
+export class LocalAdapter extends AbstractAdapter {
+  /** Features supported by the local filesystem */
+  static readonly capabilities: AdapterCapabilities = {
+    streaming: true,
+    symbolicLinks: true,
+    permissions: true,
+    directories: true,
+    realDirectories: true,
+    atomicRename: true,
+    maxFileSize: 0,
+    networkBased: false,
+  };
+
   private config: LocalAdapterConfig;
   private logger: (
     level: "debug" | "info" | "warn" | "error",
     message: string,
     metadata?: unknown,
   ) => void;
+  /** Tail of the queue of conditional operations per resolved path */
+  private conditionalQueues = new Map<string, Promise<void>>();
 
   constructor(config: LocalAdapterConfig) {
+    super();
     this.config = config;
     this.logger =
       config.logger ||
@@ -83,8 +160,8 @@ export class LocalAdapter implements BaseAdapter {
       await fs.mkdir(dirPath, { recursive: true });
     } catch (error) {
       // Ignore error if directory already exists
-      if (error instanceof Error && !error.message.includes("EEXIST")) {
-        throw mapNativeError(error, { path: dirPath, operation: "mkdir" });
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw mapError(error, { backend: "local", path: dirPath, operation: "mkdir" });
       }
     }
   }
@@ -99,6 +176,7 @@ export class LocalAdapter implements BaseAdapter {
     // Security check: ensure path is within base path
     if (!resolved.startsWith(path.resolve(this.config.basePath))) {
       throw new PermissionError(filePath, "access", {
+        backend: "local",
         cause: new Error("Path traversal attempt detected"),
       });
     }
@@ -132,18 +210,28 @@ export class LocalAdapter implements BaseAdapter {
       return result;
     } catch (error) {
       this.logger("error", "readFile failed", { filePath, error });
-      throw mapNativeError(error as Error, { path: filePath, operation: "readFile" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "readFile" });
     }
   }
 
   /**
    * Write data to file
+   *
+   * With flag "wx" (or `overwrite: false`) the file is opened with O_EXCL, so
+   * exactly one of several concurrent writers creates it. With `ifMatch` the
+   * file is only replaced if its ETag still matches.
+   *
+   * Atomic writes (`atomic: true` or the `atomicWrites` configuration) go to a
+   * temporary sibling file that is fsynced and then renamed over the target,
+   * so readers see either the old or the new content, never a partial file.
    */
   async writeFile(
     filePath: string,
     data: string | Buffer,
-    encoding?: BufferEncoding,
+    options?: BufferEncoding | WriteFileOptions,
   ): Promise<void> {
+    const { encoding, exclusive, ifMatch, atomic } = resolveWriteFileOptions(options);
+    const metadata = resolveFileMetadata(options);
     const resolvedPath = this.resolvePath(filePath);
 
     // Ensure directory exists if configured
@@ -153,16 +241,127 @@ export class LocalAdapter implements BaseAdapter {
     }
 
     try {
-      if (encoding && typeof data === "string") {
-        await fs.writeFile(resolvedPath, data, encoding);
+      if (ifMatch !== undefined) {
+        await this.serializeConditional(resolvedPath, async () => {
+          assertEtagMatches(await this.currentEtag(resolvedPath), ifMatch, {
+            path: filePath,
+            operation: "writeFile",
+            backend: "local",
+          });
+          // A conditional write always replaces the file, giving it a new
+          // inode and thus a new ETag even within the timestamp granularity
+          await writeFileAtomic(resolvedPath, data, { encoding });
+        });
+      } else if (atomic ?? this.config.atomicWrites) {
+        await writeFileAtomic(resolvedPath, data, { encoding, exclusive });
       } else {
-        await fs.writeFile(resolvedPath, data);
+        await fs.writeFile(resolvedPath, data, {
+          encoding: typeof data === "string" ? encoding : undefined,
+          flag: exclusive ? "wx" : "w",
+        });
+      }
+      await this.writeMetadata(resolvedPath, metadata);
+    } catch (error) {
+      throw mapError(error, { backend: "local", path: filePath, operation: "writeFile" });
+    }
+  }
+
+  /**
+   * Path of the sidecar file holding the metadata of a file
+   */
+  private sidecarPath(resolvedPath: string): string {
+    return path.join(path.dirname(resolvedPath), metadataSidecarName(path.basename(resolvedPath)));
+  }
+
+  /**
+   * Store the metadata of a file in its sidecar file, or remove the sidecar
+   * file if there is no metadata
+   */
+  private async writeMetadata(
+    resolvedPath: string,
+    metadata: FileMetadata | undefined,
+  ): Promise<void> {
+    const sidecarPath = this.sidecarPath(resolvedPath);
+    if (metadata) {
+      await writeFileAtomic(sidecarPath, JSON.stringify(metadata), { encoding: "utf8" });
+    } else {
+      await fs.rm(sidecarPath, { force: true });
+    }
+  }
+
+  /**
+   * Move the sidecar file along with a renamed file
+   */
+  private async moveMetadata(resolvedOld: string, resolvedNew: string): Promise<void> {
+    try {
+      await fs.rename(this.sidecarPath(resolvedOld), this.sidecarPath(resolvedNew));
+    } catch (error) {
+      if (resolveErrorCode(error) !== "ENOENT") {
+        throw error;
+      }
+      await this.writeMetadata(resolvedNew, undefined);
+    }
+  }
+
+  /**
+   * Read the metadata of a file from its sidecar file
+   */
+  private async readMetadata(resolvedPath: string): Promise<FileMetadata | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.sidecarPath(resolvedPath), "utf8"));
+    } catch (error) {
+      if (resolveErrorCode(error) === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run conditional operations on the same path one after another
+   *
+   * The ETag check and the change are not atomic on a local filesystem, so
+   * conditional writes and deletes through this adapter are queued per path.
+   * Other processes writing the same file can still interleave.
+   */
+  private async serializeConditional(resolvedPath: string, fn: () => Promise<void>): Promise<void> {
+    const previous = this.conditionalQueues.get(resolvedPath) ?? Promise.resolve();
+    const current = previous.then(fn);
+    const tail = current.catch(() => {});
+    this.conditionalQueues.set(resolvedPath, tail);
+
+    try {
+      await current;
+    } finally {
+      if (this.conditionalQueues.get(resolvedPath) === tail) {
+        this.conditionalQueues.delete(resolvedPath);
       }
+    }
+  }
+
+  /**
+   * Current ETag of a file, or undefined if it does not exist or is not a file
+   */
+  private async currentEtag(resolvedPath: string): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(resolvedPath);
+      return stats.isFile() ? this.etagOf(stats) : undefined;
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "writeFile" });
+      if (resolveErrorCode(error) === "ENOENT") {
+        return undefined;
+      }
+      throw error;
     }
   }
 
+  /**
+   * ETag of a file, derived from its inode, size and modification time
+   */
+  private etagOf(stats: fsSync.Stats): string {
+    const mtimeMicros = Math.round(stats.mtimeMs * 1000);
+    return [stats.ino, stats.size, mtimeMicros].map(value => value.toString(16)).join("-");
+  }
+
   /**
    * Append data to file
    */
@@ -186,27 +385,43 @@ export class LocalAdapter implements BaseAdapter {
         await fs.appendFile(resolvedPath, data);
       }
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "appendFile" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "appendFile" });
     }
   }
 
   /**
-   * Delete a file
+   * Delete a file, optionally only if its ETag matches `options.ifMatch`
    */
-  async unlink(filePath: string): Promise<void> {
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
     const resolvedPath = this.resolvePath(filePath);
+    const ifMatch = options?.ifMatch;
 
     try {
-      await fs.unlink(resolvedPath);
+      if (ifMatch !== undefined) {
+        await this.serializeConditional(resolvedPath, async () => {
+          assertEtagMatches(await this.currentEtag(resolvedPath), ifMatch, {
+            path: filePath,
+            operation: "unlink",
+            backend: "local",
+          });
+          await fs.unlink(resolvedPath);
+        });
+      } else {
+        await fs.unlink(resolvedPath);
+      }
+      await this.writeMetadata(resolvedPath, undefined);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "unlink" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "unlink" });
     }
   }
 
   /**
    * Copy file from source to destination
+   *
+   * With `overwrite: false` the copy uses COPYFILE_EXCL.
    */
-  async copyFile(src: string, dest: string): Promise<void> {
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    const metadata = resolveFileMetadata(options);
     const resolvedSrc = this.resolvePath(src);
     const resolvedDest = this.resolvePath(dest);
 
@@ -217,16 +432,25 @@ export class LocalAdapter implements BaseAdapter {
     }
 
     try {
-      await fs.copyFile(resolvedSrc, resolvedDest);
+      await fs.copyFile(
+        resolvedSrc,
+        resolvedDest,
+        isExclusive(options) ? fsSync.constants.COPYFILE_EXCL : 0,
+      );
+      await this.writeMetadata(resolvedDest, metadata ?? (await this.readMetadata(resolvedSrc)));
     } catch (error) {
-      throw mapNativeError(error as Error, { path: src, operation: "copyFile" });
+      const failedPath = resolveErrorCode(error) === "EEXIST" ? dest : src;
+      throw mapError(error, { backend: "local", path: failedPath, operation: "copyFile" });
     }
   }
 
   /**
    * Rename or move a file
+   *
+   * With `overwrite: false` files are hard-linked to the new path (which fails
+   * atomically if it exists) and then unlinked from the old one.
    */
-  async rename(oldPath: string, newPath: string): Promise<void> {
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
     const resolvedOld = this.resolvePath(oldPath);
     const resolvedNew = this.resolvePath(newPath);
 
@@ -237,22 +461,181 @@ export class LocalAdapter implements BaseAdapter {
     }
 
     try {
+      if (isExclusive(options)) {
+        await this.renameExclusive(resolvedOld, resolvedNew, newPath);
+      } else {
+        await fs.rename(resolvedOld, resolvedNew);
+      }
+      await this.moveMetadata(resolvedOld, resolvedNew);
+    } catch (error) {
+      const failedPath = resolveErrorCode(error) === "EEXIST" ? newPath : oldPath;
+      throw mapError(error, { backend: "local", path: failedPath, operation: "rename" });
+    }
+  }
+
+  /**
+   * Rename without replacing an existing destination
+   */
+  private async renameExclusive(
+    resolvedOld: string,
+    resolvedNew: string,
+    newPath: string,
+  ): Promise<void> {
+    try {
+      await fs.link(resolvedOld, resolvedNew);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === "EEXIST" || code === "ENOENT") {
+        throw error;
+      }
+
+      // Directories and some filesystems cannot be hard-linked: check, then rename
+      const existing = await fs.lstat(resolvedNew).catch(() => undefined);
+      if (existing) {
+        throw new AlreadyExistsError(newPath, { operation: "rename", backend: "local" });
+      }
       await fs.rename(resolvedOld, resolvedNew);
+      return;
+    }
+
+    await fs.unlink(resolvedOld);
+  }
+
+  /**
+   * Acquire an advisory lock on a path
+   *
+   * The lock is a hidden `.<name>.lock` file next to the path holding the
+   * owner and expiry, created exclusively (fully written before it becomes
+   * visible). An expired lock file is removed so that the lock can be taken
+   * over. Lock files are not listed by readdir, walk, glob or watch.
+   */
+  async lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    const lockOptions = resolveLockOptions(options);
+    const resolvedLockPath = this.resolvePath(lockFilePath(filePath));
+
+    if (this.config.createMissingDirs) {
+      await this.ensureDirectoryExists(path.dirname(resolvedLockPath));
+    }
+
+    const tryAcquire = async (): Promise<LockHandle | undefined> => {
+      const record = createLockRecord(lockOptions.ttl);
+      try {
+        await writeFileAtomic(resolvedLockPath, JSON.stringify(record), { exclusive: true });
+      } catch (error) {
+        if (resolveErrorCode(error) !== "EEXIST") {
+          throw mapError(error, { backend: "local", path: filePath, operation: "lock" });
+        }
+        return (await this.removeExpiredLock(resolvedLockPath)) ? tryAcquire() : undefined;
+      }
+
+      return createLockHandle(filePath, record, () =>
+        this.releaseLock(resolvedLockPath, record.owner, filePath),
+      );
+    };
+
+    return acquireLock(filePath, lockOptions, "local", tryAcquire);
+  }
+
+  /**
+   * Remove a lock file if it has expired, returning whether it was removed
+   *
+   * Only a lock file read as expired is claimed, so live locks are not moved.
+   */
+  private async removeExpiredLock(resolvedLockPath: string): Promise<boolean> {
+    const content = await fs.readFile(resolvedLockPath, "utf8").catch(() => undefined);
+    if (content === undefined || !isLockExpired(parseLockRecord(content))) {
+      return false;
+    }
+    return this.removeLockFileIf(resolvedLockPath, isLockExpired);
+  }
+
+  /**
+   * Remove a lock file if it is still held by the given owner
+   */
+  private async releaseLock(
+    resolvedLockPath: string,
+    owner: string,
+    filePath: string,
+  ): Promise<void> {
+    const isOwn = (record: LockRecord | undefined) => record?.owner === owner;
+    try {
+      if (isOwn(parseLockRecord(await fs.readFile(resolvedLockPath, "utf8")))) {
+        await this.removeLockFileIf(resolvedLockPath, isOwn);
+      }
     } catch (error) {
-      throw mapNativeError(error as Error, { path: oldPath, operation: "rename" });
+      if (resolveErrorCode(error) !== "ENOENT") {
+        throw mapError(error, { backend: "local", path: filePath, operation: "lock" });
+      }
+    }
+  }
+
+  /**
+   * Remove a lock file if its record passes a check, returning whether it was removed
+   *
+   * Reading the file and then removing it would race with another process
+   * replacing it in between. Instead the file is renamed to a private name
+   * first, which only one process can do, and the check runs on the renamed
+   * file. A lock file that fails the check is linked back into place; linking
+   * fails rather than replace a lock file created in the meantime.
+   */
+  private async removeLockFileIf(
+    resolvedLockPath: string,
+    check: (record: LockRecord | undefined) => boolean,
+  ): Promise<boolean> {
+    const claimedPath = temporarySiblingPath(resolvedLockPath);
+    try {
+      await fs.rename(resolvedLockPath, claimedPath);
+    } catch (error) {
+      if (resolveErrorCode(error) === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      if (check(parseLockRecord(await fs.readFile(claimedPath, "utf8")))) {
+        return true;
+      }
+      await fs.link(claimedPath, resolvedLockPath).catch(error => {
+        if (resolveErrorCode(error) !== "EEXIST") {
+          throw error;
+        }
+      });
+      return false;
+    } finally {
+      await fs.rm(claimedPath, { force: true });
     }
   }
 
   /**
    * Read directory contents
    */
-  async readdir(dirPath: string): Promise<string[]> {
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
     const resolvedPath = this.resolvePath(dirPath);
 
     try {
-      return await fs.readdir(resolvedPath);
+      if (options?.withFileTypes) {
+        const dirents = await fs.readdir(resolvedPath, { withFileTypes: true });
+        const visible = hideLockFiles(dirents, dirent => dirent.name);
+        return hideMetadataSidecars(visible, dirent => dirent.name).map(dirent =>
+          createDirectoryEntry(
+            dirent.name,
+            dirent.isFile()
+              ? "file"
+              : dirent.isDirectory()
+                ? "directory"
+                : dirent.isSymbolicLink()
+                  ? "symlink"
+                  : "other",
+          ),
+        );
+      }
+      const names = hideLockFiles(await fs.readdir(resolvedPath), name => name);
+      return hideMetadataSidecars(names, name => name);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: dirPath, operation: "readdir" });
+      throw mapError(error, { backend: "local", path: dirPath, operation: "readdir" });
     }
   }
 
@@ -265,7 +648,7 @@ export class LocalAdapter implements BaseAdapter {
     try {
       await fs.mkdir(resolvedPath, { recursive: options?.recursive });
     } catch (error) {
-      throw mapNativeError(error as Error, { path: dirPath, operation: "mkdir" });
+      throw mapError(error, { backend: "local", path: dirPath, operation: "mkdir" });
     }
   }
 
@@ -282,7 +665,7 @@ export class LocalAdapter implements BaseAdapter {
         await fs.rmdir(resolvedPath);
       }
     } catch (error) {
-      throw mapNativeError(error as Error, { path: dirPath, operation: "rmdir" });
+      throw mapError(error, { backend: "local", path: dirPath, operation: "rmdir" });
     }
   }
 
@@ -296,7 +679,7 @@ export class LocalAdapter implements BaseAdapter {
       const stats = await fs.stat(resolvedPath);
       return this.convertStats(stats);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "stat" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "stat" });
     }
   }
 
@@ -310,7 +693,7 @@ export class LocalAdapter implements BaseAdapter {
       const stats = await fs.lstat(resolvedPath);
       return this.convertStats(stats);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "lstat" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "lstat" });
     }
   }
 
@@ -323,7 +706,49 @@ export class LocalAdapter implements BaseAdapter {
     try {
       await fs.access(resolvedPath, mode);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "access" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "access" });
+    }
+  }
+
+  /**
+   * Get the content headers and user metadata of a file
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    const resolvedPath = this.resolvePath(filePath);
+
+    try {
+      await this.assertFile(resolvedPath, filePath, "getFileMetadata");
+      return (await this.readMetadata(resolvedPath)) ?? {};
+    } catch (error) {
+      throw mapError(error, { backend: "local", path: filePath, operation: "getFileMetadata" });
+    }
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    const resolvedPath = this.resolvePath(filePath);
+    const resolved = resolveFileMetadata(metadata);
+
+    try {
+      await this.assertFile(resolvedPath, filePath, "setFileMetadata");
+      await this.writeMetadata(resolvedPath, resolved);
+    } catch (error) {
+      throw mapError(error, { backend: "local", path: filePath, operation: "setFileMetadata" });
+    }
+  }
+
+  /**
+   * Fail unless a path is an existing file
+   */
+  private async assertFile(
+    resolvedPath: string,
+    filePath: string,
+    operation: string,
+  ): Promise<void> {
+    if ((await fs.stat(resolvedPath)).isDirectory()) {
+      throw new IsDirectoryError(filePath, { operation, backend: "local" });
     }
   }
 
@@ -336,12 +761,17 @@ export class LocalAdapter implements BaseAdapter {
     try {
       return fsSync.createReadStream(resolvedPath, options);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "createReadStream" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "createReadStream" });
     }
   }
 
   /**
    * Create writable stream for file
+   *
+   * An atomic stream (`atomic: true` or the `atomicWrites` configuration)
+   * writes to a temporary sibling file and replaces the target only when the
+   * stream ends; a destroyed stream leaves the target unchanged. Metadata
+   * given in the options is stored once all data has been written.
    */
   createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
     const resolvedPath = this.resolvePath(filePath);
@@ -354,17 +784,74 @@ export class LocalAdapter implements BaseAdapter {
         fsSync.mkdirSync(dir, { recursive: true });
       } catch (error) {
         // Ignore error if directory already exists
-        if (error instanceof Error && !error.message.includes("EEXIST")) {
-          throw mapNativeError(error, { path: filePath, operation: "createWriteStream" });
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw mapError(error, {
+            backend: "local",
+            path: filePath,
+            operation: "createWriteStream",
+          });
         }
       }
     }
 
+    // The atomicWrites default does not apply to append streams
+    const { atomic, ...streamOptions } = options ?? {};
+    const append = streamOptions.flags?.startsWith("a") ?? false;
+    const metadata = resolveFileMetadata(streamOptions);
+
+    let stream: Writable;
     try {
-      return fsSync.createWriteStream(resolvedPath, options);
+      stream =
+        (atomic ?? (this.config.atomicWrites && !append))
+          ? this.createAtomicWriteStream(filePath, resolvedPath, streamOptions)
+          : fsSync.createWriteStream(resolvedPath, streamOptions);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "createWriteStream" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "createWriteStream" });
     }
+
+    // Appending keeps the existing metadata unless new metadata is given
+    if (append && !metadata) {
+      return stream;
+    }
+    // The sidecar follows the data, so a failed or destroyed stream keeps the old metadata
+    return withCommitStep(
+      stream,
+      () =>
+        this.writeMetadata(resolvedPath, metadata).catch(error => {
+          throw mapError(error, {
+            backend: "local",
+            path: filePath,
+            operation: "createWriteStream",
+          });
+        }),
+      streamOptions.encoding,
+    );
+  }
+
+  /**
+   * Create a write stream that renames a temporary file over the target on end
+   *
+   * @throws {ValidationError} for append flags, which cannot be applied atomically
+   */
+  private createAtomicWriteStream(
+    filePath: string,
+    resolvedPath: string,
+    options: Omit<WriteStreamOptions, "atomic">,
+  ): Writable {
+    const flags = options.flags ?? "w";
+    if (flags !== "w" && flags !== "wx") {
+      throw new ValidationError(`Atomic write streams support flags "w" and "wx", got "${flags}"`, {
+        path: filePath,
+        operation: "createWriteStream",
+        backend: "local",
+      });
+    }
+
+    return createAtomicWriteStream(resolvedPath, {
+      encoding: options.encoding,
+      exclusive: flags === "wx",
+      mode: options.mode,
+    });
   }
 
   /**
@@ -393,10 +880,194 @@ export class LocalAdapter implements BaseAdapter {
       const relativePath = path.relative(this.config.basePath, realPath);
       return normalizePath(relativePath);
     } catch (error) {
-      throw mapNativeError(error as Error, { path: filePath, operation: "realpath" });
+      throw mapError(error, { backend: "local", path: filePath, operation: "realpath" });
     }
   }
 
+  /**
+   * Create a signed URL for the route configured in `signedUrls`
+   *
+   * The URL carries an HMAC-signed token granting one operation on the path
+   * until it expires; the route checks it with `verifySignedUrlToken()` and
+   * then serves the file. The file itself is not checked, so write URLs can
+   * name files that do not exist yet.
+   *
+   * @throws {ValidationError} if signed URLs are not configured
+   */
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    const { operation, expiresIn, contentType } = resolveSignedUrlOptions(options);
+    const signing = this.config.signedUrls;
+
+    if (!signing) {
+      throw new ValidationError("Local signed URLs require the signedUrls configuration", {
+        backend: "local",
+        path: filePath,
+        operation: "getSignedUrl",
+      });
+    }
+    // Reject paths outside the base path before signing them
+    this.resolvePath(filePath);
+
+    const token = createSignedUrlToken(
+      {
+        path: `/${normalizePath(filePath)}`,
+        operation,
+        expiresAt: Date.now() + expiresIn * 1000,
+        ...(contentType !== undefined && { contentType }),
+      },
+      signing.secret,
+    );
+    const separator = signing.baseUrl.includes("?") ? "&" : "?";
+    return `${signing.baseUrl}${separator}token=${token}`;
+  }
+
+  /**
+   * Watch a directory for changes with fs.watch
+   *
+   * Notifications are coalesced per path: a path is refreshed once no
+   * notification for it (or for an entry below it) has arrived for
+   * `WATCH_SETTLE_DELAY` milliseconds. A single write (truncate, then write)
+   * is therefore reported as one change, a file rewritten without pause is
+   * reported once the writes stop, and a file created and deleted in quick
+   * succession may not be reported at all. Metadata sidecar files and the
+   * temporary files of atomic writes are not reported.
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    const recursive = options?.recursive ?? false;
+    let fsWatcher: fsSync.FSWatcher | undefined;
+    let settleTimer: NodeJS.Timeout | undefined;
+    const watcher = new SnapshotWatcher(() => {
+      clearTimeout(settleTimer);
+      fsWatcher?.close();
+    });
+
+    // Time of the last notification per relative path; undefined refreshes the whole tree
+    const pending = new Map<string | undefined, number>();
+    let ready = false;
+    let refreshing = false;
+
+    // Whether a notification concerning the path or an entry below it arrived since a time
+    const notifiedSince = (relative: string | undefined, time: number) => {
+      for (const [other, notifiedAt] of pending) {
+        const covered =
+          relative === undefined ||
+          other === undefined ||
+          other === relative ||
+          other.startsWith(`${relative}/`);
+        if (covered && notifiedAt >= time) {
+          return true;
+        }
+      }
+      return false;
+    };
+    // A snapshot overtaken by a notification is dropped; the path is refreshed again later
+    const refresh = async (relative: string | undefined) => {
+      const startedAt = Date.now();
+      if (relative === undefined) {
+        const snapshot = await takeSnapshot(this, dirPath, recursive);
+        if (!notifiedSince(relative, startedAt)) {
+          watcher.update(snapshot);
+        }
+        return;
+      }
+      const entryPath = `/${normalizePath(joinPath(dirPath, relative))}`;
+      const snapshot = await takePathSnapshot(this, entryPath, recursive);
+      if (!notifiedSince(relative, startedAt)) {
+        watcher.update(
+          snapshot,
+          candidate => candidate === entryPath || candidate.startsWith(`${entryPath}/`),
+        );
+      }
+    };
+    const drain = async () => {
+      refreshing = true;
+      try {
+        for (const relative of [...pending.keys()]) {
+          if (watcher.isClosed) {
+            break;
+          }
+          if (notifiedSince(relative, Date.now() - WATCH_SETTLE_DELAY)) {
+            continue;
+          }
+          pending.delete(relative);
+          try {
+            await refresh(relative);
+          } catch (error) {
+            watcher.fail(error);
+          }
+        }
+      } finally {
+        refreshing = false;
+        if (pending.size > 0) {
+          schedule();
+        }
+      }
+    };
+    const schedule = () => {
+      if (settleTimer !== undefined || watcher.isClosed) {
+        return;
+      }
+      settleTimer = setTimeout(() => {
+        settleTimer = undefined;
+        // A running refresh schedules the remaining notifications when it is done
+        if (!refreshing) {
+          drain();
+        }
+      }, WATCH_SETTLE_DELAY);
+    };
+
+    // Notifications arriving while the initial snapshot is taken are handled after it
+    let initial: Promise<WatchSnapshot>;
+    try {
+      fsWatcher = fsSync.watch(this.resolvePath(dirPath), { recursive }, (_event, filename) => {
+        const relative = filename?.split(path.sep).join("/");
+        const name = relative !== undefined ? path.posix.basename(relative) : undefined;
+        if (
+          name &&
+          (describedFileName(name) || isTemporarySiblingName(name) || isLockFileName(name))
+        ) {
+          return;
+        }
+        pending.set(relative, Date.now());
+        if (ready) {
+          schedule();
+        }
+      });
+      fsWatcher.on("error", error => {
+        try {
+          watcher.fail(mapError(error, { backend: "local", path: dirPath, operation: "watch" }));
+        } finally {
+          watcher.close();
+        }
+      });
+      initial = takeSnapshot(this, dirPath, recursive);
+    } catch (error) {
+      initial = Promise.reject(
+        mapError(error, { backend: "local", path: dirPath, operation: "watch" }),
+      );
+    }
+
+    watcher.start(initial).then(started => {
+      ready = started;
+      if (started && pending.size > 0) {
+        schedule();
+      }
+    });
+    return watcher;
+  }
+
+  /**
+   * Get adapter name, version and capabilities
+   */
+  getMetadata(): AdapterMetadata {
+    return {
+      name: "local",
+      version: "1.0.0",
+      capabilities: { ...LocalAdapter.capabilities },
+      isAvailable: fsSync.existsSync(this.config.basePath),
+    };
+  }
+
   /**
    * Convert Node.js fs.Stats to FileStats interface
    */
@@ -430,6 +1101,7 @@ export class LocalAdapter implements BaseAdapter {
       mtime: stats.mtime,
       ctime: stats.ctime,
       birthtime: stats.birthtime,
+      ...(stats.isFile() && { etag: this.etagOf(stats) }),
     };
   }
 }
@@ -0,0 +1,868 @@
+/**
+ * In-Memory Adapter
+ *
+ * Adapter that keeps files and directories in process memory.
+ * Useful for tests and ephemeral storage; nothing is persisted.
+ */
+
+import { constants as bufferConstants } from "buffer";
+import { Readable, Writable } from "stream";
+
+import {
+  AdapterCapabilities,
+  AdapterMetadata,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../interfaces/adapter.interface";
+import { AbstractAdapter } from "./abstract-adapter";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  LockHandle,
+  LockOptions,
+  ReaddirOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import {
+  AlreadyExistsError,
+  FilesystemError,
+  PermissionError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+import { mapError } from "../utils/error-mapper";
+import { assertEtagMatches, isExclusive, resolveWriteFileOptions } from "../utils/write-utils";
+import { resolveFileMetadata } from "../utils/metadata-utils";
+import { resolveSignedUrlOptions } from "../utils/signed-url-utils";
+import { dirname, normalizePath } from "../utils/path-utils";
+import {
+  acquireLock,
+  createLockHandle,
+  createLockRecord,
+  isLockExpired,
+  LockRecord,
+  resolveLockOptions,
+} from "../utils/lock-utils";
+import { createDirectoryEntry } from "../utils/walk-utils";
+
+/**
+ * Memory adapter configuration
+ */
+export interface MemoryAdapterConfig {
+  /** Whether to create missing directories automatically */
+  createMissingDirs: boolean;
+  /** Enable debug logging */
+  debug?: boolean;
+  /** Custom logger function */
+  logger?: (
+    level: "debug" | "info" | "warn" | "error",
+    message: string,
+    metadata?: unknown,
+  ) => void;
+}
+
+/**
+ * A file or directory held in memory
+ */
+interface MemoryNode {
+  type: "file" | "directory";
+  content: Buffer;
+  ino: number;
+  /** Incremented whenever the content is replaced */
+  version: number;
+  /** Content headers and user metadata */
+  metadata?: FileMetadata;
+  atime: Date;
+  mtime: Date;
+  ctime: Date;
+  birthtime: Date;
+}
+
+/**
+ * Messages used for Node.js-style errors, keyed by errno code
+ */
+const ERROR_MESSAGES: Record<string, string> = {
+  ENOENT: "no such file or directory",
+  EEXIST: "file already exists",
+  EISDIR: "illegal operation on a directory",
+  ENOTDIR: "not a directory",
+  ENOTEMPTY: "directory not empty",
+  EINVAL: "invalid argument",
+};
+
+const ROOT_KEY = ".";
+const FILE_MODE = 0o100644;
+const DIRECTORY_MODE = 0o040755;
+const BLOCK_SIZE = 4096;
+
+/**
+ * In-memory filesystem adapter implementation
+ */
+export class MemoryAdapter extends AbstractAdapter {
+  /** Features supported by in-memory storage */
+  static readonly capabilities: AdapterCapabilities = {
+    streaming: true,
+    symbolicLinks: false,
+    permissions: false,
+    directories: true,
+    realDirectories: true,
+    atomicRename: true,
+    maxFileSize: bufferConstants.MAX_LENGTH,
+    networkBased: false,
+  };
+
+  private config: MemoryAdapterConfig;
+  private nodes = new Map<string, MemoryNode>();
+  private nextIno = 1;
+  private locks = new Map<string, LockRecord>();
+  private logger: (
+    level: "debug" | "info" | "warn" | "error",
+    message: string,
+    metadata?: unknown,
+  ) => void;
+
+  constructor(config: MemoryAdapterConfig) {
+    super();
+    this.config = config;
+    this.logger =
+      config.logger ||
+      ((level, message, metadata) => {
+        if (config.debug) {
+          console.log(`[${level}] ${message}`, metadata || "");
+        }
+      });
+
+    this.nodes.set(ROOT_KEY, this.createNode("directory"));
+
+    // Log initialization
+    this.logger("debug", "MemoryAdapter initialized", {
+      createMissingDirs: config.createMissingDirs,
+    });
+  }
+
+  /**
+   * Convert a file path to its key in the node table
+   */
+  private pathToKey(filePath: string): string {
+    const normalized = normalizePath(filePath);
+
+    // Security check: ensure path does not escape the root
+    if (normalized === ".." || normalized.startsWith("../")) {
+      throw new PermissionError(filePath, "access", {
+        backend: "memory",
+        cause: new Error("Path traversal attempt detected"),
+      });
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Create a new node with the current time as all timestamps
+   */
+  private createNode(type: MemoryNode["type"], content: Buffer = Buffer.alloc(0)): MemoryNode {
+    const now = new Date();
+    return {
+      type,
+      content,
+      ino: this.nextIno++,
+      version: 1,
+      atime: now,
+      mtime: now,
+      ctime: now,
+      birthtime: now,
+    };
+  }
+
+  /**
+   * Create a Node.js-style errno error so it maps like native fs errors
+   */
+  private createNativeError(code: string, syscall: string, filePath: string): Error {
+    const error: NodeJS.ErrnoException = new Error(
+      `${code}: ${ERROR_MESSAGES[code]}, ${syscall} '${filePath}'`,
+    );
+    error.code = code;
+    error.syscall = syscall;
+    error.path = filePath;
+    return error;
+  }
+
+  /**
+   * Run an operation, mapping any native-style error to a filesystem error
+   */
+  private run<T>(filePath: string, operation: string, fn: () => T): T {
+    try {
+      return fn();
+    } catch (error) {
+      if (!(error instanceof FilesystemError)) {
+        this.logger("error", `${operation} failed`, { filePath, error });
+      }
+      throw mapError(error, { backend: "memory", path: filePath, operation });
+    }
+  }
+
+  /**
+   * Get an existing node or throw ENOENT
+   */
+  private getNode(key: string, syscall: string, filePath: string): MemoryNode {
+    const node = this.nodes.get(key);
+    if (!node) {
+      throw this.createNativeError("ENOENT", syscall, filePath);
+    }
+    return node;
+  }
+
+  /**
+   * Get an existing file node, rejecting directories
+   */
+  private getFile(key: string, syscall: string, filePath: string): MemoryNode {
+    const node = this.getNode(key, syscall, filePath);
+    if (node.type === "directory") {
+      throw this.createNativeError("EISDIR", syscall, filePath);
+    }
+    return node;
+  }
+
+  /**
+   * Ensure the parent directory of a key exists, creating it if configured
+   */
+  private ensureParent(key: string, syscall: string, filePath: string): void {
+    const parentKey = dirname(key);
+    const parent = this.nodes.get(parentKey);
+
+    if (!parent) {
+      if (!this.config.createMissingDirs) {
+        throw this.createNativeError("ENOENT", syscall, filePath);
+      }
+      this.makeDirectory(parentKey, true, syscall, filePath);
+      return;
+    }
+
+    if (parent.type !== "directory") {
+      throw this.createNativeError("ENOTDIR", syscall, filePath);
+    }
+  }
+
+  /**
+   * Update a directory's modification time after its entries changed
+   */
+  private touchParent(key: string): void {
+    const parent = this.nodes.get(dirname(key));
+    if (parent) {
+      const now = new Date();
+      parent.mtime = now;
+      parent.ctime = now;
+    }
+  }
+
+  /**
+   * Fail if a node exists, for exclusive creation
+   */
+  private assertAbsent(key: string, filePath: string, operation: string): void {
+    if (this.nodes.has(key)) {
+      throw new AlreadyExistsError(filePath, { operation, backend: "memory" });
+    }
+  }
+
+  /**
+   * Fail unless a file exists with the expected ETag, for conditional writes
+   */
+  private assertEtag(
+    key: string,
+    filePath: string,
+    ifMatch: string | undefined,
+    operation: string,
+  ): void {
+    const node = this.nodes.get(key);
+    const etag = node?.type === "file" ? this.etagOf(node) : undefined;
+    assertEtagMatches(etag, ifMatch, { path: filePath, operation, backend: "memory" });
+  }
+
+  /**
+   * ETag of a file node, derived from its inode and content version
+   */
+  private etagOf(node: MemoryNode): string {
+    return `${node.ino}-${node.version}`;
+  }
+
+  /**
+   * Store file content, creating the file if needed
+   *
+   * @returns The file node
+   */
+  private putFile(key: string, content: Buffer, syscall: string, filePath: string): MemoryNode {
+    const existing = this.nodes.get(key);
+
+    if (existing) {
+      if (existing.type === "directory") {
+        throw this.createNativeError("EISDIR", syscall, filePath);
+      }
+      const now = new Date();
+      existing.content = content;
+      existing.version++;
+      existing.mtime = now;
+      existing.ctime = now;
+      return existing;
+    }
+
+    this.ensureParent(key, syscall, filePath);
+    const node = this.createNode("file", content);
+    this.nodes.set(key, node);
+    this.touchParent(key);
+    return node;
+  }
+
+  /**
+   * Create a directory (and optionally its parents)
+   */
+  private makeDirectory(key: string, recursive: boolean, syscall: string, filePath: string): void {
+    const existing = this.nodes.get(key);
+
+    if (existing) {
+      if (recursive && existing.type === "directory") {
+        return;
+      }
+      throw this.createNativeError("EEXIST", syscall, filePath);
+    }
+
+    const parentKey = dirname(key);
+    const parent = this.nodes.get(parentKey);
+
+    if (!parent) {
+      if (!recursive) {
+        throw this.createNativeError("ENOENT", syscall, filePath);
+      }
+      this.makeDirectory(parentKey, true, syscall, filePath);
+    } else if (parent.type !== "directory") {
+      throw this.createNativeError("ENOTDIR", syscall, filePath);
+    }
+
+    this.nodes.set(key, this.createNode("directory"));
+    this.touchParent(key);
+  }
+
+  /**
+   * List the keys of all nodes below a directory
+   */
+  private descendantKeys(key: string): string[] {
+    if (key === ROOT_KEY) {
+      return [...this.nodes.keys()].filter(candidate => candidate !== ROOT_KEY);
+    }
+    const prefix = `${key}/`;
+    return [...this.nodes.keys()].filter(candidate => candidate.startsWith(prefix));
+  }
+
+  /**
+   * Convert content to a buffer
+   */
+  private toBuffer(data: string | Buffer, encoding?: BufferEncoding): Buffer {
+    return typeof data === "string" ? Buffer.from(data, encoding) : Buffer.from(data);
+  }
+
+  /**
+   * Read entire file contents
+   */
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    const key = this.pathToKey(filePath);
+
+    this.logger("debug", "readFile called", { filePath, key, encoding });
+
+    return this.run(filePath, "readFile", () => {
+      const node = this.getFile(key, "open", filePath);
+      node.atime = new Date();
+      return encoding ? node.content.toString(encoding) : Buffer.from(node.content);
+    });
+  }
+
+  /**
+   * Write data to file
+   */
+  async writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void> {
+    const { encoding, exclusive, ifMatch } = resolveWriteFileOptions(options);
+    const metadata = resolveFileMetadata(options);
+    const key = this.pathToKey(filePath);
+
+    this.run(filePath, "writeFile", () => {
+      if (exclusive) {
+        this.assertAbsent(key, filePath, "writeFile");
+      }
+      this.assertEtag(key, filePath, ifMatch, "writeFile");
+      this.putFile(key, this.toBuffer(data, encoding), "open", filePath).metadata = metadata;
+    });
+  }
+
+  /**
+   * Append data to file
+   */
+  async appendFile(
+    filePath: string,
+    data: string | Buffer,
+    encoding?: BufferEncoding,
+  ): Promise<void> {
+    const key = this.pathToKey(filePath);
+
+    this.run(filePath, "appendFile", () => {
+      const existing = this.nodes.get(key);
+      const current = existing?.type === "file" ? existing.content : Buffer.alloc(0);
+      this.putFile(key, Buffer.concat([current, this.toBuffer(data, encoding)]), "open", filePath);
+    });
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
+    const key = this.pathToKey(filePath);
+
+    this.run(filePath, "unlink", () => {
+      this.assertEtag(key, filePath, options?.ifMatch, "unlink");
+      this.getFile(key, "unlink", filePath);
+      this.nodes.delete(key);
+      this.touchParent(key);
+    });
+  }
+
+  /**
+   * Copy file from source to destination
+   */
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    const srcKey = this.pathToKey(src);
+    const destKey = this.pathToKey(dest);
+
+    const metadata = resolveFileMetadata(options);
+
+    this.run(src, "copyFile", () => {
+      const source = this.getFile(srcKey, "copyfile", src);
+      if (isExclusive(options)) {
+        this.assertAbsent(destKey, dest, "copyFile");
+      }
+      const copy = this.putFile(destKey, Buffer.from(source.content), "copyfile", dest);
+      copy.metadata = metadata ?? structuredClone(source.metadata);
+    });
+  }
+
+  /**
+   * Rename or move a file or directory
+   */
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
+    const oldKey = this.pathToKey(oldPath);
+    const newKey = this.pathToKey(newPath);
+
+    this.run(oldPath, "rename", () => {
+      const source = this.getNode(oldKey, "rename", oldPath);
+
+      if (isExclusive(options)) {
+        this.assertAbsent(newKey, newPath, "rename");
+      }
+      if (oldKey === newKey) {
+        return;
+      }
+
+      if (oldKey === ROOT_KEY || newKey.startsWith(`${oldKey}/`)) {
+        throw this.createNativeError("EINVAL", "rename", oldPath);
+      }
+
+      const target = this.nodes.get(newKey);
+      if (target) {
+        if (source.type === "file" && target.type === "directory") {
+          throw this.createNativeError("EISDIR", "rename", newPath);
+        }
+        if (source.type === "directory" && target.type === "file") {
+          throw this.createNativeError("ENOTDIR", "rename", newPath);
+        }
+        if (target.type === "directory" && this.descendantKeys(newKey).length > 0) {
+          throw this.createNativeError("ENOTEMPTY", "rename", newPath);
+        }
+      } else {
+        this.ensureParent(newKey, "rename", newPath);
+      }
+
+      // Move the node and, for directories, everything below it
+      const moved: Array<[string, MemoryNode]> = [[newKey, source]];
+      if (source.type === "directory") {
+        for (const descendant of this.descendantKeys(oldKey)) {
+          moved.push([
+            `${newKey}${descendant.substring(oldKey.length)}`,
+            this.nodes.get(descendant)!,
+          ]);
+          this.nodes.delete(descendant);
+        }
+      }
+
+      this.nodes.delete(oldKey);
+      this.touchParent(oldKey);
+      for (const [key, node] of moved) {
+        this.nodes.set(key, node);
+      }
+      source.ctime = new Date();
+      this.touchParent(newKey);
+    });
+  }
+
+  /**
+   * Acquire an advisory lock on a path
+   *
+   * Locks are held in a table next to the nodes, so they create no files and
+   * only exclude callers using the same adapter instance.
+   */
+  async lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    const lockOptions = resolveLockOptions(options);
+    const key = this.pathToKey(filePath);
+
+    return acquireLock(filePath, lockOptions, "memory", async () => {
+      if (!isLockExpired(this.locks.get(key))) {
+        return undefined;
+      }
+
+      const record = createLockRecord(lockOptions.ttl);
+      this.locks.set(key, record);
+      return createLockHandle(filePath, record, async () => {
+        if (this.locks.get(key)?.owner === record.owner) {
+          this.locks.delete(key);
+        }
+      });
+    });
+  }
+
+  /**
+   * Read directory contents
+   */
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    const key = this.pathToKey(dirPath);
+
+    return this.run(dirPath, "readdir", () => {
+      const node = this.getNode(key, "scandir", dirPath);
+      if (node.type !== "directory") {
+        throw this.createNativeError("ENOTDIR", "scandir", dirPath);
+      }
+
+      const prefix = key === ROOT_KEY ? "" : `${key}/`;
+      const children: Array<[string, MemoryNode]> = [];
+
+      for (const [candidate, child] of this.nodes) {
+        if (candidate === ROOT_KEY || !candidate.startsWith(prefix)) {
+          continue;
+        }
+        const name = candidate.substring(prefix.length);
+        if (name && !name.includes("/")) {
+          children.push([name, child]);
+        }
+      }
+
+      children.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+      if (!options?.withFileTypes) {
+        return children.map(([name]) => name);
+      }
+      return children.map(([name, child]) =>
+        child.type === "file"
+          ? createDirectoryEntry(name, "file", { size: child.content.length, mtime: child.mtime })
+          : createDirectoryEntry(name, "directory", { mtime: child.mtime }),
+      );
+    });
+  }
+
+  /**
+   * Create directory
+   */
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    const key = this.pathToKey(dirPath);
+
+    this.run(dirPath, "mkdir", () => {
+      this.makeDirectory(key, options?.recursive ?? false, "mkdir", dirPath);
+    });
+  }
+
+  /**
+   * Remove directory
+   *
+   * With `recursive: true` this behaves like `fs.rm({ recursive: true, force: true })`,
+   * matching the local adapter: missing paths are ignored and files are removed too.
+   */
+  async rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    const key = this.pathToKey(dirPath);
+
+    this.run(dirPath, "rmdir", () => {
+      if (options?.recursive) {
+        for (const descendant of this.descendantKeys(key)) {
+          this.nodes.delete(descendant);
+        }
+        if (key !== ROOT_KEY && this.nodes.delete(key)) {
+          this.touchParent(key);
+        }
+        return;
+      }
+
+      const node = this.getNode(key, "rmdir", dirPath);
+      if (node.type !== "directory") {
+        throw this.createNativeError("ENOTDIR", "rmdir", dirPath);
+      }
+      if (this.descendantKeys(key).length > 0) {
+        throw this.createNativeError("ENOTEMPTY", "rmdir", dirPath);
+      }
+      if (key !== ROOT_KEY) {
+        this.nodes.delete(key);
+        this.touchParent(key);
+      }
+    });
+  }
+
+  /**
+   * Get file/directory statistics
+   */
+  async stat(filePath: string): Promise<FileStats> {
+    const key = this.pathToKey(filePath);
+
+    return this.run(filePath, "stat", () => this.convertStats(this.getNode(key, "stat", filePath)));
+  }
+
+  /**
+   * Check file accessibility
+   */
+  async access(filePath: string, _mode?: number): Promise<void> {
+    const key = this.pathToKey(filePath);
+
+    this.run(filePath, "access", () => {
+      this.getNode(key, "access", filePath);
+    });
+  }
+
+  /**
+   * Get the content headers and user metadata of a file
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    const key = this.pathToKey(filePath);
+
+    return this.run(filePath, "getFileMetadata", () =>
+      structuredClone(this.getFile(key, "open", filePath).metadata ?? {}),
+    );
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    const key = this.pathToKey(filePath);
+    const resolved = resolveFileMetadata(metadata);
+
+    this.run(filePath, "setFileMetadata", () => {
+      const node = this.getFile(key, "open", filePath);
+      node.metadata = resolved;
+      node.ctime = new Date();
+    });
+  }
+
+  /**
+   * Create readable stream for file
+   *
+   * The file content is snapshotted when the stream starts reading, so later
+   * writes do not affect a stream in progress.
+   */
+  createReadStream(filePath: string, options?: ReadStreamOptions): Readable {
+    const key = this.pathToKey(filePath);
+    const start = options?.start ?? 0;
+
+    if (start < 0 || (options?.end !== undefined && options.end < start)) {
+      throw new ValidationError(`Invalid range for ${filePath}: start must be <= end`);
+    }
+
+    this.logger("debug", "createReadStream called", { filePath, key, options });
+
+    let content: Buffer | undefined;
+    let position = start;
+    let endExclusive = 0;
+
+    const readable = new Readable({
+      highWaterMark: options?.highWaterMark,
+      encoding: options?.encoding,
+      read: size => {
+        if (!content) {
+          try {
+            content = this.run(filePath, "createReadStream", () =>
+              this.getFile(key, "open", filePath),
+            ).content;
+          } catch (error) {
+            readable.destroy(error as Error);
+            return;
+          }
+          endExclusive = Math.min(
+            options?.end !== undefined ? options.end + 1 : content.length,
+            content.length,
+          );
+        }
+
+        if (position >= endExclusive) {
+          readable.push(null);
+          return;
+        }
+
+        const chunk = content.subarray(position, Math.min(position + size, endExclusive));
+        position += chunk.length;
+        readable.push(chunk);
+      },
+    });
+
+    return readable;
+  }
+
+  /**
+   * Create writable stream for file
+   *
+   * Like fs.createWriteStream, the file is created (or truncated unless the
+   * `flags` start with "a") when the stream opens. Written chunks are buffered
+   * and appended in a single update when the stream finishes, so the file's
+   * ETag changes once per stream; a destroyed stream appends nothing.
+   */
+  createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
+    const key = this.pathToKey(filePath);
+    const append = options?.flags?.startsWith("a") ?? false;
+    const metadata = resolveFileMetadata(options);
+
+    this.logger("debug", "createWriteStream called", { filePath, key, options });
+
+    const chunks: Buffer[] = [];
+
+    return new Writable({
+      defaultEncoding: options?.encoding,
+
+      construct: callback => {
+        try {
+          this.run(filePath, "createWriteStream", () => {
+            const existing = this.nodes.get(key);
+            if (!append || !existing) {
+              this.putFile(key, Buffer.alloc(0), "open", filePath).metadata = metadata;
+            } else if (existing.type === "directory") {
+              throw this.createNativeError("EISDIR", "open", filePath);
+            } else if (metadata) {
+              existing.metadata = metadata;
+            }
+          });
+          callback();
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+
+      write: (chunk: Buffer, encoding: BufferEncoding, callback) => {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding));
+        callback();
+      },
+
+      final: callback => {
+        try {
+          this.run(filePath, "createWriteStream", () => {
+            const node = this.getFile(key, "write", filePath);
+            if (chunks.length === 0) {
+              return;
+            }
+            const now = new Date();
+            node.content = Buffer.concat([node.content, ...chunks]);
+            node.version++;
+            node.mtime = now;
+            node.ctime = now;
+          });
+          callback();
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+    });
+  }
+
+  /**
+   * Check if file/directory exists
+   */
+  async exists(filePath: string): Promise<boolean> {
+    return this.nodes.has(this.pathToKey(filePath));
+  }
+
+  /**
+   * Resolve symbolic links and relative paths
+   */
+  async realpath(filePath: string): Promise<string> {
+    const key = this.pathToKey(filePath);
+
+    return this.run(filePath, "realpath", () => {
+      this.getNode(key, "realpath", filePath);
+      return key;
+    });
+  }
+
+  /**
+   * Signed URLs are not available: in-memory files cannot be served by another process
+   *
+   * @throws {ValidationError} always
+   */
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    resolveSignedUrlOptions(options);
+    throw new ValidationError("Signed URLs are not supported by the memory adapter", {
+      backend: "memory",
+      path: filePath,
+      operation: "getSignedUrl",
+    });
+  }
+
+  /**
+   * Get adapter name, version and capabilities
+   */
+  getMetadata(): AdapterMetadata {
+    return {
+      name: "memory",
+      version: "1.0.0",
+      capabilities: { ...MemoryAdapter.capabilities },
+      isAvailable: true,
+    };
+  }
+
+  /**
+   * Convert a memory node to FileStats interface
+   */
+  private convertStats(node: MemoryNode): FileStats {
+    const isDirectory = node.type === "directory";
+    const size = isDirectory ? 0 : node.content.length;
+
+    return {
+      // Type checks
+      isFile: () => !isDirectory,
+      isDirectory: () => isDirectory,
+      isBlockDevice: () => false,
+      isCharacterDevice: () => false,
+      isSymbolicLink: () => false,
+      isFIFO: () => false,
+      isSocket: () => false,
+
+      // Properties
+      dev: 0,
+      ino: node.ino,
+      mode: isDirectory ? DIRECTORY_MODE : FILE_MODE,
+      nlink: 1,
+      uid: 0,
+      gid: 0,
+      rdev: 0,
+      size,
+      blksize: BLOCK_SIZE,
+      blocks: Math.ceil(size / 512),
+      atimeMs: node.atime.getTime(),
+      mtimeMs: node.mtime.getTime(),
+      ctimeMs: node.ctime.getTime(),
+      birthtimeMs: node.birthtime.getTime(),
+      atime: new Date(node.atime),
+      mtime: new Date(node.mtime),
+      ctime: new Date(node.ctime),
+      birthtime: new Date(node.birthtime),
+      ...(!isDirectory && { etag: this.etagOf(node) }),
+    };
+  }
+}
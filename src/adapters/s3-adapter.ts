@@ -9,28 +9,95 @@ import {
   GetObjectCommand,
   PutObjectCommand,
   DeleteObjectCommand,
-  DeleteObjectCommandOutput,
+  DeleteObjectsCommand,
   HeadObjectCommand,
   ListObjectsV2Command,
+  ListObjectsV2CommandOutput,
   CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
 } from "@aws-sdk/client-s3";
-import { Readable, Writable } from "stream";
+import { getSignedUrl as presignUrl } from "@aws-sdk/s3-request-presigner";
+import { PassThrough, Readable, Writable } from "stream";
 import { Readable as NodeReadable } from "stream";
 
 import {
-  BaseAdapter,
+  AdapterCapabilities,
+  AdapterMetadata,
   ReadStreamOptions,
   WriteStreamOptions,
 } from "../interfaces/adapter.interface";
-import { FileStats } from "../interfaces/filesystem.interface";
+import { AbstractAdapter } from "./abstract-adapter";
 import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  LockHandle,
+  LockOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import {
+  AlreadyExistsError,
+  BatchFailure,
+  BatchOperationError,
+  DirectoryNotEmptyError,
   FilesystemError,
   FileNotFoundError,
-  PermissionError,
+  IsDirectoryError,
+  NotDirectoryError,
+  PreconditionFailedError,
   StorageError,
-  NetworkError,
+  ValidationError,
 } from "../errors/filesystem-errors";
+import { resolveFileMetadata } from "../utils/metadata-utils";
+import { detectContentType } from "../utils/content-type-utils";
+import { resolveSignedUrlOptions } from "../utils/signed-url-utils";
 import { normalizePath } from "../utils/path-utils";
+import { getRetryDelay, mapError, resolveErrorCode } from "../utils/error-mapper";
+import { isExclusive, resolveWriteFileOptions } from "../utils/write-utils";
+import {
+  DEFAULT_REMOVE_CONCURRENCY,
+  forEachWithConcurrency,
+  resolveConcurrency,
+} from "../utils/batch-utils";
+import {
+  acquireLock,
+  createLockHandle,
+  createLockRecord,
+  isLockExpired,
+  isLockFileName,
+  lockFilePath,
+  LockRecord,
+  resolveLockOptions,
+} from "../utils/lock-utils";
+import { createDirectoryEntry, resolvePageLimit } from "../utils/walk-utils";
+import { watchByPolling } from "../utils/watch-utils";
+import { DEFAULT_S3_CONFIG, type S3ServerSideEncryption } from "../types/config";
+
+/**
+ * Maximum number of keys accepted by one DeleteObjects request
+ */
+const S3_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Attempts of an append that keeps racing with other writers
+ */
+const S3_APPEND_MAX_ATTEMPTS = 8;
 
 /**
  * S3 adapter configuration
@@ -54,6 +121,16 @@ export interface S3AdapterConfig {
   timeout?: number;
   /** Maximum number of retries for S3 operations */
   maxRetries?: number;
+  /** Part size in bytes for multipart uploads made by createWriteStream */
+  multipartPartSize?: number;
+  /** Maximum number of parts uploaded in parallel by createWriteStream */
+  multipartConcurrency?: number;
+  /** Server-side encryption of written objects */
+  serverSideEncryption?: S3ServerSideEncryption;
+  /** KMS key for "aws:kms" encryption */
+  sseKmsKeyId?: string;
+  /** Base64-encoded SSE-C customer key */
+  sseCustomerKey?: string;
   /** Enable debug logging */
   debug?: boolean;
   /** Custom logger function */
@@ -67,9 +144,23 @@ export interface S3AdapterConfig {
 /**
  * S3 filesystem adapter implementation
  */
-export class S3Adapter implements BaseAdapter {
+export class S3Adapter extends AbstractAdapter {
+  /** Features supported by S3 (directories are emulated with key prefixes) */
+  static readonly capabilities: AdapterCapabilities = {
+    streaming: true,
+    symbolicLinks: false,
+    permissions: false,
+    directories: true,
+    realDirectories: false,
+    atomicRename: false,
+    maxFileSize: 5 * 1024 * 1024 * 1024 * 1024, // 5 TiB S3 object limit
+    networkBased: true,
+  };
+
   private config: S3AdapterConfig;
   private s3Client: S3Client;
+  private clientConfig: Record<string, unknown>;
+  private presignClient?: S3Client;
   private logger: (
     level: "debug" | "info" | "warn" | "error",
     message: string,
@@ -77,6 +168,7 @@ export class S3Adapter implements BaseAdapter {
   ) => void;
 
   constructor(config: S3AdapterConfig) {
+    super();
     this.config = config;
     this.logger =
       config.logger ||
@@ -107,19 +199,20 @@ export class S3Adapter implements BaseAdapter {
       forcePathStyle: this.config.forcePathStyle,
     };
 
-    // Add timeout if configured
+    // Bound each HTTP request; the SDK accepts handler options in place of a handler instance
     if (this.config.timeout) {
       clientConfig.requestHandler = {
-        // Note: In a real implementation, we would configure the HTTP client timeout
-        // For now, we'll rely on AWS SDK default timeout handling
+        connectionTimeout: this.config.timeout,
+        requestTimeout: this.config.timeout,
       };
     }
 
-    // Add maxRetries if configured
+    // SDK-level retries per request (operation retries are handled by the retry layer)
     if (this.config.maxRetries !== undefined) {
       clientConfig.maxAttempts = this.config.maxRetries + 1; // AWS SDK uses maxAttempts
     }
 
+    this.clientConfig = clientConfig;
     this.s3Client = new S3Client(clientConfig);
   }
 
@@ -128,8 +221,9 @@ export class S3Adapter implements BaseAdapter {
    */
   private pathToKey(filePath: string): string {
     const normalized = normalizePath(filePath);
-    // Remove leading slash if present
-    const cleanPath = normalized.startsWith("/") ? normalized.substring(1) : normalized;
+    // Remove leading slash if present; the root directory maps to the empty key
+    const cleanPath =
+      normalized === "." ? "" : normalized.startsWith("/") ? normalized.substring(1) : normalized;
     // Add prefix if configured
     if (this.config.prefix) {
       const prefix = this.config.prefix.endsWith("/")
@@ -140,55 +234,6 @@ export class S3Adapter implements BaseAdapter {
     return cleanPath;
   }
 
-  /**
-   * Map S3 error to filesystem error
-   */
-  private mapS3Error(
-    error: unknown,
-    context: { path?: string; operation?: string },
-  ): FilesystemError {
-    // Type guard to check if error is an object with name and message properties
-    const getErrorInfo = (err: unknown): { name: string; message: string } => {
-      if (err && typeof err === "object") {
-        const obj = err as Record<string, unknown>;
-        return {
-          name: (obj.name as string) || (obj.constructor?.name as string) || "UnknownError",
-          message: (obj.message as string) || String(err),
-        };
-      }
-      return { name: "UnknownError", message: String(err) };
-    };
-
-    const { name: errorName, message: errorMessage } = getErrorInfo(error);
-
-    // Map common S3 errors
-    if (errorName === "NoSuchKey" || errorName === "NotFound") {
-      return new FileNotFoundError(context.path || "unknown", { cause: error as Error });
-    }
-
-    if (errorName === "AccessDenied" || errorName === "Forbidden") {
-      return new PermissionError(context.path || "unknown", context.operation || "operation", {
-        cause: error as Error,
-      });
-    }
-
-    if (errorName === "NoSuchBucket") {
-      return new StorageError(`Bucket not found: ${this.config.bucket}`, { cause: error as Error });
-    }
-
-    // Network-related errors
-    if (
-      errorName === "TimeoutError" ||
-      errorName === "NetworkError" ||
-      errorMessage.includes("network")
-    ) {
-      return new NetworkError(errorMessage, { cause: error as Error });
-    }
-
-    // Default to generic error
-    return new FilesystemError(`S3 error: ${errorMessage}`, { cause: error as Error });
-  }
-
   /**
    * Read entire file contents
    */
@@ -204,6 +249,7 @@ export class S3Adapter implements BaseAdapter {
       const command = new GetObjectCommand({
         Bucket: this.config.bucket,
         Key: key,
+        ...this.customerKeyParams(),
       });
 
       const response = await this.s3Client.send(command);
@@ -239,18 +285,40 @@ export class S3Adapter implements BaseAdapter {
       }
     } catch (error) {
       this.logger("error", "readFile failed", { filePath, key, error });
-      throw this.mapS3Error(error, { path: filePath, operation: "readFile" });
+      throw await this.mapReadError(error, filePath, "readFile");
     }
   }
 
+  /**
+   * Map the error of a failed object read, reporting a directory prefix as EISDIR
+   */
+  private async mapReadError(
+    error: unknown,
+    filePath: string,
+    operation: string,
+  ): Promise<FilesystemError> {
+    const mapped = mapError(error, { backend: "s3", path: filePath, operation });
+    if (mapped instanceof FileNotFoundError && (await this.isDirectoryPrefix(filePath))) {
+      return new IsDirectoryError(filePath, { operation, backend: "s3", cause: mapped });
+    }
+    return mapped;
+  }
+
   /**
    * Write data to file
+   *
+   * With flag "wx" (or `overwrite: false`) the object is written with a
+   * conditional PUT (`If-None-Match: *`), which S3 rejects if the key exists.
+   * With `ifMatch` the PUT carries `If-Match`, so S3 itself rejects it once the
+   * object has changed.
    */
   async writeFile(
     filePath: string,
     data: string | Buffer,
-    encoding?: BufferEncoding,
+    options?: BufferEncoding | WriteFileOptions,
   ): Promise<void> {
+    const { encoding, exclusive, ifMatch } = resolveWriteFileOptions(options);
+    const metadata = resolveFileMetadata(options);
     const key = this.pathToKey(filePath);
 
     try {
@@ -259,125 +327,532 @@ export class S3Adapter implements BaseAdapter {
       const command = new PutObjectCommand({
         Bucket: this.config.bucket,
         Key: key,
+        ...this.writeEncryptionParams(),
         Body: body,
+        IfNoneMatch: exclusive ? "*" : undefined,
+        IfMatch: ifMatch,
+        ...this.toObjectHeaders(metadata, filePath, body),
       });
 
       await this.s3Client.send(command);
     } catch (error) {
-      throw this.mapS3Error(error, { path: filePath, operation: "writeFile" });
+      if (exclusive && this.isPreconditionFailure(error)) {
+        throw new AlreadyExistsError(filePath, { operation: "writeFile", backend: "s3" });
+      }
+      if (ifMatch !== undefined && this.isConditionalMiss(error)) {
+        throw new PreconditionFailedError(filePath, {
+          operation: "writeFile",
+          backend: "s3",
+          cause: error as Error,
+        });
+      }
+      throw mapError(error, { backend: "s3", path: filePath, operation: "writeFile" });
     }
   }
 
+  /**
+   * S3 request headers of file metadata
+   *
+   * Without an explicit content type, the type is detected from the key's
+   * extension and, when given, the content's magic bytes.
+   */
+  private toObjectHeaders(
+    metadata: FileMetadata | undefined,
+    filePath: string,
+    content?: Buffer,
+  ): {
+    ContentType?: string;
+    CacheControl?: string;
+    ContentDisposition?: string;
+    Metadata?: Record<string, string>;
+  } {
+    return {
+      ContentType: metadata?.contentType ?? detectContentType(filePath, content),
+      CacheControl: metadata?.cacheControl,
+      ContentDisposition: metadata?.contentDisposition,
+      Metadata: metadata?.metadata,
+    };
+  }
+
+  /**
+   * Encryption parameters of requests that create an object
+   */
+  private writeEncryptionParams(): {
+    ServerSideEncryption?: S3ServerSideEncryption;
+    SSEKMSKeyId?: string;
+    SSECustomerAlgorithm?: string;
+    SSECustomerKey?: string;
+  } {
+    return {
+      ServerSideEncryption: this.config.serverSideEncryption,
+      SSEKMSKeyId: this.config.sseKmsKeyId,
+      ...this.customerKeyParams(),
+    };
+  }
+
+  /**
+   * SSE-C parameters, required by every request that reads, writes or heads an
+   * object encrypted with a customer key (the SDK adds the key's MD5)
+   */
+  private customerKeyParams(): { SSECustomerAlgorithm?: string; SSECustomerKey?: string } {
+    return this.config.sseCustomerKey
+      ? { SSECustomerAlgorithm: "AES256", SSECustomerKey: this.config.sseCustomerKey }
+      : {};
+  }
+
+  /**
+   * SSE-C parameters of the source object of a copy
+   */
+  private copySourceKeyParams(): {
+    CopySourceSSECustomerAlgorithm?: string;
+    CopySourceSSECustomerKey?: string;
+  } {
+    return this.config.sseCustomerKey
+      ? {
+          CopySourceSSECustomerAlgorithm: "AES256",
+          CopySourceSSECustomerKey: this.config.sseCustomerKey,
+        }
+      : {};
+  }
+
+  /**
+   * Check whether S3 rejected a conditional request
+   */
+  private isPreconditionFailure(error: unknown): boolean {
+    const s3Error = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return s3Error?.name === "PreconditionFailed" || s3Error?.$metadata?.httpStatusCode === 412;
+  }
+
+  /**
+   * Check whether an `If-Match` request failed because the object changed or
+   * no longer exists (S3 answers 404 for a missing object)
+   */
+  private isConditionalMiss(error: unknown): boolean {
+    return this.isPreconditionFailure(error) || resolveErrorCode(error) === "ENOENT";
+  }
+
   /**
    * Append data to file
+   *
+   * S3 cannot append, so the object is read and written back with the data
+   * appended. The write is conditional on the ETag that was read (or, for a
+   * new file, on the key not existing), so an append that raced with another
+   * writer is retried on the new content instead of overwriting it.
    */
   async appendFile(
     filePath: string,
     data: string | Buffer,
     encoding?: BufferEncoding,
   ): Promise<void> {
-    // S3 doesn't support append natively, so we need to read, append, and write
+    const newData = typeof data === "string" ? Buffer.from(data, encoding) : data;
+
     try {
-      // Read existing content
-      let existingContent: Buffer;
-      try {
-        existingContent = (await this.readFile(filePath)) as Buffer;
-      } catch (error) {
-        // If file doesn't exist, start with empty buffer
-        if (error instanceof FileNotFoundError) {
-          existingContent = Buffer.alloc(0);
-        } else {
-          throw error;
+      for (let attempt = 1; ; attempt++) {
+        const current = await this.readObjectForUpdate(filePath);
+        const content = Buffer.concat([current?.content ?? Buffer.alloc(0), newData]);
+
+        try {
+          // Write back, keeping the content headers and user metadata
+          await this.writeFile(
+            filePath,
+            content,
+            current ? { ...current.metadata, ifMatch: current.etag } : { flag: "wx" },
+          );
+          return;
+        } catch (error) {
+          const raced =
+            error instanceof PreconditionFailedError || error instanceof AlreadyExistsError;
+          if (!raced || attempt >= S3_APPEND_MAX_ATTEMPTS) {
+            throw error;
+          }
+          this.logger("debug", "appendFile raced with another writer, retrying", {
+            filePath,
+            attempt,
+          });
+          await new Promise(resolve => setTimeout(resolve, getRetryDelay(error, attempt)));
         }
       }
-
-      // Convert new data to buffer
-      const newData = typeof data === "string" ? Buffer.from(data, encoding) : data;
-
-      // Concatenate buffers
-      const combined = Buffer.concat([existingContent, newData]);
-
-      // Write back
-      await this.writeFile(filePath, combined);
     } catch (error) {
       if (error instanceof FilesystemError) {
         throw error;
       }
-      throw this.mapS3Error(error, { path: filePath, operation: "appendFile" });
+      throw mapError(error, { backend: "s3", path: filePath, operation: "appendFile" });
     }
   }
 
   /**
-   * Delete a file
+   * Read the content, ETag and metadata of an object with a single GET
+   *
+   * @returns undefined if the object does not exist
    */
-  async unlink(filePath: string): Promise<void> {
+  private async readObjectForUpdate(
+    filePath: string,
+  ): Promise<{ content: Buffer; etag: string; metadata: FileMetadata } | undefined> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({
+          Bucket: this.config.bucket,
+          Key: this.pathToKey(filePath),
+          ...this.customerKeyParams(),
+        }),
+      );
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of (response.Body as NodeReadable | undefined) ?? []) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+      return {
+        content: Buffer.concat(chunks),
+        etag: response.ETag ?? "",
+        metadata: this.toFileMetadata(response),
+      };
+    } catch (error) {
+      const mapped = mapError(error, { backend: "s3", path: filePath, operation: "appendFile" });
+      if (mapped instanceof FileNotFoundError) {
+        return undefined;
+      }
+      throw mapped;
+    }
+  }
+
+  /**
+   * Delete a file, optionally only if its ETag matches `options.ifMatch`
+   */
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
     const key = this.pathToKey(filePath);
+    const ifMatch = options?.ifMatch;
 
     try {
       const command = new DeleteObjectCommand({
         Bucket: this.config.bucket,
         Key: key,
+        IfMatch: ifMatch,
       });
 
       await this.s3Client.send(command);
     } catch (error) {
-      throw this.mapS3Error(error, { path: filePath, operation: "unlink" });
+      if (ifMatch !== undefined && this.isConditionalMiss(error)) {
+        throw new PreconditionFailedError(filePath, {
+          operation: "unlink",
+          backend: "s3",
+          cause: error as Error,
+        });
+      }
+      throw mapError(error, { backend: "s3", path: filePath, operation: "unlink" });
     }
   }
 
+  /**
+   * Delete many files, ignoring paths that do not exist
+   *
+   * Keys are deleted with DeleteObjects in batches of up to 1000, with at most
+   * `options.concurrency` batches in flight.
+   *
+   * @throws {BatchOperationError} listing every path that could not be deleted
+   */
+  async removeMany(paths: string[], options?: RemoveManyOptions): Promise<void> {
+    const concurrency = resolveConcurrency(options?.concurrency);
+    const keyToPath = new Map<string, string>();
+    for (const filePath of paths) {
+      keyToPath.set(this.pathToKey(filePath), filePath);
+    }
+
+    this.logger("debug", "removeMany called", { count: keyToPath.size });
+
+    const failures = await this.deleteKeys([...keyToPath.keys()], "removeMany", concurrency);
+    if (failures.length > 0) {
+      throw new BatchOperationError(
+        "removeMany",
+        failures.map(failure => ({
+          ...failure,
+          path: keyToPath.get(failure.path) ?? failure.path,
+        })),
+        keyToPath.size,
+      );
+    }
+  }
+
+  /**
+   * Delete keys with DeleteObjects in batches of up to 1000 keys
+   *
+   * @returns Per-key failures (`path` holds the failed key)
+   */
+  private async deleteKeys(
+    keys: string[],
+    operation: string,
+    concurrency: number = DEFAULT_REMOVE_CONCURRENCY,
+  ): Promise<BatchFailure[]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < keys.length; i += S3_DELETE_BATCH_SIZE) {
+      batches.push(keys.slice(i, i + S3_DELETE_BATCH_SIZE));
+    }
+
+    const failures: BatchFailure[] = [];
+
+    await forEachWithConcurrency(batches, concurrency, async batch => {
+      try {
+        const response = await this.s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.config.bucket,
+            Delete: { Objects: batch.map(Key => ({ Key })), Quiet: true },
+          }),
+        );
+
+        for (const error of response.Errors ?? []) {
+          failures.push({
+            path: error.Key ?? "unknown",
+            error: mapError(
+              { name: error.Code, message: error.Message ?? error.Code },
+              { backend: "s3", path: error.Key, operation },
+            ),
+          });
+        }
+      } catch (error) {
+        // The whole batch failed
+        const mapped = mapError(error, { backend: "s3", operation });
+        failures.push(...batch.map(key => ({ path: key, error: mapped })));
+      }
+    });
+
+    this.logger(failures.length > 0 ? "warn" : "debug", `${operation} batch delete completed`, {
+      keys: keys.length,
+      batches: batches.length,
+      failed: failures.length,
+    });
+
+    return failures;
+  }
+
   /**
    * Copy file from source to destination
+   *
+   * With `overwrite: false` the copy is conditional on the destination key not
+   * existing (`If-None-Match: *`).
    */
-  async copyFile(src: string, dest: string): Promise<void> {
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
     const srcKey = this.pathToKey(src);
     const destKey = this.pathToKey(dest);
+    const exclusive = isExclusive(options);
+    const metadata = resolveFileMetadata(options);
 
     try {
-      // S3 copy operation
+      // S3 copy operation; the metadata is copied unless replacement metadata is given
       const command = new CopyObjectCommand({
         Bucket: this.config.bucket,
         Key: destKey,
+        ...this.writeEncryptionParams(),
+        ...this.copySourceKeyParams(),
         CopySource: `${this.config.bucket}/${srcKey}`,
+        IfNoneMatch: exclusive ? "*" : undefined,
+        ...(metadata && {
+          MetadataDirective: "REPLACE",
+          ...this.toObjectHeaders(metadata, dest),
+        }),
       });
 
       await this.s3Client.send(command);
     } catch (error) {
-      throw this.mapS3Error(error, { path: src, operation: "copyFile" });
+      if (exclusive && this.isPreconditionFailure(error)) {
+        throw new AlreadyExistsError(dest, { operation: "copyFile", backend: "s3" });
+      }
+      throw mapError(error, { backend: "s3", path: src, operation: "copyFile" });
     }
   }
 
   /**
    * Rename or move a file
    */
-  async rename(oldPath: string, newPath: string): Promise<void> {
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
     // S3 doesn't support rename natively, so copy and delete
     try {
-      await this.copyFile(oldPath, newPath);
+      await this.copyFile(oldPath, newPath, options);
       await this.unlink(oldPath);
     } catch (error) {
       if (error instanceof FilesystemError) {
         throw error;
       }
-      throw this.mapS3Error(error, { path: oldPath, operation: "rename" });
+      throw mapError(error, { backend: "s3", path: oldPath, operation: "rename" });
+    }
+  }
+
+  /**
+   * Acquire an advisory lock on a path
+   *
+   * The lock is a hidden `.<name>.lock` lease object next to the path (not
+   * listed by readdir, walk, glob or watch), created with a conditional PUT
+   * (`If-None-Match: *`). An expired lease is taken over with a PUT that is
+   * conditional on its ETag, and a lease is released with a DELETE that is
+   * conditional on the holder's ETag, so two clients never hold it at once.
+   */
+  async lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    const lockOptions = resolveLockOptions(options);
+    const key = this.pathToKey(lockFilePath(filePath));
+
+    return acquireLock(filePath, lockOptions, "s3", async () => {
+      const record = createLockRecord(lockOptions.ttl);
+      let etag: string | undefined;
+
+      try {
+        etag = await this.putLease(key, record, { IfNoneMatch: "*" });
+      } catch (error) {
+        if (!this.isPreconditionFailure(error)) {
+          throw mapError(error, { backend: "s3", path: filePath, operation: "lock" });
+        }
+
+        const current = await this.headLease(key, filePath);
+        if (!current || !isLockExpired(current.record)) {
+          return undefined;
+        }
+        try {
+          etag = await this.putLease(key, record, { IfMatch: current.etag });
+        } catch (takeoverError) {
+          if (this.isConditionalMiss(takeoverError)) {
+            return undefined;
+          }
+          throw mapError(takeoverError, { backend: "s3", path: filePath, operation: "lock" });
+        }
+      }
+
+      return createLockHandle(filePath, record, () => this.releaseLease(key, etag, filePath));
+    });
+  }
+
+  /**
+   * Write a lease object, returning its ETag
+   *
+   * The record is stored in the body and, for HEAD requests, in user metadata.
+   */
+  private async putLease(
+    key: string,
+    record: LockRecord,
+    condition: { IfNoneMatch?: string; IfMatch?: string },
+  ): Promise<string | undefined> {
+    const response = await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        ...this.writeEncryptionParams(),
+        Body: JSON.stringify(record),
+        ContentType: "application/json",
+        Metadata: { "lock-owner": record.owner, "lock-expires-at": String(record.expiresAt) },
+        ...condition,
+      }),
+    );
+    return response.ETag;
+  }
+
+  /**
+   * Read the record and ETag of a lease object, or undefined if there is none
+   */
+  private async headLease(
+    key: string,
+    filePath: string,
+  ): Promise<{ record: LockRecord | undefined; etag: string | undefined } | undefined> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.config.bucket,
+          Key: key,
+          ...this.customerKeyParams(),
+        }),
+      );
+      const owner = response.Metadata?.["lock-owner"];
+      const expiresAt = Number(response.Metadata?.["lock-expires-at"]);
+      return {
+        record: owner && Number.isFinite(expiresAt) ? { owner, expiresAt } : undefined,
+        etag: response.ETag,
+      };
+    } catch (error) {
+      if (resolveErrorCode(error) === "ENOENT") {
+        return undefined;
+      }
+      throw mapError(error, { backend: "s3", path: filePath, operation: "lock" });
+    }
+  }
+
+  /**
+   * Delete a lease object unless it has been taken over since it was written
+   */
+  private async releaseLease(
+    key: string,
+    etag: string | undefined,
+    filePath: string,
+  ): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key, IfMatch: etag }),
+      );
+    } catch (error) {
+      if (!this.isConditionalMiss(error)) {
+        throw mapError(error, { backend: "s3", path: filePath, operation: "lock" });
+      }
     }
   }
 
   /**
    * Read directory contents
    */
-  async readdir(dirPath: string): Promise<string[]> {
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    const startTime = Date.now();
+    const entries: DirectoryEntry[] = [];
+    let continuationToken: string | undefined;
+
+    this.logger("debug", "readdir called", { dirPath });
+
+    // Follow continuation tokens so directories over 1000 entries are not truncated
+    do {
+      const page = await this.listDirectoryPage(dirPath, "readdir", {
+        continuationToken,
+      });
+      entries.push(...page.entries);
+      continuationToken = page.cursor;
+    } while (continuationToken);
+
+    this.logger("debug", "readdir completed", {
+      dirPath,
+      duration: Date.now() - startTime,
+      entryCount: entries.length,
+    });
+
+    // Types, sizes and modification times come from the listing itself, no HEAD requests
+    return options?.withFileTypes ? entries : entries.map(entry => entry.name);
+  }
+
+  /**
+   * Read one page of directory contents
+   *
+   * The cursor is the S3 continuation token of the next listing page.
+   */
+  async readdirPaged(dirPath: string, options?: ReaddirPageOptions): Promise<ReaddirPage> {
+    const page = await this.listDirectoryPage(dirPath, "readdirPaged", {
+      limit: resolvePageLimit(options?.limit),
+      continuationToken: options?.cursor,
+    });
+
+    return { entries: page.entries.map(entry => entry.name), cursor: page.cursor };
+  }
+
+  /**
+   * List one ListObjectsV2 page of a directory
+   */
+  private async listDirectoryPage(
+    dirPath: string,
+    operation: string,
+    page: { limit?: number; continuationToken?: string },
+  ): Promise<{ entries: DirectoryEntry[]; cursor?: string }> {
     const prefix = this.pathToKey(dirPath);
     // Ensure prefix ends with slash for directory listing
     // Special case: empty prefix (root directory) should remain empty, not '/'
     const directoryPrefix = prefix === "" ? "" : prefix.endsWith("/") ? prefix : `${prefix}/`;
 
-    this.logger("debug", "readdir called", { dirPath, prefix: directoryPrefix });
-
     try {
-      const startTime = Date.now();
       // Build command params - omit Prefix entirely when listing root directory
       const commandParams: any = {
         Bucket: this.config.bucket,
+        MaxKeys: page.limit,
+        ContinuationToken: page.continuationToken,
       };
       // Only add Delimiter if not listing root directory (avoid MinIO path-style issue)
       if (directoryPrefix !== "") {
@@ -388,10 +863,20 @@ export class S3Adapter implements BaseAdapter {
       const command = new ListObjectsV2Command(commandParams);
 
       const response = await this.s3Client.send(command);
-      const duration = Date.now() - startTime;
+
+      // Nothing below the prefix: a file object at the path means it is not a directory
+      if (
+        directoryPrefix !== "" &&
+        !page.continuationToken &&
+        !response.Contents?.length &&
+        !response.CommonPrefixes?.length &&
+        (await this.isFileObject(dirPath))
+      ) {
+        throw new NotDirectoryError(dirPath, { operation, backend: "s3" });
+      }
 
       // Combine objects and common prefixes (subdirectories)
-      const entries: string[] = [];
+      const entries: DirectoryEntry[] = [];
 
       // Add files (objects without trailing slash)
       if (response.Contents) {
@@ -399,12 +884,20 @@ export class S3Adapter implements BaseAdapter {
           if (object.Key && object.Key !== directoryPrefix) {
             // Remove the directory prefix and trailing slash if present
             let entryName = object.Key.substring(directoryPrefix.length);
-            if (entryName.endsWith("/")) {
+            const isDirectoryMarker = entryName.endsWith("/");
+            if (isDirectoryMarker) {
               entryName = entryName.slice(0, -1);
             }
-            // Only add if not empty (could be the directory marker itself)
-            if (entryName) {
-              entries.push(entryName);
+            // Only add if not empty (could be the directory marker itself) and not a lease
+            if (entryName && (isDirectoryMarker || !isLockFileName(entryName))) {
+              entries.push(
+                isDirectoryMarker
+                  ? createDirectoryEntry(entryName, "directory", { mtime: object.LastModified })
+                  : createDirectoryEntry(entryName, "file", {
+                      size: object.Size,
+                      mtime: object.LastModified,
+                    }),
+              );
             }
           }
         }
@@ -419,22 +912,19 @@ export class S3Adapter implements BaseAdapter {
               entryName = entryName.slice(0, -1);
             }
             if (entryName) {
-              entries.push(entryName);
+              entries.push(createDirectoryEntry(entryName, "directory"));
             }
           }
         }
       }
 
-      this.logger("debug", "readdir completed", {
-        dirPath,
-        duration,
-        entryCount: entries.length,
-      });
-
-      return entries;
+      return {
+        entries,
+        cursor: response.IsTruncated ? response.NextContinuationToken : undefined,
+      };
     } catch (error) {
-      this.logger("error", "readdir failed", { dirPath, error });
-      throw this.mapS3Error(error, { path: dirPath, operation: "readdir" });
+      this.logger("error", `${operation} failed`, { dirPath, error });
+      throw mapError(error, { backend: "s3", path: dirPath, operation });
     }
   }
 
@@ -475,6 +965,7 @@ export class S3Adapter implements BaseAdapter {
           const command = new PutObjectCommand({
             Bucket: this.config.bucket,
             Key: componentDirectoryKey,
+            ...this.writeEncryptionParams(),
             Body: Buffer.alloc(0),
             ContentLength: 0,
           });
@@ -500,23 +991,31 @@ export class S3Adapter implements BaseAdapter {
             const listResponse = await this.s3Client.send(listCommand);
             if (!listResponse.Contents || listResponse.Contents.length === 0) {
               // Parent doesn't exist (no marker object)
-              throw new StorageError(
-                `Parent directory ${parentPath} does not exist. Use recursive: true to create parent directories.`,
-                { cause: new Error("Parent directory not found") },
-              );
+              throw new FileNotFoundError(dirPath, {
+                operation: "mkdir",
+                backend: "s3",
+                cause: new Error(
+                  `Parent directory ${parentPath} does not exist. Use recursive: true to create parent directories.`,
+                ),
+              });
             }
           } catch (error) {
-            if (error instanceof StorageError) {
+            if (error instanceof FilesystemError) {
               throw error;
             }
             // If listing fails for other reasons, we'll still try to create the directory
           }
         }
 
+        if ((await this.isDirectoryPrefix(dirPath)) || (await this.isFileObject(dirPath))) {
+          throw new AlreadyExistsError(dirPath, { operation: "mkdir", backend: "s3" });
+        }
+
         // Create directory marker object
         const command = new PutObjectCommand({
           Bucket: this.config.bucket,
           Key: directoryKey,
+          ...this.writeEncryptionParams(),
           Body: Buffer.alloc(0),
           ContentLength: 0,
         });
@@ -535,7 +1034,7 @@ export class S3Adapter implements BaseAdapter {
       if (error instanceof FilesystemError) {
         throw error;
       }
-      throw this.mapS3Error(error, { path: dirPath, operation: "mkdir" });
+      throw mapError(error, { backend: "s3", path: dirPath, operation: "mkdir" });
     }
   }
 
@@ -557,8 +1056,8 @@ export class S3Adapter implements BaseAdapter {
       const startTime = Date.now();
 
       if (options?.recursive) {
-        // Recursive delete: list and delete all objects with this prefix
-        let deleteCount = 0;
+        // Recursive delete: list all objects with this prefix, then delete them in batches
+        const keys: string[] = [];
         let continuationToken: string | undefined;
 
         do {
@@ -571,33 +1070,25 @@ export class S3Adapter implements BaseAdapter {
 
           const listResponse = await this.s3Client.send(listCommand);
 
-          if (listResponse.Contents && listResponse.Contents.length > 0) {
-            // Delete objects in batches (S3 supports up to 1000 objects per DeleteObjects)
-            const deletePromises: Promise<DeleteObjectCommandOutput>[] = [];
-
-            for (const object of listResponse.Contents) {
-              if (object.Key) {
-                const deleteCommand = new DeleteObjectCommand({
-                  Bucket: this.config.bucket,
-                  Key: object.Key,
-                });
-                deletePromises.push(this.s3Client.send(deleteCommand));
-                deleteCount++;
-              }
+          for (const object of listResponse.Contents ?? []) {
+            if (object.Key) {
+              keys.push(object.Key);
             }
-
-            // Wait for all deletions to complete
-            await Promise.all(deletePromises);
           }
 
           continuationToken = listResponse.NextContinuationToken;
         } while (continuationToken);
 
+        const failures = await this.deleteKeys(keys, "rmdir");
+        if (failures.length > 0) {
+          throw new BatchOperationError("rmdir", failures, keys.length);
+        }
+
         const duration = Date.now() - startTime;
         this.logger("debug", "rmdir recursive completed", {
           dirPath,
           duration,
-          objectsDeleted: deleteCount,
+          objectsDeleted: keys.length,
         });
       } else {
         // Non-recursive delete: only delete if directory is empty
@@ -616,10 +1107,14 @@ export class S3Adapter implements BaseAdapter {
           [];
 
         if (nonMarkerObjects.length > 0) {
-          throw new StorageError(
-            `Directory ${dirPath} is not empty. Use recursive: true to delete non-empty directories.`,
-            { cause: new Error(`Directory contains ${nonMarkerObjects.length} objects`) },
-          );
+          throw new DirectoryNotEmptyError(dirPath, {
+            operation: "rmdir",
+            backend: "s3",
+            cause: new Error(`Directory contains ${nonMarkerObjects.length} objects`),
+          });
+        }
+        if (!listResponse.Contents?.length && (await this.isFileObject(dirPath))) {
+          throw new NotDirectoryError(dirPath, { operation: "rmdir", backend: "s3" });
         }
 
         // Delete the directory marker
@@ -642,7 +1137,52 @@ export class S3Adapter implements BaseAdapter {
       if (error instanceof FilesystemError) {
         throw error;
       }
-      throw this.mapS3Error(error, { path: dirPath, operation: "rmdir" });
+      throw mapError(error, { backend: "s3", path: dirPath, operation: "rmdir" });
+    }
+  }
+
+  /**
+   * Check whether any object (including a directory marker) exists below a path
+   */
+  private async isDirectoryPrefix(dirPath: string): Promise<boolean> {
+    const key = this.pathToKey(dirPath);
+    if (key === "") {
+      return true;
+    }
+
+    try {
+      const response = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.config.bucket,
+          Prefix: key.endsWith("/") ? key : `${key}/`,
+          MaxKeys: 1,
+        }),
+      );
+      return (response.Contents?.length ?? 0) > 0;
+    } catch {
+      // The check only refines an error that is reported anyway
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a file object exists at a path
+   */
+  private async isFileObject(filePath: string): Promise<boolean> {
+    try {
+      await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.config.bucket,
+          Key: this.pathToKey(filePath),
+          ...this.customerKeyParams(),
+        }),
+      );
+      return true;
+    } catch (error) {
+      if (resolveErrorCode(error) === "ENOENT") {
+        return false;
+      }
+      throw error;
     }
   }
 
@@ -658,6 +1198,7 @@ export class S3Adapter implements BaseAdapter {
         const command = new HeadObjectCommand({
           Bucket: this.config.bucket,
           Key: key,
+          ...this.customerKeyParams(),
         });
 
         const response = await this.s3Client.send(command);
@@ -675,6 +1216,7 @@ export class S3Adapter implements BaseAdapter {
             const dirCommand = new HeadObjectCommand({
               Bucket: this.config.bucket,
               Key: directoryKey,
+              ...this.customerKeyParams(),
             });
 
             const dirResponse = await this.s3Client.send(dirCommand);
@@ -693,7 +1235,7 @@ export class S3Adapter implements BaseAdapter {
       if (error instanceof FilesystemError) {
         throw error;
       }
-      throw this.mapS3Error(error, { path: filePath, operation: "stat" });
+      throw mapError(error, { backend: "s3", path: filePath, operation: "stat" });
     }
   }
 
@@ -733,17 +1275,10 @@ export class S3Adapter implements BaseAdapter {
       mtime: lastModified,
       ctime: lastModified,
       birthtime: new Date(0),
+      ...(!isDirectory && s3Response.ETag && { etag: s3Response.ETag }),
     };
   }
 
-  /**
-   * Get symbolic link statistics
-   */
-  async lstat(filePath: string): Promise<FileStats> {
-    // S3 doesn't support symbolic links, so same as stat
-    return this.stat(filePath);
-  }
-
   /**
    * Check file accessibility
    */
@@ -755,107 +1290,602 @@ export class S3Adapter implements BaseAdapter {
       if (error instanceof FileNotFoundError) {
         throw error;
       }
-      throw this.mapS3Error(error, { path: filePath, operation: "access" });
+      throw mapError(error, { backend: "s3", path: filePath, operation: "access" });
+    }
+  }
+  /**
+   * Get the content headers and user metadata of an object
+   *
+   * S3 returns user metadata keys in lower case.
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    const key = this.pathToKey(filePath);
+
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({
+          Bucket: this.config.bucket,
+          Key: key,
+          ...this.customerKeyParams(),
+        }),
+      );
+
+      return this.toFileMetadata(response);
+    } catch (error) {
+      throw mapError(error, { backend: "s3", path: filePath, operation: "getFileMetadata" });
+    }
+  }
+
+  /**
+   * File metadata of the headers of a HEAD or GET response
+   */
+  private toFileMetadata(response: {
+    ContentType?: string;
+    CacheControl?: string;
+    ContentDisposition?: string;
+    Metadata?: Record<string, string>;
+  }): FileMetadata {
+    return {
+      ...(response.ContentType !== undefined && { contentType: response.ContentType }),
+      ...(response.CacheControl !== undefined && { cacheControl: response.CacheControl }),
+      ...(response.ContentDisposition !== undefined && {
+        contentDisposition: response.ContentDisposition,
+      }),
+      ...(response.Metadata &&
+        Object.keys(response.Metadata).length > 0 && { metadata: response.Metadata }),
+    };
+  }
+
+  /**
+   * Replace the content headers and user metadata of an object
+   *
+   * S3 objects are immutable, so the object is copied onto itself with the
+   * new metadata (`MetadataDirective: REPLACE`).
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    const key = this.pathToKey(filePath);
+    const resolved = resolveFileMetadata(metadata);
+
+    try {
+      await this.s3Client.send(
+        new CopyObjectCommand({
+          Bucket: this.config.bucket,
+          Key: key,
+          ...this.writeEncryptionParams(),
+          ...this.copySourceKeyParams(),
+          CopySource: `${this.config.bucket}/${key}`,
+          MetadataDirective: "REPLACE",
+          ...this.toObjectHeaders(resolved, filePath),
+        }),
+      );
+    } catch (error) {
+      throw mapError(error, { backend: "s3", path: filePath, operation: "setFileMetadata" });
     }
   }
 
   /**
    * Create readable stream for file
+   *
+   * The object body is piped straight from GetObject, so memory usage stays bounded
+   * by the stream's highWaterMark. `start`/`end` are inclusive byte offsets (like
+   * fs.createReadStream) and are translated into an HTTP Range request.
    */
   createReadStream(filePath: string, options?: ReadStreamOptions): Readable {
     const key = this.pathToKey(filePath);
 
     this.logger("debug", "createReadStream called", { filePath, key, options });
 
-    try {
-      // Create a custom readable stream that fetches from S3
-      const readable = new Readable({
-        read() {
-          // This will be called when the stream wants data
-          // We'll handle the actual S3 fetching in the implementation
-        },
-      });
+    const range = this.buildRange(filePath, options);
+    const abortController = new AbortController();
+    const readable = new PassThrough({ highWaterMark: options?.highWaterMark });
 
-      // We need to fetch the S3 object asynchronously
-      // For simplicity, we'll use the existing readFile method and pipe it
-      // In a production implementation, we would use GetObjectCommand with streaming
-      this.readFile(filePath)
-        .then(data => {
-          if (Buffer.isBuffer(data)) {
-            readable.push(data);
-          } else {
-            readable.push(Buffer.from(data, options?.encoding || "utf8"));
-          }
-          readable.push(null); // End of stream
-        })
-        .catch(error => {
-          readable.destroy(error);
+    if (options?.encoding) {
+      readable.setEncoding(options.encoding);
+    }
+
+    // Abort the in-flight request if the consumer destroys the stream early
+    readable.once("close", () => abortController.abort());
+
+    const command = new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      ...this.customerKeyParams(),
+      Range: range,
+    });
+
+    this.s3Client
+      .send(command, { abortSignal: abortController.signal })
+      .then(response => {
+        if (!response.Body) {
+          throw new FileNotFoundError(filePath, { cause: new Error("Empty response body") });
+        }
+
+        const body = response.Body as NodeReadable;
+
+        if (readable.destroyed) {
+          body.destroy();
+          return;
+        }
+
+        body.once("error", error => {
+          this.logger("error", "createReadStream body failed", { filePath, key, error });
+          readable.destroy(
+            mapError(error, { backend: "s3", path: filePath, operation: "createReadStream" }),
+          );
         });
+        readable.once("close", () => body.destroy());
 
-      return readable;
-    } catch (error) {
-      this.logger("error", "createReadStream failed", { filePath, key, error });
-      throw this.mapS3Error(error, { path: filePath, operation: "createReadStream" });
+        body.pipe(readable);
+      })
+      .catch(async (error: unknown) => {
+        if (readable.destroyed) {
+          return;
+        }
+
+        // A start offset past the end of the object yields an empty stream, like fs does
+        if (range !== undefined && resolveErrorCode(error) === "EINVAL") {
+          readable.end();
+          return;
+        }
+
+        this.logger("error", "createReadStream failed", { filePath, key, error });
+        const mapped = await this.mapReadError(error, filePath, "createReadStream");
+        readable.destroy(mapped);
+      });
+
+    return readable;
+  }
+
+  /**
+   * Build an HTTP Range header from inclusive start/end read stream options
+   */
+  private buildRange(filePath: string, options?: ReadStreamOptions): string | undefined {
+    const start = options?.start;
+    const end = options?.end;
+
+    if (start === undefined && end === undefined) {
+      return undefined;
+    }
+
+    if ((start !== undefined && start < 0) || (end !== undefined && end < 0)) {
+      throw new ValidationError(`Invalid range for ${filePath}: offsets must be non-negative`);
     }
+
+    if (start !== undefined && end !== undefined && start > end) {
+      throw new ValidationError(
+        `Invalid range for ${filePath}: start (${start}) must be <= end (${end})`,
+      );
+    }
+
+    return `bytes=${start ?? 0}-${end ?? ""}`;
   }
 
   /**
    * Create writable stream for file
+   *
+   * Data is uploaded with S3 multipart upload: every `multipartPartSize` bytes are sent
+   * as one part, with at most `multipartConcurrency` parts in flight. Writes wait for a
+   * free upload slot, so backpressure propagates to the producer. Streams that never
+   * fill a single part fall back to one PutObject. Destroying the stream before it
+   * finishes aborts the multipart upload.
+   *
+   * With `flags: "wx"` the PutObject or CompleteMultipartUpload is conditional on
+   * the key not existing (`If-None-Match: *`), so the stream fails with
+   * AlreadyExistsError instead of replacing an existing object.
    */
   createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
     const key = this.pathToKey(filePath);
+    const partSize = this.config.multipartPartSize ?? DEFAULT_S3_CONFIG.multipartPartSize;
+    const concurrency = this.config.multipartConcurrency ?? DEFAULT_S3_CONFIG.multipartConcurrency;
+    const metadata = resolveFileMetadata(options);
+    const exclusive = options?.flags === "wx";
+
+    this.logger("debug", "createWriteStream called", {
+      filePath,
+      key,
+      options,
+      partSize,
+      concurrency,
+    });
+
+    // Chunks not yet sent; the first `bufferedOffset` bytes of the first chunk were sent already
+    const buffered: Buffer[] = [];
+    let bufferedOffset = 0;
+    let bufferedSize = 0;
+    let uploadIdPromise: Promise<string> | undefined;
+    let partNumber = 0;
+    let completed = false;
+    let failure: unknown;
+    const parts: CompletedPart[] = [];
+    const inFlight = new Set<Promise<void>>();
+
+    const toFilesystemError = (error: unknown): FilesystemError =>
+      error instanceof FilesystemError
+        ? error
+        : mapError(error, { backend: "s3", path: filePath, operation: "createWriteStream" });
+
+    // Copies only the bytes of the part, so cutting many parts stays linear in the data size
+    const takeBuffered = (size: number): Buffer => {
+      const pieces: Buffer[] = [];
+      let taken = 0;
+      let consumed = 0;
+
+      while (taken < size) {
+        const chunk = buffered[consumed];
+        const piece = chunk.subarray(bufferedOffset, bufferedOffset + size - taken);
+        pieces.push(piece);
+        taken += piece.length;
+        if (bufferedOffset + piece.length === chunk.length) {
+          consumed++;
+          bufferedOffset = 0;
+        } else {
+          bufferedOffset += piece.length;
+        }
+      }
+
+      buffered.splice(0, consumed);
+      bufferedSize -= size;
+      return pieces.length === 1 ? pieces[0] : Buffer.concat(pieces, size);
+    };
+
+    const getUploadId = (firstPart: Buffer): Promise<string> => {
+      if (!uploadIdPromise) {
+        uploadIdPromise = this.s3Client
+          .send(
+            new CreateMultipartUploadCommand({
+              Bucket: this.config.bucket,
+              Key: key,
+              ...this.writeEncryptionParams(),
+              ...this.toObjectHeaders(metadata, filePath, firstPart),
+            }),
+          )
+          .then(response => {
+            if (!response.UploadId) {
+              throw new StorageError(`Failed to start multipart upload for ${filePath}`);
+            }
+            this.logger("debug", "multipart upload started", {
+              filePath,
+              key,
+              uploadId: response.UploadId,
+            });
+            return response.UploadId;
+          });
+      }
+      return uploadIdPromise;
+    };
+
+    const throwIfFailed = () => {
+      if (failure !== undefined) {
+        throw failure;
+      }
+    };
+
+    const enqueuePart = async (body: Buffer): Promise<void> => {
+      // Wait for a free slot so at most `concurrency` parts are buffered in memory
+      while (inFlight.size >= concurrency) {
+        await Promise.race(inFlight);
+      }
+      throwIfFailed();
+
+      const currentPartNumber = ++partNumber;
+      const task = getUploadId(body)
+        .then(uploadId =>
+          this.s3Client.send(
+            new UploadPartCommand({
+              Bucket: this.config.bucket,
+              Key: key,
+              ...this.customerKeyParams(),
+              UploadId: uploadId,
+              PartNumber: currentPartNumber,
+              Body: body,
+              ContentLength: body.length,
+            }),
+          ),
+        )
+        .then(response => {
+          parts.push({ ETag: response.ETag, PartNumber: currentPartNumber });
+        })
+        .catch(error => {
+          failure = failure ?? error;
+        })
+        .finally(() => {
+          inFlight.delete(task);
+        });
+
+      inFlight.add(task);
+    };
+
+    const abortUpload = async (): Promise<void> => {
+      if (!uploadIdPromise || completed) {
+        return;
+      }
+
+      try {
+        const uploadId = await uploadIdPromise;
+        await this.s3Client.send(
+          new AbortMultipartUploadCommand({
+            Bucket: this.config.bucket,
+            Key: key,
+            UploadId: uploadId,
+          }),
+        );
+        this.logger("debug", "multipart upload aborted", { filePath, key, uploadId });
+      } catch (error) {
+        this.logger("warn", "Failed to abort multipart upload", { filePath, key, error });
+      }
+    };
 
-    this.logger("debug", "createWriteStream called", { filePath, key, options });
+    return new Writable({
+      defaultEncoding: options?.encoding,
 
-    // For S3, we need to collect all chunks and upload at once
-    // In a production implementation, we would use multipart upload for large files
-    const chunks: Buffer[] = [];
+      write: (chunk: Buffer, encoding: BufferEncoding, callback) => {
+        const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding);
+        buffered.push(data);
+        bufferedSize += data.length;
 
-    const writable = new Writable({
-      write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
-        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding));
-        callback();
+        (async () => {
+          throwIfFailed();
+          while (bufferedSize >= partSize) {
+            await enqueuePart(takeBuffered(partSize));
+          }
+        })().then(
+          () => callback(),
+          error => callback(toFilesystemError(error)),
+        );
       },
 
-      final(callback: (error?: Error | null) => void) {
-        // When stream ends, upload all collected data to S3
-        const combined = Buffer.concat(chunks);
-        const adapter = (this as { _adapter?: S3Adapter })._adapter as S3Adapter;
+      final: callback => {
+        (async () => {
+          // Small payloads never started a multipart upload: send them in one request
+          if (!uploadIdPromise) {
+            await this.writeFile(filePath, takeBuffered(bufferedSize), {
+              ...metadata,
+              flag: exclusive ? "wx" : "w",
+            });
+            completed = true;
+            return;
+          }
 
-        adapter
-          .writeFile(filePath, combined, options?.encoding)
-          .then(() => callback())
-          .catch(callback);
+          if (bufferedSize > 0) {
+            await enqueuePart(takeBuffered(bufferedSize));
+          }
+          await Promise.all(inFlight);
+          throwIfFailed();
+
+          const uploadId = await uploadIdPromise;
+          try {
+            await this.s3Client.send(
+              new CompleteMultipartUploadCommand({
+                Bucket: this.config.bucket,
+                Key: key,
+                ...this.customerKeyParams(),
+                UploadId: uploadId,
+                IfNoneMatch: exclusive ? "*" : undefined,
+                MultipartUpload: {
+                  Parts: [...parts].sort((a, b) => (a.PartNumber ?? 0) - (b.PartNumber ?? 0)),
+                },
+              }),
+            );
+          } catch (error) {
+            // The stream is destroyed with this error, which aborts the upload
+            if (exclusive && this.isPreconditionFailure(error)) {
+              throw new AlreadyExistsError(filePath, {
+                operation: "createWriteStream",
+                backend: "s3",
+              });
+            }
+            throw error;
+          }
+          completed = true;
+
+          this.logger("debug", "multipart upload completed", {
+            filePath,
+            key,
+            uploadId,
+            partCount: parts.length,
+          });
+        })().then(
+          () => callback(),
+          error => {
+            this.logger("error", "createWriteStream failed", { filePath, key, error });
+            callback(toFilesystemError(error));
+          },
+        );
       },
-    });
 
-    // Store adapter reference for use in final()
-    (writable as { _adapter?: S3Adapter })._adapter = this;
+      destroy: (error, callback) => {
+        abortUpload().then(() => callback(error));
+      },
+    });
+  }
 
-    return writable;
+  /**
+   * Resolve symbolic links and relative paths
+   */
+  async realpath(filePath: string): Promise<string> {
+    // S3 doesn't support symbolic links, so just normalize the path
+    return normalizePath(filePath);
   }
 
   /**
-   * Check if file/directory exists
+   * Create a presigned URL for a GET (read) or PUT (write) of the object
+   *
+   * A write URL signs the content type if one is given, so the upload must
+   * send the same `Content-Type` header; a read URL overrides the content
+   * type of the response instead. Write URLs carry the configured server-side
+   * encryption. Objects encrypted with a customer key (SSE-C) cannot be
+   * accessed through signed URLs, as the key would have to be handed out.
+   *
+   * @throws {ValidationError} if an SSE-C customer key is configured
    */
-  async exists(filePath: string): Promise<boolean> {
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    const { operation, expiresIn, contentType } = resolveSignedUrlOptions(options);
+    const key = this.pathToKey(filePath);
+
+    if (this.config.sseCustomerKey) {
+      throw new ValidationError("Signed URLs are not supported with an SSE-C customer key", {
+        backend: "s3",
+        path: filePath,
+        operation: "getSignedUrl",
+      });
+    }
+
+    const command =
+      operation === "read"
+        ? new GetObjectCommand({
+            Bucket: this.config.bucket,
+            Key: key,
+            ResponseContentType: contentType,
+          })
+        : new PutObjectCommand({
+            Bucket: this.config.bucket,
+            Key: key,
+            ContentType: contentType,
+            ...this.writeEncryptionParams(),
+          });
+
+    // Presigning with default checksums would sign the CRC32 of an empty body
+    // into upload URLs, so a separate client only computes required checksums
+    this.presignClient ??= new S3Client({
+      ...this.clientConfig,
+      requestChecksumCalculation: "WHEN_REQUIRED",
+    });
+
     try {
-      await this.stat(filePath);
-      return true;
+      return await presignUrl(this.presignClient, command, {
+        expiresIn,
+        signableHeaders:
+          operation === "write" && contentType !== undefined
+            ? new Set(["content-type"])
+            : undefined,
+      });
     } catch (error) {
-      if (error instanceof FileNotFoundError) {
-        return false;
-      }
-      // Re-throw other errors
-      throw error;
+      throw mapError(error, { backend: "s3", path: filePath, operation: "getSignedUrl" });
     }
   }
 
   /**
-   * Resolve symbolic links and relative paths
+   * Recursively walk a directory tree
+   *
+   * Lists every key below the directory with flat (delimiter-less) ListObjectsV2
+   * pages instead of one request per directory. Directories are derived from the
+   * keys, so prefixes without a directory marker object are reported as well.
+   * A missing directory yields no entries.
    */
-  async realpath(filePath: string): Promise<string> {
-    // S3 doesn't support symbolic links, so just normalize the path
-    return normalizePath(filePath);
+  async *walk(dirPath: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+    const maxDepth = options?.maxDepth ?? Infinity;
+    const includeDirectories = options?.includeDirectories ?? true;
+    const prefix = this.pathToKey(dirPath);
+    const directoryPrefix = prefix === "" || prefix.endsWith("/") ? prefix : `${prefix}/`;
+    const base = normalizePath(dirPath);
+    const toPath = (relative: string) => (base === "." ? `/${relative}` : `/${base}/${relative}`);
+    const seenDirectories = new Set<string>();
+    const skippedDirectories = new Set<string>();
+    let continuationToken: string | undefined;
+
+    this.logger("debug", "walk called", { dirPath, prefix: directoryPrefix });
+
+    do {
+      let response: ListObjectsV2CommandOutput;
+      try {
+        response = await this.s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: this.config.bucket,
+            Prefix: directoryPrefix || undefined,
+            ContinuationToken: continuationToken,
+          }),
+        );
+      } catch (error) {
+        this.logger("error", "walk failed", { dirPath, error });
+        throw mapError(error, { backend: "s3", path: dirPath, operation: "walk" });
+      }
+
+      for (const object of response.Contents ?? []) {
+        if (!object.Key || object.Key === directoryPrefix) {
+          continue;
+        }
+
+        const relative = object.Key.substring(directoryPrefix.length);
+        const isDirectoryMarker = relative.endsWith("/");
+        const segments = relative.split("/").filter(segment => segment !== "");
+        const directoryCount = isDirectoryMarker ? segments.length : segments.length - 1;
+
+        // Directories implied by the key, each reported once before its contents
+        let skipped = false;
+        for (let depth = 1; depth <= Math.min(directoryCount, maxDepth); depth++) {
+          const directory = segments.slice(0, depth).join("/");
+          if (skippedDirectories.has(directory)) {
+            skipped = true;
+            break;
+          }
+          if (seenDirectories.has(directory)) {
+            continue;
+          }
+          seenDirectories.add(directory);
+
+          const marker = isDirectoryMarker && depth === directoryCount ? object : {};
+          const entry: WalkEntry = {
+            path: toPath(directory),
+            name: segments[depth - 1],
+            depth,
+            stats: this.convertS3MetadataToFileStats(marker, true),
+          };
+          if (includeDirectories) {
+            yield entry;
+          }
+          if (depth < maxDepth && options?.skipDirectory?.(entry)) {
+            skippedDirectories.add(directory);
+            skipped = true;
+            break;
+          }
+        }
+
+        // Objects below a skipped directory and lease objects are listed but not yielded
+        if (
+          !skipped &&
+          !isDirectoryMarker &&
+          segments.length <= maxDepth &&
+          !isLockFileName(segments[segments.length - 1])
+        ) {
+          yield {
+            path: toPath(segments.join("/")),
+            name: segments[segments.length - 1],
+            depth: segments.length,
+            stats: this.convertS3MetadataToFileStats(
+              { LastModified: object.LastModified, ContentLength: object.Size, ETag: object.ETag },
+              false,
+            ),
+          };
+        }
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  /**
+   * Watch a prefix for changes by polling
+   *
+   * Every `interval` milliseconds the prefix is listed again (ListObjectsV2)
+   * and the object ETags are compared with the previous listing. Watching a
+   * prefix without objects reports the objects added to it later.
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    return watchByPolling(this, dirPath, options);
+  }
+
+  /**
+   * Get adapter name, version and capabilities
+   *
+   * The bucket is only contacted on the first operation, so availability is
+   * reported optimistically.
+   */
+  getMetadata(): AdapterMetadata {
+    return {
+      name: "s3",
+      version: "1.0.0",
+      capabilities: { ...S3Adapter.capabilities },
+      isAvailable: true,
+    };
   }
 }
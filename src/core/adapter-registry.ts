@@ -0,0 +1,119 @@
+/**
+ * Adapter Registry
+ *
+ * Maps `FilesystemConfig.type` values to the factory that creates the adapter and
+ * the validator that checks its configuration section. The built-in "local",
+ * "s3", "memory" and "mount" adapters are registered on first use of the
+ * registry; other packages can register their own backends with
+ * `registerAdapter`.
+ */
+
+import { AdapterConfig, AdapterFactory } from "../interfaces/adapter.interface";
+import type { CommonConfig } from "../types/config";
+import { ValidationError } from "../errors/filesystem-errors";
+import { registerBuiltInAdapters } from "./built-in-adapters";
+
+/**
+ * Result of validating an adapter configuration section
+ */
+export interface AdapterConfigValidationResult<T extends AdapterConfig = AdapterConfig> {
+  /** Validation error messages (empty when valid) */
+  errors: string[];
+  /** Adapter configuration with defaults applied (present when valid) */
+  config?: T;
+}
+
+/**
+ * Validates the configuration section of an adapter
+ *
+ * Receives the section named after the adapter type (e.g. `config.local` for
+ * type "local", which may be undefined) and the resolved common configuration,
+ * and returns the configuration passed to the adapter factory.
+ */
+export type AdapterConfigValidator<T extends AdapterConfig = AdapterConfig> = (
+  section: unknown,
+  common: Required<CommonConfig>,
+) => AdapterConfigValidationResult<T>;
+
+/**
+ * A registered adapter type
+ */
+export interface AdapterRegistration<T extends AdapterConfig = AdapterConfig> {
+  /** Value of `FilesystemConfig.type` that selects this adapter */
+  type: string;
+  /** Creates the adapter from its validated configuration */
+  factory: AdapterFactory<T>;
+  /** Validates the adapter configuration section */
+  validateConfig: AdapterConfigValidator<T>;
+}
+
+const registry = new Map<string, AdapterRegistration>();
+let builtInsRegistered = false;
+
+/**
+ * Register the built-in adapter types the first time the registry is used
+ *
+ * Deferred rather than done at import time because the built-in adapters
+ * import modules that in turn import this one.
+ */
+function ensureBuiltInAdapters(): void {
+  if (!builtInsRegistered) {
+    builtInsRegistered = true;
+    registerBuiltInAdapters();
+  }
+}
+
+/**
+ * Register an adapter type
+ *
+ * @throws {ValidationError} if the type is empty or already registered and `override` is not set
+ */
+export function registerAdapter<T extends AdapterConfig>(
+  type: string,
+  factory: AdapterFactory<T>,
+  configValidator: AdapterConfigValidator<T>,
+  options?: { override?: boolean },
+): void {
+  ensureBuiltInAdapters();
+  if (!type || typeof type !== "string") {
+    throw new ValidationError("Adapter type must be a non-empty string");
+  }
+  if (typeof factory !== "function" || typeof configValidator !== "function") {
+    throw new ValidationError(`Adapter "${type}" requires a factory and a config validator`);
+  }
+  if (registry.has(type) && !options?.override) {
+    throw new ValidationError(`Adapter type "${type}" is already registered`);
+  }
+
+  registry.set(type, {
+    type,
+    factory: factory as AdapterFactory,
+    validateConfig: configValidator as AdapterConfigValidator,
+  });
+}
+
+/**
+ * Remove a registered adapter type
+ *
+ * @returns true if the type was registered
+ */
+export function unregisterAdapter(type: string): boolean {
+  ensureBuiltInAdapters();
+  return registry.delete(type);
+}
+
+/**
+ * Get the registration for an adapter type
+ */
+export function getAdapterRegistration(type: string): AdapterRegistration | undefined {
+  ensureBuiltInAdapters();
+  return registry.get(type);
+}
+
+/**
+ * List all registered adapter types
+ */
+export function getRegisteredAdapterTypes(): string[] {
+  ensureBuiltInAdapters();
+  return [...registry.keys()];
+}
@@ -0,0 +1,51 @@
+/**
+ * Built-in Adapters
+ *
+ * Registrations of the adapter types that ship with the library. The adapter
+ * registry applies them on first use, so validating or creating a
+ * configuration works whichever module is imported first.
+ */
+
+import {
+  MountAdapterConfig,
+  validateLocalConfig,
+  validateMemoryConfig,
+  validateMountConfig,
+  validateS3Config,
+} from "../types/config";
+import { LocalAdapter, LocalAdapterConfig } from "../adapters/local-adapter";
+import { S3Adapter, S3AdapterConfig } from "../adapters/s3-adapter";
+import { MemoryAdapter, MemoryAdapterConfig } from "../adapters/memory-adapter";
+import { registerAdapter } from "./adapter-registry";
+import { FilesystemFactory } from "./filesystem-factory";
+import { MountFilesystem } from "./mount-filesystem";
+
+/**
+ * Register the "local", "s3", "memory" and "mount" adapter types
+ */
+export function registerBuiltInAdapters(): void {
+  registerAdapter<LocalAdapterConfig>(
+    "local",
+    config => new LocalAdapter(config),
+    validateLocalConfig,
+  );
+  registerAdapter<S3AdapterConfig>("s3", config => new S3Adapter(config), validateS3Config);
+  registerAdapter<MemoryAdapterConfig>(
+    "memory",
+    config => new MemoryAdapter(config),
+    validateMemoryConfig,
+  );
+  registerAdapter<MountAdapterConfig>(
+    "mount",
+    config =>
+      new MountFilesystem(
+        Object.fromEntries(
+          Object.entries(config.mounts).map(([mountPoint, mountConfig]) => [
+            mountPoint,
+            FilesystemFactory.createAdapter(mountConfig),
+          ]),
+        ),
+      ),
+    validateMountConfig,
+  );
+}
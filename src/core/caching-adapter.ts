@@ -0,0 +1,548 @@
+/**
+ * Caching Adapter
+ *
+ * Read-through cache wrapped around an adapter when the filesystem
+ * configuration has a `cache` section. `stat()` and `exists()` results are
+ * kept in an LRU cache for a time to live; file contents read with
+ * `readFile()` are optionally kept in a second adapter (local or memory) and
+ * served from it for as long as the file's ETag is unchanged.
+ */
+
+import { randomUUID } from "crypto";
+import { Readable, Writable, finished } from "stream";
+
+import {
+  AdapterMetadata,
+  BaseAdapter,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../interfaces/adapter.interface";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  GlobOptions,
+  LockHandle,
+  LockOptions,
+  ReaddirIteratorOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchEvent,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import { CacheMetadataConfig, CommonConfig, DEFAULT_CACHE_CONFIG } from "../types/config";
+import { FileNotFoundError, NotDirectoryError } from "../errors/filesystem-errors";
+import { LruCache } from "../utils/cache-utils";
+import { normalizePath } from "../utils/path-utils";
+
+/**
+ * Settings of a caching adapter
+ */
+export interface CachingAdapterOptions {
+  /** Metadata cache limits (default: `DEFAULT_CACHE_CONFIG.metadata`) */
+  metadata?: CacheMetadataConfig;
+  /** Content cache; contents are not cached without it */
+  content?: {
+    /** Adapter holding the cached contents, one file per cached path */
+    store: BaseAdapter;
+    /** Maximum total size of the cached contents in bytes (default: 64 MiB) */
+    maxSize?: number;
+    /** Size in bytes of the largest file cached (default: 1 MiB) */
+    maxFileSize?: number;
+  };
+  /** Receives content store failures, which fall back to the wrapped adapter */
+  logger?: CommonConfig["logger"];
+}
+
+/**
+ * Cached result of a stat: the stats, or the error of a missing path
+ */
+interface CachedStat {
+  stats?: FileStats;
+  error?: FileNotFoundError;
+}
+
+/**
+ * Cached content of a file
+ */
+interface CachedContent {
+  /** ETag (or size and mtime) of the file the content was read from */
+  version: string;
+  /** Path of the content in the store */
+  storePath: string;
+}
+
+/**
+ * Content cache: the LRU index of the contents and the adapter storing them
+ */
+interface ContentCache {
+  entries: LruCache<CachedContent>;
+  store: BaseAdapter;
+}
+
+/**
+ * Cache key of a path
+ */
+function cacheKey(filePath: string): string {
+  return normalizePath(filePath);
+}
+
+/**
+ * Cache keys of the directories containing a key, up to the root
+ */
+function ancestorKeys(key: string): string[] {
+  const ancestors: string[] = [];
+  for (let index = key.lastIndexOf("/"); index > 0; index = key.lastIndexOf("/", index - 1)) {
+    ancestors.push(key.slice(0, index));
+  }
+  return key === "." ? ancestors : [...ancestors, "."];
+}
+
+/**
+ * Version of a file whose content is cached, changing whenever the file is modified
+ */
+function versionOf(stats: FileStats): string {
+  return stats.etag ?? `${stats.size}-${stats.mtimeMs}`;
+}
+
+/**
+ * Adapter wrapper caching metadata and file contents of a remote adapter
+ *
+ * Writes through this instance invalidate the cached entries of the paths
+ * they touch (and the directories containing them). Changes made by other
+ * writers become visible once the cached metadata expires: content is then
+ * revalidated by comparing the file's ETag with the ETag it was cached under,
+ * so unchanged files are not downloaded again.
+ */
+export class CachingAdapter implements BaseAdapter {
+  private readonly metadataOptions: Required<CacheMetadataConfig>;
+  private readonly stats: LruCache<CachedStat>;
+  private readonly contents?: ContentCache;
+  private readonly maxFileSize: number;
+  private readonly logger: NonNullable<CommonConfig["logger"]>;
+  /** Stats being fetched, shared by concurrent callers */
+  private readonly pending = new Map<string, Promise<FileStats>>();
+  /** Incremented by every invalidation, so results fetched across one are not cached */
+  private generation = 0;
+
+  constructor(
+    private readonly adapter: BaseAdapter,
+    options: CachingAdapterOptions = {},
+  ) {
+    this.metadataOptions = { ...DEFAULT_CACHE_CONFIG.metadata, ...options.metadata };
+    this.stats = new LruCache({ maxEntries: this.metadataOptions.maxEntries });
+    this.logger = options.logger ?? (() => {});
+
+    const maxSize = options.content?.maxSize ?? DEFAULT_CACHE_CONFIG.content.maxSize;
+    this.maxFileSize = Math.min(
+      options.content?.maxFileSize ?? DEFAULT_CACHE_CONFIG.content.maxFileSize,
+      maxSize,
+    );
+    if (options.content) {
+      const { store } = options.content;
+      this.contents = {
+        store,
+        entries: new LruCache({
+          maxSize,
+          onRemove: (key, cached) => {
+            store.unlink(cached.storePath).catch(error => this.storeFailed(key, "unlink", error));
+          },
+        }),
+      };
+    }
+  }
+
+  /**
+   * Stat a path through the metadata cache
+   *
+   * Missing paths are cached as missing for `negativeTtl`; concurrent calls
+   * for a path share one backend request.
+   */
+  private cachedStat(filePath: string): Promise<FileStats> {
+    const key = cacheKey(filePath);
+    const cached = this.stats.get(key);
+    if (cached) {
+      return cached.error ? Promise.reject(cached.error) : Promise.resolve(cached.stats!);
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const generation = this.generation;
+    const request: Promise<FileStats> = this.adapter
+      .stat(filePath)
+      .then(
+        stats => {
+          if (generation === this.generation) {
+            this.stats.set(key, { stats }, { ttl: this.metadataOptions.ttl });
+          }
+          return stats;
+        },
+        error => {
+          if (error instanceof FileNotFoundError && generation === this.generation) {
+            this.stats.set(key, { error }, { ttl: this.metadataOptions.negativeTtl });
+          }
+          throw error;
+        },
+      )
+      .finally(() => {
+        if (this.pending.get(key) === request) {
+          this.pending.delete(key);
+        }
+      });
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drop the cached entries of a path and of the directories containing it
+   *
+   * @param tree - Also drop the entries below the path (for directory operations)
+   */
+  private invalidate(filePath: string, tree = false): void {
+    this.generation++;
+
+    const key = cacheKey(filePath);
+    for (const affected of [key, ...ancestorKeys(key)]) {
+      this.stats.delete(affected);
+      this.pending.delete(affected);
+    }
+    this.contents?.entries.delete(key);
+
+    if (tree) {
+      const prefix = key === "." ? "" : `${key}/`;
+      const inTree = (candidate: string) => candidate.startsWith(prefix);
+      this.stats.deleteWhere(inTree);
+      this.contents?.entries.deleteWhere(inTree);
+      for (const pendingKey of [...this.pending.keys()].filter(inTree)) {
+        this.pending.delete(pendingKey);
+      }
+    }
+  }
+
+  /**
+   * Run a modifying operation, then invalidate the paths it touched, even if it failed
+   */
+  private async invalidating<T>(paths: string[], fn: () => Promise<T>, tree = false): Promise<T> {
+    try {
+      return await fn();
+    } finally {
+      for (const filePath of paths) {
+        this.invalidate(filePath, tree);
+      }
+    }
+  }
+
+  /**
+   * Log a failed content store operation; the cache carries on without the entry
+   */
+  private storeFailed(key: string, operation: string, error: unknown): void {
+    this.logger("warn", `Content cache ${operation} failed`, { path: key, operation, error });
+  }
+
+  /**
+   * Read a file through the content cache
+   */
+  private async readThrough(filePath: string, contents: ContentCache): Promise<Buffer> {
+    const key = cacheKey(filePath);
+    const stats = await this.cachedStat(filePath);
+    const version = versionOf(stats);
+
+    const cached = contents.entries.get(key);
+    if (cached?.version === version) {
+      try {
+        // Without an encoding the backend resolves to a Buffer
+        return (await contents.store.readFile(cached.storePath)) as unknown as Buffer;
+      } catch (error) {
+        this.storeFailed(key, "readFile", error);
+        contents.entries.delete(key);
+      }
+    }
+
+    const generation = this.generation;
+    let content: Buffer;
+    try {
+      content = (await this.adapter.readFile(filePath)) as unknown as Buffer;
+    } catch (error) {
+      // The cached stats outlived the file
+      if (error instanceof FileNotFoundError) {
+        this.invalidate(filePath);
+      }
+      throw error;
+    }
+
+    if (stats.isFile() && content.length <= this.maxFileSize && generation === this.generation) {
+      await this.storeContent(key, version, content, contents);
+    }
+    return content;
+  }
+
+  /**
+   * Add a file's content to the content cache
+   *
+   * Every cached content gets a store file of its own, so replacing or
+   * evicting an entry never removes content another entry refers to.
+   */
+  private async storeContent(
+    key: string,
+    version: string,
+    content: Buffer,
+    contents: ContentCache,
+  ): Promise<void> {
+    const generation = this.generation;
+    const storePath = `/${randomUUID()}`;
+
+    try {
+      await contents.store.writeFile(storePath, content);
+    } catch (error) {
+      this.storeFailed(key, "writeFile", error);
+      return;
+    }
+
+    if (generation !== this.generation) {
+      // The file was modified while its content was stored
+      contents.store.unlink(storePath).catch(error => this.storeFailed(key, "unlink", error));
+      return;
+    }
+    contents.entries.set(key, { version, storePath }, { size: content.length });
+  }
+
+  /**
+   * Read entire file contents, from the content cache if enabled
+   */
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    const content = this.contents
+      ? await this.readThrough(filePath, this.contents)
+      : // Without an encoding the backend resolves to a Buffer
+        ((await this.adapter.readFile(filePath)) as unknown as Buffer);
+    return encoding ? content.toString(encoding) : content;
+  }
+
+  /**
+   * Write data to file
+   */
+  async writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void> {
+    return this.invalidating([filePath], () => this.adapter.writeFile(filePath, data, options));
+  }
+
+  /**
+   * Append data to file
+   */
+  async appendFile(
+    filePath: string,
+    data: string | Buffer,
+    encoding?: BufferEncoding,
+  ): Promise<void> {
+    return this.invalidating([filePath], () => this.adapter.appendFile(filePath, data, encoding));
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
+    return this.invalidating([filePath], () => this.adapter.unlink(filePath, options));
+  }
+
+  /**
+   * Delete many files, ignoring paths that do not exist
+   */
+  async removeMany(paths: string[], options?: RemoveManyOptions): Promise<void> {
+    return this.invalidating(paths, () => this.adapter.removeMany(paths, options));
+  }
+
+  /**
+   * Copy file from source to destination
+   */
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    return this.invalidating([dest], () => this.adapter.copyFile(src, dest, options));
+  }
+
+  /**
+   * Rename or move a file or directory
+   */
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
+    return this.invalidating(
+      [oldPath, newPath],
+      () => this.adapter.rename(oldPath, newPath, options),
+      true,
+    );
+  }
+
+  /**
+   * Acquire an advisory lock on a path
+   */
+  lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    return this.adapter.lock(filePath, options);
+  }
+
+  /**
+   * Read directory contents
+   */
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    return this.adapter.readdir(dirPath, options);
+  }
+
+  /**
+   * Read one page of directory contents
+   */
+  async readdirPaged(dirPath: string, options?: ReaddirPageOptions): Promise<ReaddirPage> {
+    return this.adapter.readdirPaged(dirPath, options);
+  }
+
+  /**
+   * Iterate over directory contents, fetching one page at a time
+   */
+  readdirIterator(
+    dirPath: string,
+    options?: ReaddirIteratorOptions,
+  ): AsyncIterableIterator<string> {
+    return this.adapter.readdirIterator(dirPath, options);
+  }
+
+  /**
+   * Create directory
+   */
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.invalidating([dirPath], () => this.adapter.mkdir(dirPath, options));
+  }
+
+  /**
+   * Remove directory
+   */
+  async rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.invalidating([dirPath], () => this.adapter.rmdir(dirPath, options), true);
+  }
+
+  /**
+   * Get file/directory statistics, from the metadata cache if fresh
+   */
+  async stat(filePath: string): Promise<FileStats> {
+    return this.cachedStat(filePath);
+  }
+
+  /**
+   * Get symbolic link statistics
+   */
+  async lstat(filePath: string): Promise<FileStats> {
+    return this.adapter.lstat(filePath);
+  }
+
+  /**
+   * Check file accessibility
+   */
+  async access(filePath: string, mode?: number): Promise<void> {
+    return this.adapter.access(filePath, mode);
+  }
+
+  /**
+   * Get the content headers and user metadata of a file
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    return this.adapter.getFileMetadata(filePath);
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    return this.invalidating([filePath], () => this.adapter.setFileMetadata(filePath, metadata));
+  }
+
+  /**
+   * Create a readable stream, always read from the wrapped adapter
+   */
+  createReadStream(filePath: string, options?: ReadStreamOptions): Readable {
+    return this.adapter.createReadStream(filePath, options);
+  }
+
+  /**
+   * Create a writable stream, invalidating the path when it opens and when it ends
+   */
+  createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
+    const stream = this.adapter.createWriteStream(filePath, options);
+    this.invalidate(filePath);
+    finished(stream, () => this.invalidate(filePath));
+    return stream;
+  }
+
+  /**
+   * Check if file/directory exists, from the metadata cache if fresh
+   */
+  async exists(filePath: string): Promise<boolean> {
+    try {
+      await this.cachedStat(filePath);
+      return true;
+    } catch (error) {
+      if (error instanceof FileNotFoundError || error instanceof NotDirectoryError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve symbolic links and relative paths
+   */
+  async realpath(filePath: string): Promise<string> {
+    return this.adapter.realpath(filePath);
+  }
+
+  /**
+   * Create a URL granting direct access to a file
+   */
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    return this.adapter.getSignedUrl(filePath, options);
+  }
+
+  /**
+   * Recursively walk a directory tree
+   */
+  walk(dirPath: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+    return this.adapter.walk(dirPath, options);
+  }
+
+  /**
+   * Find paths matching a glob pattern
+   */
+  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+    return this.adapter.glob(pattern, options);
+  }
+
+  /**
+   * Watch a directory, invalidating the cached entries of every reported change
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    const watcher = this.adapter.watch(dirPath, options);
+    watcher.on("all", (event: WatchEvent) =>
+      this.invalidate(event.path, event.type === "unlinkDir"),
+    );
+    return watcher;
+  }
+
+  /**
+   * Get metadata of the wrapped adapter
+   */
+  getMetadata(): AdapterMetadata {
+    return this.adapter.getMetadata();
+  }
+}
@@ -0,0 +1,798 @@
+/**
+ * Compression Adapter
+ *
+ * Transparent compression layer wrapped around an adapter when the filesystem
+ * configuration has a `compression` section. Files whose paths match a rule
+ * are stored compressed under their path plus the codec suffix (`app.log` →
+ * `app.log.gz`) and decompressed on read; other files pass through unchanged.
+ */
+
+import { PassThrough, Readable, Writable, pipeline } from "stream";
+import { pipeline as pipelineAsync } from "stream/promises";
+
+import {
+  AdapterMetadata,
+  BaseAdapter,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../interfaces/adapter.interface";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  GlobOptions,
+  LockHandle,
+  LockOptions,
+  ReaddirIteratorOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import { CompressionCodec, CompressionConfig, CompressionRule } from "../types/config";
+import {
+  AlreadyExistsError,
+  FileNotFoundError,
+  IsDirectoryError,
+  StorageError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+import {
+  COMPRESSION_SUFFIXES,
+  createCompressStream,
+  createDecompressStream,
+  isCodecAvailable,
+  isConcatenable,
+  transformBuffer,
+} from "../utils/compression-utils";
+import { GlobMatcher, compileGlob, expandBraces, globWithWalk } from "../utils/glob-utils";
+import { resolveFileMetadata } from "../utils/metadata-utils";
+import { basename, joinPath, normalizePath } from "../utils/path-utils";
+import { createRangeStream } from "../utils/stream-utils";
+import { isExclusive } from "../utils/write-utils";
+import { copyDirectoryEntry, iterateReaddirPages } from "../utils/walk-utils";
+import { mapWatcher } from "../utils/watch-utils";
+
+/**
+ * A compression rule with its compiled pattern
+ */
+interface CompiledRule extends CompressionRule {
+  matchers: GlobMatcher[];
+}
+
+/**
+ * Where the content of a path is stored
+ */
+interface StoredFile {
+  path: string;
+  /** Codec of the stored file, undefined if it is stored uncompressed */
+  codec?: CompressionCodec;
+}
+
+/**
+ * Adapter wrapper compressing the files matching configured path patterns
+ *
+ * Files stored uncompressed before a rule applied to them stay readable under
+ * their plain name; writing or appending to one stores it compressed and
+ * removes the uncompressed file. Sizes reported by
+ * `stat()`, `readdir()` and `walk()` are the compressed sizes.
+ */
+export class CompressionAdapter implements BaseAdapter {
+  private readonly rules: CompiledRule[];
+
+  /**
+   * @throws {ValidationError} if a rule uses a codec the running Node.js version does not support
+   */
+  constructor(
+    private readonly adapter: BaseAdapter,
+    config: CompressionConfig,
+  ) {
+    for (const rule of config.rules) {
+      if (!isCodecAvailable(rule.codec)) {
+        throw new ValidationError(`Compression codec "${rule.codec}" is not supported`);
+      }
+    }
+
+    this.rules = config.rules.map(rule => ({
+      ...rule,
+      matchers: expandBraces(rule.pattern).map(pattern => compileGlob(pattern, { dot: true })),
+    }));
+  }
+
+  /**
+   * First rule matching a file path
+   */
+  private ruleFor(filePath: string): CompiledRule | undefined {
+    const relative = normalizePath(filePath);
+    if (relative === "." || relative.startsWith("..")) {
+      return undefined;
+    }
+    return this.rules.find(rule => rule.matchers.some(matcher => matcher.match(relative)));
+  }
+
+  /**
+   * Path of the compressed file of a path
+   */
+  private compressedPath(filePath: string, rule: CompressionRule): string {
+    return `${filePath.replace(/\/+$/, "")}${COMPRESSION_SUFFIXES[rule.codec]}`;
+  }
+
+  /**
+   * Name under which a stored file is listed: compressed files lose their codec suffix
+   *
+   * @param dirPath - Directory the name is listed in
+   */
+  private visibleName(dirPath: string, name: string): string {
+    for (const [codec, suffix] of Object.entries(COMPRESSION_SUFFIXES)) {
+      if (name.endsWith(suffix) && name.length > suffix.length) {
+        const plainName = name.slice(0, -suffix.length);
+        if (this.ruleFor(joinPath(dirPath, plainName))?.codec === codec) {
+          return plainName;
+        }
+      }
+    }
+    return name;
+  }
+
+  /**
+   * Run an operation on the compressed file of a path, falling back to the
+   * uncompressed file if a matching path has no compressed file
+   */
+  private async withStoredFile<T>(
+    filePath: string,
+    fn: (stored: StoredFile) => Promise<T>,
+  ): Promise<T> {
+    const rule = this.ruleFor(filePath);
+    if (!rule) {
+      return fn({ path: filePath });
+    }
+
+    try {
+      return await fn({ path: this.compressedPath(filePath, rule), codec: rule.codec });
+    } catch (error) {
+      if (!(error instanceof FileNotFoundError)) {
+        throw error;
+      }
+      return fn({ path: filePath });
+    }
+  }
+
+  /**
+   * Find the stored file of a path
+   */
+  private async locate(filePath: string): Promise<StoredFile> {
+    const rule = this.ruleFor(filePath);
+    if (rule) {
+      const compressed = this.compressedPath(filePath, rule);
+      if (await this.adapter.exists(compressed)) {
+        return { path: compressed, codec: rule.codec };
+      }
+    }
+    return { path: filePath };
+  }
+
+  /**
+   * Whether a path stored uncompressed is a directory
+   */
+  private async isDirectory(stored: StoredFile): Promise<boolean> {
+    if (stored.codec) {
+      return false;
+    }
+    try {
+      return (await this.adapter.stat(stored.path)).isDirectory();
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the uncompressed file a path may still have from before its rule
+   * applied, so that it cannot resurface once the compressed file is gone
+   */
+  private async removeUncompressed(filePath: string): Promise<void> {
+    try {
+      await this.adapter.unlink(filePath);
+    } catch (error) {
+      if (!(error instanceof FileNotFoundError || error instanceof IsDirectoryError)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Read a stored file and decompress it
+   *
+   * @throws {StorageError} if the stored file is not valid data of its codec
+   */
+  private async readStored(
+    stored: StoredFile,
+    filePath: string,
+    operation: string,
+  ): Promise<Buffer> {
+    // Without an encoding the backend resolves to a Buffer
+    const content = (await this.adapter.readFile(stored.path)) as unknown as Buffer;
+    if (!stored.codec) {
+      return content;
+    }
+
+    try {
+      return await transformBuffer(content, createDecompressStream(stored.codec));
+    } catch (error) {
+      throw new StorageError(
+        `Cannot decompress ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        { path: filePath, operation, cause: error instanceof Error ? error : undefined },
+      );
+    }
+  }
+
+  /**
+   * Content an append must rewrite ahead of the new data
+   *
+   * Concatenable codecs only rewrite a file stored uncompressed before its
+   * rule applied (`legacy`); brotli files are rewritten as a whole.
+   */
+  private async appendBase(
+    filePath: string,
+    rule: CompressionRule,
+    operation: string,
+  ): Promise<{ content?: Buffer; legacy: boolean }> {
+    const compressed = { path: this.compressedPath(filePath, rule), codec: rule.codec };
+
+    try {
+      if (!isConcatenable(rule.codec)) {
+        return { content: await this.readStored(compressed, filePath, operation), legacy: false };
+      }
+      if (await this.adapter.exists(compressed.path)) {
+        return { legacy: false };
+      }
+    } catch (error) {
+      if (!(error instanceof FileNotFoundError)) {
+        throw error;
+      }
+    }
+
+    try {
+      return {
+        content: await this.readStored({ path: filePath }, filePath, operation),
+        legacy: true,
+      };
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return { legacy: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read entire file contents
+   */
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    const content = await this.withStoredFile(filePath, stored =>
+      this.readStored(stored, filePath, "readFile"),
+    );
+    return encoding ? content.toString(encoding) : content;
+  }
+
+  /**
+   * Write data to file, compressed if its path matches a rule
+   *
+   * An uncompressed file left from before the rule applied is removed.
+   */
+  async writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void> {
+    const rule = this.ruleFor(filePath);
+    if (!rule) {
+      return this.adapter.writeFile(filePath, data, options);
+    }
+
+    const encoding = typeof options === "string" ? options : options?.encoding;
+    const content = typeof data === "string" ? Buffer.from(data, encoding) : data;
+    const innerOptions = typeof options === "object" ? { ...options, encoding: undefined } : {};
+    if (isExclusive(innerOptions) && (await this.adapter.exists(filePath))) {
+      throw new AlreadyExistsError(filePath, { operation: "writeFile" });
+    }
+
+    await this.adapter.writeFile(
+      this.compressedPath(filePath, rule),
+      await transformBuffer(content, createCompressStream(rule.codec, rule.level)),
+      innerOptions,
+    );
+    await this.removeUncompressed(filePath);
+  }
+
+  /**
+   * Append data to file
+   *
+   * gzip and zstd append a compressed member to the file; brotli files are
+   * decompressed, extended and compressed again.
+   */
+  async appendFile(
+    filePath: string,
+    data: string | Buffer,
+    encoding?: BufferEncoding,
+  ): Promise<void> {
+    const rule = this.ruleFor(filePath);
+    if (!rule) {
+      return this.adapter.appendFile(filePath, data, encoding);
+    }
+
+    const appended = typeof data === "string" ? Buffer.from(data, encoding) : data;
+    const compressedPath = this.compressedPath(filePath, rule);
+    const base = await this.appendBase(filePath, rule, "appendFile");
+
+    if (base.content === undefined) {
+      return this.adapter.appendFile(
+        compressedPath,
+        await transformBuffer(appended, createCompressStream(rule.codec, rule.level)),
+      );
+    }
+
+    await this.adapter.writeFile(
+      compressedPath,
+      await transformBuffer(
+        Buffer.concat([base.content, appended]),
+        createCompressStream(rule.codec, rule.level),
+      ),
+    );
+    if (base.legacy) {
+      await this.adapter.unlink(filePath);
+    }
+  }
+
+  /**
+   * Delete a file, both its compressed and its uncompressed form
+   */
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
+    const stored = await this.withStoredFile(filePath, async stored => {
+      await this.adapter.unlink(stored.path, options);
+      return stored;
+    });
+    if (stored.codec) {
+      await this.removeUncompressed(filePath);
+    }
+  }
+
+  /**
+   * Delete many files, ignoring paths that do not exist
+   *
+   * Paths matching a rule delete both their compressed and uncompressed file.
+   */
+  async removeMany(paths: string[], options?: RemoveManyOptions): Promise<void> {
+    const storedPaths = paths.flatMap(filePath => {
+      const rule = this.ruleFor(filePath);
+      return rule ? [this.compressedPath(filePath, rule), filePath] : [filePath];
+    });
+    return this.adapter.removeMany(storedPaths, options);
+  }
+
+  /**
+   * Copy file from source to destination, recompressing it if their codecs differ
+   */
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    const source = await this.locate(src);
+    if (await this.isDirectory(source)) {
+      return this.adapter.copyFile(src, dest, options);
+    }
+    const destRule = this.ruleFor(dest);
+
+    if (source.codec === destRule?.codec) {
+      const destPath = destRule ? this.compressedPath(dest, destRule) : dest;
+      await this.adapter.copyFile(source.path, destPath, options);
+    } else {
+      await this.transcode(source, src, dest, "copyFile", isExclusive(options), options);
+    }
+    if (destRule) {
+      await this.removeUncompressed(dest);
+    }
+  }
+
+  /**
+   * Rename or move a file, recompressing it if the codecs of the paths differ
+   *
+   * Directories are renamed as they are.
+   */
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
+    const source = await this.locate(oldPath);
+    if (await this.isDirectory(source)) {
+      return this.adapter.rename(oldPath, newPath, options);
+    }
+    const destRule = this.ruleFor(newPath);
+
+    if (source.codec === destRule?.codec) {
+      const destPath = destRule ? this.compressedPath(newPath, destRule) : newPath;
+      await this.adapter.rename(source.path, destPath, options);
+    } else {
+      await this.transcode(source, oldPath, newPath, "rename", isExclusive(options));
+      await this.adapter.unlink(source.path);
+    }
+    if (source.codec) {
+      await this.removeUncompressed(oldPath);
+    }
+    if (destRule) {
+      await this.removeUncompressed(newPath);
+    }
+  }
+
+  /**
+   * Stream a file to a destination stored with another codec
+   *
+   * The destination gets the given metadata, or else the source's metadata.
+   *
+   * @throws {AlreadyExistsError} if `exclusive` is set and the destination exists
+   */
+  private async transcode(
+    source: StoredFile,
+    srcPath: string,
+    destPath: string,
+    operation: string,
+    exclusive: boolean,
+    options?: CopyFileOptions,
+  ): Promise<void> {
+    if (exclusive && (await this.exists(destPath))) {
+      throw new AlreadyExistsError(destPath, { operation });
+    }
+
+    const metadata =
+      resolveFileMetadata(options) ?? (await this.adapter.getFileMetadata(source.path));
+    await pipelineAsync(this.createReadStream(srcPath), this.createWriteStream(destPath, metadata));
+  }
+
+  /**
+   * Acquire an advisory lock on a path, whatever form its file is stored in
+   */
+  lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    return this.adapter.lock(filePath, options);
+  }
+
+  /**
+   * Read directory contents, listing compressed files under their plain names
+   */
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    const entries = this.toVisibleEntries(
+      dirPath,
+      await this.adapter.readdir(dirPath, { withFileTypes: true }),
+      entry => entry.name,
+      (entry, name) => copyDirectoryEntry(entry, { name }),
+    );
+    return options?.withFileTypes ? entries : entries.map(entry => entry.name);
+  }
+
+  /**
+   * Rename listed compressed files to their plain names
+   *
+   * A file stored both compressed and, from before its rule applied,
+   * uncompressed is listed once.
+   */
+  private toVisibleEntries<T>(
+    dirPath: string,
+    entries: T[],
+    nameOf: (entry: T) => string,
+    rename: (entry: T, name: string) => T,
+  ): T[] {
+    const renamed = entries.map(entry => {
+      const name = this.visibleName(dirPath, nameOf(entry));
+      return {
+        entry: name === nameOf(entry) ? entry : rename(entry, name),
+        compressed: name !== nameOf(entry),
+      };
+    });
+    const compressedNames = new Set(
+      renamed.filter(item => item.compressed).map(item => nameOf(item.entry)),
+    );
+
+    return renamed
+      .filter(item => item.compressed || !compressedNames.has(nameOf(item.entry)))
+      .map(item => item.entry);
+  }
+
+  /**
+   * Read one page of directory contents
+   */
+  async readdirPaged(dirPath: string, options?: ReaddirPageOptions): Promise<ReaddirPage> {
+    const page = await this.adapter.readdirPaged(dirPath, options);
+    const entries = this.toVisibleEntries(
+      dirPath,
+      page.entries,
+      name => name,
+      (_name, visible) => visible,
+    );
+    return { ...page, entries };
+  }
+
+  /**
+   * Iterate over directory contents, fetching one page at a time
+   */
+  readdirIterator(
+    dirPath: string,
+    options?: ReaddirIteratorOptions,
+  ): AsyncIterableIterator<string> {
+    return iterateReaddirPages(this, dirPath, options);
+  }
+
+  /**
+   * Create directory
+   */
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.adapter.mkdir(dirPath, options);
+  }
+
+  /**
+   * Remove directory
+   */
+  async rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.adapter.rmdir(dirPath, options);
+  }
+
+  /**
+   * Get file/directory statistics of the stored file
+   */
+  async stat(filePath: string): Promise<FileStats> {
+    return this.withStoredFile(filePath, stored => this.adapter.stat(stored.path));
+  }
+
+  /**
+   * Get symbolic link statistics of the stored file
+   */
+  async lstat(filePath: string): Promise<FileStats> {
+    return this.withStoredFile(filePath, stored => this.adapter.lstat(stored.path));
+  }
+
+  /**
+   * Check file accessibility
+   */
+  async access(filePath: string, mode?: number): Promise<void> {
+    return this.withStoredFile(filePath, stored => this.adapter.access(stored.path, mode));
+  }
+
+  /**
+   * Get the content headers and user metadata of a file
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    return this.withStoredFile(filePath, stored => this.adapter.getFileMetadata(stored.path));
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    return this.withStoredFile(filePath, stored =>
+      this.adapter.setFileMetadata(stored.path, metadata),
+    );
+  }
+
+  /**
+   * Create a readable stream of the decompressed file
+   *
+   * `start` and `end` select a range of the decompressed content, which is
+   * still decompressed from the beginning of the file.
+   */
+  createReadStream(filePath: string, options?: ReadStreamOptions): Readable {
+    if (!this.ruleFor(filePath)) {
+      return this.adapter.createReadStream(filePath, options);
+    }
+
+    const output = new PassThrough();
+    this.locate(filePath).then(
+      stored => {
+        try {
+          if (!stored.codec) {
+            pipeline(this.adapter.createReadStream(stored.path, options), output, () => {});
+            return;
+          }
+
+          const input = this.adapter.createReadStream(stored.path, {
+            highWaterMark: options?.highWaterMark,
+          });
+          const decompress = createDecompressStream(stored.codec);
+          if (options?.start !== undefined || options?.end !== undefined) {
+            pipeline(
+              input,
+              decompress,
+              createRangeStream(options.start, options.end),
+              output,
+              () => {},
+            );
+          } else {
+            pipeline(input, decompress, output, () => {});
+          }
+        } catch (error) {
+          output.destroy(error as Error);
+        }
+      },
+      error => output.destroy(error),
+    );
+
+    if (options?.encoding) {
+      output.setEncoding(options.encoding);
+    }
+    return output;
+  }
+
+  /**
+   * Create a writable stream, compressing if the path matches a rule
+   *
+   * The stream finishes once the backend stream has stored the file. In
+   * append mode ("a" flags), gzip and zstd append a compressed member while
+   * brotli rewrites the decompressed file ahead of the new data.
+   */
+  createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
+    const rule = this.ruleFor(filePath);
+    if (!rule) {
+      return this.adapter.createWriteStream(filePath, options);
+    }
+
+    const append = options?.flags?.startsWith("a") ?? false;
+    const compress = createCompressStream(rule.codec, rule.level);
+    let stored: Promise<Error | undefined> = Promise.resolve(undefined);
+    let legacy = false;
+
+    const output: Writable = new Writable({
+      defaultEncoding: options?.encoding,
+
+      construct: callback => {
+        const base = append
+          ? this.appendBase(filePath, rule, "createWriteStream")
+          : Promise.resolve({ content: undefined, legacy: false });
+
+        base.then(
+          ({ content, legacy: isLegacy }) => {
+            legacy = isLegacy;
+            let inner: Writable;
+            try {
+              inner = this.adapter.createWriteStream(this.compressedPath(filePath, rule), {
+                ...options,
+                encoding: undefined,
+                flags: content !== undefined ? "w" : options?.flags,
+              });
+            } catch (error) {
+              return callback(error as Error);
+            }
+
+            stored = new Promise(resolve =>
+              pipeline(compress, inner, error => {
+                if (error) {
+                  output.destroy(error);
+                }
+                resolve(error ?? undefined);
+              }),
+            );
+            if (content !== undefined) {
+              compress.write(content);
+            }
+            callback();
+          },
+          error => callback(error),
+        );
+      },
+
+      write: (chunk: Buffer, _encoding, callback) => {
+        compress.write(chunk, callback);
+      },
+
+      final: callback => {
+        compress.end();
+        stored
+          .then(async error => {
+            if (!error && (legacy || !append)) {
+              await this.removeUncompressed(filePath);
+            }
+            callback(error);
+          })
+          .catch(callback);
+      },
+
+      destroy: (error, callback) => {
+        // Abort the backend write so it discards what has been written
+        if (!compress.destroyed) {
+          compress.destroy(error ?? undefined);
+        }
+        callback(error);
+      },
+    });
+
+    return output;
+  }
+
+  /**
+   * Check if file/directory exists, compressed or not
+   */
+  async exists(filePath: string): Promise<boolean> {
+    const rule = this.ruleFor(filePath);
+    return (
+      (rule !== undefined && (await this.adapter.exists(this.compressedPath(filePath, rule)))) ||
+      this.adapter.exists(filePath)
+    );
+  }
+
+  /**
+   * Resolve symbolic links and relative paths
+   */
+  async realpath(filePath: string): Promise<string> {
+    const real = await this.withStoredFile(filePath, stored => this.adapter.realpath(stored.path));
+    const name = basename(real);
+    const parent = real.slice(0, real.length - name.length);
+    return `${parent}${this.visibleName(parent, name)}`;
+  }
+
+  /**
+   * Create a URL granting direct access to a file that is stored uncompressed
+   *
+   * @throws {ValidationError} if the path matches a compression rule
+   */
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    if (this.ruleFor(filePath)) {
+      throw new ValidationError("Signed URLs are not available for compressed files", {
+        path: filePath,
+        operation: "getSignedUrl",
+      });
+    }
+    return this.adapter.getSignedUrl(filePath, options);
+  }
+
+  /**
+   * Recursively walk a directory tree, listing compressed files under their plain paths
+   */
+  async *walk(dirPath: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+    const seen = new Set<string>();
+
+    for await (const entry of this.adapter.walk(dirPath, options)) {
+      const parent = entry.path.slice(0, entry.path.length - entry.name.length);
+      const name = entry.stats.isFile() ? this.visibleName(parent, entry.name) : entry.name;
+      const entryPath = `${parent}${name}`;
+
+      // A file stored both compressed and uncompressed is listed once
+      if (!seen.has(entryPath)) {
+        seen.add(entryPath);
+        yield { ...entry, path: entryPath, name };
+      }
+    }
+  }
+
+  /**
+   * Watch a directory, reporting compressed files under their plain paths
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    return mapWatcher(this.adapter.watch(dirPath, options), event => {
+      if (event.type === "addDir" || event.type === "unlinkDir") {
+        return event;
+      }
+      const name = basename(event.path);
+      const parent = event.path.slice(0, event.path.length - name.length);
+      return { ...event, path: `${parent}${this.visibleName(parent, name)}` };
+    });
+  }
+
+  /**
+   * Find paths matching a glob pattern against the plain paths
+   */
+  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+    return globWithWalk(this, pattern, options);
+  }
+
+  /**
+   * Get metadata of the wrapped adapter
+   */
+  getMetadata(): AdapterMetadata {
+    return this.adapter.getMetadata();
+  }
+}
@@ -0,0 +1,598 @@
+/**
+ * Encrypted Adapter
+ *
+ * Client-side encryption layer wrapped around an adapter when the filesystem
+ * configuration has an `encryption` section. File contents are encrypted with
+ * AES-256-GCM under a per-file data key before they reach the backend, and
+ * decrypted and authenticated on the way back; file names can be encrypted too.
+ */
+
+import { Readable, Writable, finished, pipeline } from "stream";
+
+import {
+  AdapterMetadata,
+  BaseAdapter,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../interfaces/adapter.interface";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  GlobOptions,
+  LockHandle,
+  LockOptions,
+  ReaddirIteratorOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import { EncryptionConfig } from "../types/config";
+import {
+  BatchOperationError,
+  FileNotFoundError,
+  FilesystemError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+import {
+  EncryptionKeys,
+  createContentCipher,
+  createDecryptStream,
+  decryptContent,
+  decryptFileName,
+  deriveEncryptionKeys,
+  encryptContent,
+  encryptFileName,
+  plaintextSize,
+} from "../utils/encryption-utils";
+import { globWithWalk } from "../utils/glob-utils";
+import { normalizePath } from "../utils/path-utils";
+import { createRangeStream } from "../utils/stream-utils";
+import { copyDirectoryEntry, iterateReaddirPages } from "../utils/walk-utils";
+import { mapWatcher } from "../utils/watch-utils";
+
+/**
+ * Adapter wrapper encrypting file contents and, optionally, file names
+ *
+ * The backend only stores ciphertext: sizes reported by `stat()`, `readdir()`
+ * and `walk()` are plaintext sizes, while `etag` values and file metadata
+ * (content headers and user metadata) are passed through unencrypted.
+ * Appending re-encrypts the whole file, and signed URLs are unavailable
+ * because they would bypass decryption.
+ */
+export class EncryptedAdapter implements BaseAdapter {
+  private readonly keys: EncryptionKeys;
+  private readonly encryptFileNames: boolean;
+
+  /**
+   * @throws {ValidationError} if the master key is not a base64-encoded 256-bit key
+   */
+  constructor(
+    private readonly adapter: BaseAdapter,
+    config: EncryptionConfig,
+  ) {
+    this.keys = deriveEncryptionKeys(config.masterKey);
+    this.encryptFileNames = config.encryptFileNames ?? false;
+  }
+
+  /**
+   * Path under which the backend stores a path
+   */
+  private toInner(filePath: string): string {
+    if (!this.encryptFileNames) {
+      return filePath;
+    }
+
+    const normalized = normalizePath(filePath);
+    if (normalized === ".") {
+      return "/";
+    }
+    // ".." is kept so the backend still rejects paths leaving its base
+    const segments = normalized
+      .split("/")
+      .map(segment => (segment === ".." ? segment : encryptFileName(segment, this.keys)));
+    return `/${segments.join("/")}`;
+  }
+
+  /**
+   * Path of a backend path, or undefined if it was not stored by this adapter
+   */
+  private toOuter(innerPath: string): string | undefined {
+    const name = this.toOuterName(innerPath);
+    return name === undefined ? undefined : name.startsWith("/") ? name : `/${name}`;
+  }
+
+  /**
+   * Name (or path) of a backend name, or undefined if it was not stored by this adapter
+   */
+  private toOuterName(innerName: string): string | undefined {
+    if (!this.encryptFileNames) {
+      return innerName;
+    }
+
+    const segments: string[] = [];
+    for (const segment of innerName.split("/")) {
+      const name =
+        segment === "" || segment === ".." ? segment : decryptFileName(segment, this.keys);
+      if (name === undefined) {
+        return undefined;
+      }
+      segments.push(name);
+    }
+    return segments.join("/");
+  }
+
+  /**
+   * Call the backend with the stored path, reporting errors with the given path
+   */
+  private async withPath<T>(filePath: string, fn: (innerPath: string) => Promise<T>): Promise<T> {
+    const innerPath = this.toInner(filePath);
+
+    try {
+      return await fn(innerPath);
+    } catch (error) {
+      throw this.translateError(error, innerPath, filePath);
+    }
+  }
+
+  /**
+   * Replace a stored path in a backend error with the path it was called with
+   */
+  private translateError(error: unknown, innerPath: string, filePath: string): unknown {
+    if (!(error instanceof FilesystemError) || innerPath === filePath) {
+      return error;
+    }
+
+    const target = error as { path?: string; message: string };
+    if (error.path === innerPath) {
+      target.path = filePath;
+    }
+    target.message = error.message.split(innerPath).join(filePath);
+    return error;
+  }
+
+  /**
+   * Report the plaintext size of files
+   */
+  private toPlaintextStats(stats: FileStats): FileStats {
+    return stats.isFile() ? { ...stats, size: plaintextSize(stats.size) } : stats;
+  }
+
+  /**
+   * Read entire file contents
+   */
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    const content = await this.readPlaintext(filePath, "readFile");
+    return encoding ? content.toString(encoding) : content;
+  }
+
+  /**
+   * Read and decrypt a file
+   *
+   * @throws {StorageError} if the file is not encrypted with the master key or has been modified
+   */
+  private async readPlaintext(filePath: string, operation: string): Promise<Buffer> {
+    // Without an encoding the backend resolves to a Buffer
+    const encrypted = await this.withPath(
+      filePath,
+      innerPath => this.adapter.readFile(innerPath) as unknown as Promise<Buffer>,
+    );
+    return decryptContent(encrypted, this.keys, { path: filePath, operation });
+  }
+
+  /**
+   * Encrypt and write data to file
+   */
+  async writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void> {
+    const encoding = typeof options === "string" ? options : options?.encoding;
+    const plaintext = typeof data === "string" ? Buffer.from(data, encoding) : data;
+    const innerOptions = typeof options === "object" ? { ...options, encoding: undefined } : {};
+
+    return this.withPath(filePath, innerPath =>
+      this.adapter.writeFile(innerPath, encryptContent(plaintext, this.keys), innerOptions),
+    );
+  }
+
+  /**
+   * Append data to file by re-encrypting its whole content
+   */
+  async appendFile(
+    filePath: string,
+    data: string | Buffer,
+    encoding?: BufferEncoding,
+  ): Promise<void> {
+    const existing = await this.readExisting(filePath, "appendFile");
+    const appended = typeof data === "string" ? Buffer.from(data, encoding) : data;
+
+    return this.withPath(filePath, innerPath =>
+      this.adapter.writeFile(
+        innerPath,
+        encryptContent(Buffer.concat([existing, appended]), this.keys),
+      ),
+    );
+  }
+
+  /**
+   * Plaintext of a file, or an empty buffer if it does not exist
+   */
+  private async readExisting(filePath: string, operation: string): Promise<Buffer> {
+    try {
+      return await this.readPlaintext(filePath, operation);
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return Buffer.alloc(0);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
+    return this.withPath(filePath, innerPath => this.adapter.unlink(innerPath, options));
+  }
+
+  /**
+   * Delete many files, ignoring paths that do not exist
+   */
+  async removeMany(paths: string[], options?: RemoveManyOptions): Promise<void> {
+    const outerPaths = new Map(paths.map(filePath => [this.toInner(filePath), filePath]));
+
+    try {
+      await this.adapter.removeMany([...outerPaths.keys()], options);
+    } catch (error) {
+      if (!(error instanceof BatchOperationError) || !this.encryptFileNames) {
+        throw error;
+      }
+      throw new BatchOperationError(
+        error.operation,
+        error.failures.map(failure => ({
+          ...failure,
+          path: outerPaths.get(failure.path) ?? failure.path,
+        })),
+        error.total,
+      );
+    }
+  }
+
+  /**
+   * Copy file from source to destination; the ciphertext is copied as is
+   */
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    return this.withPath(src, innerSrc =>
+      this.adapter.copyFile(innerSrc, this.toInner(dest), options),
+    );
+  }
+
+  /**
+   * Rename or move a file
+   */
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
+    return this.withPath(oldPath, innerOld =>
+      this.adapter.rename(innerOld, this.toInner(newPath), options),
+    );
+  }
+
+  /**
+   * Acquire an advisory lock
+   */
+  async lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    const handle = await this.withPath(filePath, innerPath =>
+      this.adapter.lock(innerPath, options),
+    );
+    return { path: filePath, expiresAt: handle.expiresAt, release: () => handle.release() };
+  }
+
+  /**
+   * Read directory contents, skipping entries whose names cannot be decrypted
+   */
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    const entries = await this.withPath(dirPath, innerPath =>
+      this.adapter.readdir(innerPath, { withFileTypes: true }),
+    );
+
+    const decrypted: DirectoryEntry[] = [];
+    for (const entry of entries) {
+      const name = this.toOuterName(entry.name);
+      if (name !== undefined) {
+        const size =
+          entry.size !== undefined && entry.isFile() ? plaintextSize(entry.size) : undefined;
+        decrypted.push(copyDirectoryEntry(entry, { name, size }));
+      }
+    }
+
+    return options?.withFileTypes ? decrypted : decrypted.map(entry => entry.name);
+  }
+
+  /**
+   * Read one page of directory contents
+   *
+   * Entries whose names cannot be decrypted are dropped, so pages may hold
+   * fewer entries than the limit.
+   */
+  async readdirPaged(dirPath: string, options?: ReaddirPageOptions): Promise<ReaddirPage> {
+    const page = await this.withPath(dirPath, innerPath =>
+      this.adapter.readdirPaged(innerPath, options),
+    );
+    const entries = page.entries
+      .map(name => this.toOuterName(name))
+      .filter((name): name is string => name !== undefined);
+
+    return { ...page, entries };
+  }
+
+  /**
+   * Iterate over directory contents, fetching one page at a time
+   */
+  readdirIterator(
+    dirPath: string,
+    options?: ReaddirIteratorOptions,
+  ): AsyncIterableIterator<string> {
+    return iterateReaddirPages(this, dirPath, options);
+  }
+
+  /**
+   * Create directory
+   */
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.withPath(dirPath, innerPath => this.adapter.mkdir(innerPath, options));
+  }
+
+  /**
+   * Remove directory
+   */
+  async rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.withPath(dirPath, innerPath => this.adapter.rmdir(innerPath, options));
+  }
+
+  /**
+   * Get file/directory statistics with the plaintext size of files
+   */
+  async stat(filePath: string): Promise<FileStats> {
+    const stats = await this.withPath(filePath, innerPath => this.adapter.stat(innerPath));
+    return this.toPlaintextStats(stats);
+  }
+
+  /**
+   * Get symbolic link statistics with the plaintext size of files
+   */
+  async lstat(filePath: string): Promise<FileStats> {
+    const stats = await this.withPath(filePath, innerPath => this.adapter.lstat(innerPath));
+    return this.toPlaintextStats(stats);
+  }
+
+  /**
+   * Check file accessibility
+   */
+  async access(filePath: string, mode?: number): Promise<void> {
+    return this.withPath(filePath, innerPath => this.adapter.access(innerPath, mode));
+  }
+
+  /**
+   * Get the content headers and user metadata of a file (stored unencrypted)
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    return this.withPath(filePath, innerPath => this.adapter.getFileMetadata(innerPath));
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file (stored unencrypted)
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    return this.withPath(filePath, innerPath => this.adapter.setFileMetadata(innerPath, metadata));
+  }
+
+  /**
+   * Create a readable stream of the decrypted file
+   *
+   * `start` and `end` select a range of the plaintext; the file is still read
+   * and authenticated from its beginning.
+   */
+  createReadStream(filePath: string, options?: ReadStreamOptions): Readable {
+    const innerPath = this.toInner(filePath);
+    const inner = this.adapter.createReadStream(innerPath, {
+      highWaterMark: options?.highWaterMark,
+    });
+    const decrypt = createDecryptStream(this.keys, {
+      path: filePath,
+      operation: "createReadStream",
+    });
+    // Backend errors reach the returned stream through the pipeline
+    inner.on("error", error => this.translateError(error, innerPath, filePath));
+
+    const output =
+      options?.start !== undefined || options?.end !== undefined
+        ? pipeline(inner, decrypt, createRangeStream(options.start, options.end), () => {})
+        : pipeline(inner, decrypt, () => {});
+    if (options?.encoding) {
+      output.setEncoding(options.encoding);
+    }
+    return output;
+  }
+
+  /**
+   * Create a writable stream that encrypts the data written to it
+   *
+   * The stream finishes once the backend stream has stored the file. Append
+   * mode ("a" flags) re-encrypts the existing content ahead of the new data.
+   */
+  createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
+    const innerPath = this.toInner(filePath);
+    const append = options?.flags?.startsWith("a") ?? false;
+    const { header, cipher } = createContentCipher(this.keys);
+    let inner: Writable | undefined;
+
+    const writeInner = (data: Buffer, callback: (error?: Error | null) => void) => {
+      if (inner!.write(data)) {
+        callback();
+      } else {
+        inner!.once("drain", () => callback());
+      }
+    };
+
+    const output: Writable = new Writable({
+      defaultEncoding: options?.encoding,
+
+      construct: callback => {
+        const existing = append
+          ? this.readExisting(filePath, "createWriteStream")
+          : Promise.resolve(Buffer.alloc(0));
+
+        existing.then(
+          content => {
+            try {
+              inner = this.adapter.createWriteStream(innerPath, {
+                ...options,
+                encoding: undefined,
+                flags: append ? "w" : options?.flags,
+              });
+            } catch (error) {
+              return callback(this.translateError(error, innerPath, filePath) as Error);
+            }
+            inner.on("error", error =>
+              output.destroy(this.translateError(error, innerPath, filePath) as Error),
+            );
+            writeInner(Buffer.concat([header, cipher.update(content)]), callback);
+          },
+          error => callback(error),
+        );
+      },
+
+      write: (chunk: Buffer, _encoding, callback) => {
+        writeInner(cipher.update(chunk), callback);
+      },
+
+      final: callback => {
+        inner!.end(Buffer.concat([cipher.final(), cipher.getAuthTag()]));
+        finished(inner!, { readable: false }, error => callback(error));
+      },
+
+      destroy: (error, callback) => {
+        // Abort the backend write so it discards what has been written
+        if (inner && !inner.writableFinished) {
+          inner.destroy(error ?? undefined);
+        }
+        callback(error);
+      },
+    });
+
+    return output;
+  }
+
+  /**
+   * Check if file/directory exists
+   */
+  async exists(filePath: string): Promise<boolean> {
+    return this.withPath(filePath, innerPath => this.adapter.exists(innerPath));
+  }
+
+  /**
+   * Resolve symbolic links and relative paths
+   */
+  async realpath(filePath: string): Promise<string> {
+    const innerReal = await this.withPath(filePath, innerPath => this.adapter.realpath(innerPath));
+    const outer = this.toOuterName(innerReal);
+    return outer ?? innerReal;
+  }
+
+  /**
+   * Signed URLs are unavailable: they would serve or accept ciphertext
+   *
+   * @throws {ValidationError} always
+   */
+  async getSignedUrl(filePath: string, _options: SignedUrlOptions): Promise<string> {
+    throw new ValidationError("Signed URLs are not available for encrypted filesystems", {
+      path: filePath,
+      operation: "getSignedUrl",
+    });
+  }
+
+  /**
+   * Recursively walk a directory tree, skipping entries whose names cannot be decrypted
+   */
+  async *walk(dirPath: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+    const innerPath = this.toInner(dirPath);
+    const toOuterEntry = (entry: WalkEntry): WalkEntry | undefined => {
+      const entryPath = this.toOuter(entry.path);
+      const name = this.toOuterName(entry.name);
+      return entryPath === undefined || name === undefined
+        ? undefined
+        : { ...entry, path: entryPath, name, stats: this.toPlaintextStats(entry.stats) };
+    };
+    const skipDirectory = options?.skipDirectory;
+    const innerOptions: WalkOptions | undefined = skipDirectory && {
+      ...options,
+      skipDirectory: entry => {
+        const outerEntry = toOuterEntry(entry);
+        return outerEntry === undefined || skipDirectory(outerEntry);
+      },
+    };
+
+    try {
+      for await (const entry of this.adapter.walk(innerPath, innerOptions ?? options)) {
+        const outerEntry = toOuterEntry(entry);
+        if (outerEntry !== undefined) {
+          yield outerEntry;
+        }
+      }
+    } catch (error) {
+      throw this.translateError(error, innerPath, dirPath);
+    }
+  }
+
+  /**
+   * Watch a directory, reporting changes under the decrypted paths
+   *
+   * Entries whose names cannot be decrypted are not reported.
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    const innerPath = this.toInner(dirPath);
+    return mapWatcher(
+      this.adapter.watch(innerPath, options),
+      event => {
+        const eventPath = this.toOuter(event.path);
+        return eventPath === undefined
+          ? undefined
+          : {
+              ...event,
+              path: eventPath,
+              stats: event.stats && this.toPlaintextStats(event.stats),
+            };
+      },
+      error => this.translateError(error, innerPath, dirPath),
+    );
+  }
+
+  /**
+   * Find paths matching a glob pattern against the decrypted names
+   */
+  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+    return globWithWalk(this, pattern, options);
+  }
+
+  /**
+   * Get metadata of the wrapped adapter
+   */
+  getMetadata(): AdapterMetadata {
+    return this.adapter.getMetadata();
+  }
+}
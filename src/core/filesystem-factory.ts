@@ -5,11 +5,25 @@
  */
 
 import { Filesystem } from "../interfaces/filesystem.interface";
-import { BaseAdapter } from "../interfaces/adapter.interface";
-import { FilesystemConfig, ValidatedFilesystemConfig, validateConfig } from "../types/config";
+import { AdapterConfig, AdapterFactory, BaseAdapter } from "../interfaces/adapter.interface";
+import {
+  AdapterType,
+  FilesystemConfig,
+  S3ServerSideEncryption,
+  ValidatedFilesystemConfig,
+  validateConfig,
+} from "../types/config";
 import { ValidationError } from "../errors/filesystem-errors";
-import { LocalAdapter, LocalAdapterConfig } from "../adapters/local-adapter";
-import { S3Adapter, S3AdapterConfig } from "../adapters/s3-adapter";
+import {
+  AdapterConfigValidator,
+  getAdapterRegistration,
+  getRegisteredAdapterTypes,
+  registerAdapter,
+} from "./adapter-registry";
+import { CachingAdapter } from "./caching-adapter";
+import { CompressionAdapter } from "./compression-adapter";
+import { EncryptedAdapter } from "./encrypted-adapter";
+import { ResilientAdapter } from "./resilient-adapter";
 
 /**
  * Filesystem factory implementation
@@ -30,16 +44,50 @@ export class FilesystemFactory {
     // Get validated config
     const validatedConfig = validationResult.config!;
 
-    // Create appropriate adapter based on type
-    let adapter: BaseAdapter;
+    // Apply the retry and timeout layer, then create the filesystem wrapper around it
+    const { common } = validatedConfig;
+    const adapter = new ResilientAdapter(FilesystemFactory.createAdapter(validatedConfig), {
+      timeout: common.timeout,
+      maxRetries: common.maxRetries,
+      operations: common.operations,
+      logger: common.logger,
+    });
 
+    return FilesystemFactory.createFilesystemWrapper(adapter);
+  }
+
+  /**
+   * Create the adapter registered for a validated configuration
+   *
+   * The adapter is wrapped in a cache if the configuration has a `cache`
+   * section, in an encryption layer on top of that if it has an `encryption`
+   * section, and in a compression layer on top of that if it has a
+   * `compression` section, so content is compressed before encryption and
+   * cached as stored.
+   */
+  static createAdapter(validatedConfig: ValidatedFilesystemConfig): BaseAdapter {
     try {
-      if (validatedConfig.type === "local") {
-        adapter = FilesystemFactory.createLocalAdapter(validatedConfig);
-      } else {
-        // type is 's3'
-        adapter = FilesystemFactory.createS3Adapter(validatedConfig);
+      const registration = getAdapterRegistration(validatedConfig.type)!;
+      let adapter = registration.factory(validatedConfig.adapter);
+      const { cache } = validatedConfig;
+      if (cache) {
+        adapter = new CachingAdapter(adapter, {
+          metadata: cache.metadata,
+          content: cache.content && {
+            store: FilesystemFactory.createAdapter(cache.content.store),
+            maxSize: cache.content.maxSize,
+            maxFileSize: cache.content.maxFileSize,
+          },
+          logger: validatedConfig.common.logger,
+        });
+      }
+      if (validatedConfig.encryption) {
+        adapter = new EncryptedAdapter(adapter, validatedConfig.encryption);
       }
+      if (validatedConfig.compression) {
+        adapter = new CompressionAdapter(adapter, validatedConfig.compression);
+      }
+      return adapter;
     } catch (error) {
       if (error instanceof ValidationError) {
         throw error;
@@ -49,52 +97,26 @@ export class FilesystemFactory {
         { cause: error instanceof Error ? error : undefined },
       );
     }
-
-    // Create filesystem wrapper around adapter
-    return FilesystemFactory.createFilesystemWrapper(adapter);
   }
 
   /**
-   * Create local filesystem adapter
+   * Register a custom adapter type
+   *
+   * Shorthand for the registerAdapter() function.
    */
-  private static createLocalAdapter(config: ValidatedFilesystemConfig): BaseAdapter {
-    const adapterConfig: LocalAdapterConfig = {
-      basePath: config.local.basePath,
-      createMissingDirs: config.local.createMissingDirs,
-      timeout: config.common.timeout,
-      maxRetries: config.common.maxRetries,
-      debug: config.common.debug,
-      logger: config.common.logger,
-    };
-
-    return new LocalAdapter(adapterConfig);
-  }
-
-  /**
-   * Create S3 adapter
-   */
-  private static createS3Adapter(config: ValidatedFilesystemConfig): BaseAdapter {
-    const adapterConfig: S3AdapterConfig = {
-      bucket: config.s3!.bucket,
-      region: config.s3!.region,
-      accessKeyId: config.s3!.accessKeyId,
-      secretAccessKey: config.s3!.secretAccessKey,
-      endpoint: config.s3!.endpoint,
-      forcePathStyle: config.s3!.forcePathStyle,
-      prefix: config.s3!.prefix,
-      timeout: config.s3!.timeout,
-      maxRetries: config.s3!.maxRetries,
-      debug: config.common.debug,
-      logger: config.common.logger,
-    };
-
-    return new S3Adapter(adapterConfig);
+  static registerAdapter<T extends AdapterConfig>(
+    type: string,
+    factory: AdapterFactory<T>,
+    configValidator: AdapterConfigValidator<T>,
+    options?: { override?: boolean },
+  ): void {
+    registerAdapter(type, factory, configValidator, options);
   }
 
   /**
    * Create filesystem wrapper around adapter
    */
-  private static createFilesystemWrapper(adapter: BaseAdapter): Filesystem {
+  private static createFilesystemWrapper(adapter: ResilientAdapter): Filesystem {
     // The adapter already implements the Filesystem interface,
     // but we wrap it to add additional functionality if needed
     return {
@@ -103,11 +125,15 @@ export class FilesystemFactory {
       writeFile: adapter.writeFile.bind(adapter),
       appendFile: adapter.appendFile.bind(adapter),
       unlink: adapter.unlink.bind(adapter),
+      removeMany: adapter.removeMany.bind(adapter),
       copyFile: adapter.copyFile.bind(adapter),
       rename: adapter.rename.bind(adapter),
+      lock: adapter.lock.bind(adapter),
 
       // Directory operations
       readdir: adapter.readdir.bind(adapter),
+      readdirPaged: adapter.readdirPaged.bind(adapter),
+      readdirIterator: adapter.readdirIterator.bind(adapter),
       mkdir: adapter.mkdir.bind(adapter),
       rmdir: adapter.rmdir.bind(adapter),
 
@@ -115,6 +141,8 @@ export class FilesystemFactory {
       stat: adapter.stat.bind(adapter),
       lstat: adapter.lstat.bind(adapter),
       access: adapter.access.bind(adapter),
+      getFileMetadata: adapter.getFileMetadata.bind(adapter),
+      setFileMetadata: adapter.setFileMetadata.bind(adapter),
 
       // Stream operations
       createReadStream: adapter.createReadStream.bind(adapter),
@@ -123,6 +151,21 @@ export class FilesystemFactory {
       // Utility methods
       exists: adapter.exists.bind(adapter),
       realpath: adapter.realpath.bind(adapter),
+      getSignedUrl: adapter.getSignedUrl.bind(adapter),
+
+      // Traversal operations
+      walk: adapter.walk.bind(adapter),
+      glob: adapter.glob.bind(adapter),
+
+      // Change watching
+      watch: adapter.watch.bind(adapter),
+
+      // Backend information
+      getMetadata: adapter.getMetadata.bind(adapter),
+
+      // Call-level options
+      withOptions: options =>
+        FilesystemFactory.createFilesystemWrapper(adapter.withOptions(options)),
     };
   }
 }
@@ -140,26 +183,34 @@ export function createFilesystem(config: FilesystemConfig): Filesystem {
  * Create filesystem instance from environment variables
  *
  * Reads configuration from environment variables:
- * - FILESYSTEM_TYPE: 'local' or 's3'
- * - For local: FILESYSTEM_LOCAL_BASE_PATH, FILESYSTEM_LOCAL_CREATE_MISSING_DIRS
+ * - FILESYSTEM_TYPE: 'local', 's3', 'memory' or another registered adapter type, which
+ *   receives no configuration section
+ * - For local: FILESYSTEM_LOCAL_BASE_PATH, FILESYSTEM_LOCAL_CREATE_MISSING_DIRS,
+ *   FILESYSTEM_LOCAL_ATOMIC_WRITES, FILESYSTEM_LOCAL_SIGNED_URL_SECRET together with
+ *   FILESYSTEM_LOCAL_SIGNED_URL_BASE
  * - For S3: FILESYSTEM_S3_BUCKET, FILESYSTEM_S3_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, etc.
+ *   Encryption: FILESYSTEM_S3_SSE ("AES256" or "aws:kms"), FILESYSTEM_S3_SSE_KMS_KEY_ID,
+ *   FILESYSTEM_S3_SSE_CUSTOMER_KEY
+ * - For memory: FILESYSTEM_MEMORY_CREATE_MISSING_DIRS
  * - Common: FILESYSTEM_TIMEOUT, FILESYSTEM_MAX_RETRIES, FILESYSTEM_DEBUG
+ * - Encryption: FILESYSTEM_ENCRYPTION_KEY (base64 master key), FILESYSTEM_ENCRYPT_FILE_NAMES
  *
  * @throws {ValidationError} if environment variables are invalid or incomplete
  */
 export function createFilesystemFromEnv(): Filesystem {
   // Simple environment variable parsing
-  const type = process.env.FILESYSTEM_TYPE as "local" | "s3";
+  const type = process.env.FILESYSTEM_TYPE;
 
-  if (!type || (type !== "local" && type !== "s3")) {
+  if (!type || !getAdapterRegistration(type)) {
     throw new ValidationError(
       "Cannot create filesystem from environment variables. " +
-        'Set FILESYSTEM_TYPE to "local" or "s3" and provide required configuration.',
+        `Set FILESYSTEM_TYPE to a registered adapter type (${getRegisteredAdapterTypes().join(", ")}) ` +
+        "and provide required configuration.",
     );
   }
 
   const config: FilesystemConfig = {
-    type,
+    type: type as AdapterType,
     common: {
       timeout: process.env.FILESYSTEM_TIMEOUT
         ? parseInt(process.env.FILESYSTEM_TIMEOUT)
@@ -169,14 +220,31 @@ export function createFilesystemFromEnv(): Filesystem {
         : undefined,
       debug: process.env.FILESYSTEM_DEBUG === "true",
     },
+    encryption: process.env.FILESYSTEM_ENCRYPTION_KEY
+      ? {
+          masterKey: process.env.FILESYSTEM_ENCRYPTION_KEY,
+          encryptFileNames: process.env.FILESYSTEM_ENCRYPT_FILE_NAMES === "true",
+        }
+      : undefined,
   };
 
   if (type === "local") {
     config.local = {
       basePath: process.env.FILESYSTEM_LOCAL_BASE_PATH,
       createMissingDirs: process.env.FILESYSTEM_LOCAL_CREATE_MISSING_DIRS === "true",
+      atomicWrites: process.env.FILESYSTEM_LOCAL_ATOMIC_WRITES === "true",
+      signedUrls: process.env.FILESYSTEM_LOCAL_SIGNED_URL_SECRET
+        ? {
+            secret: process.env.FILESYSTEM_LOCAL_SIGNED_URL_SECRET,
+            baseUrl: process.env.FILESYSTEM_LOCAL_SIGNED_URL_BASE || "",
+          }
+        : undefined,
+    };
+  } else if (type === "memory") {
+    config.memory = {
+      createMissingDirs: process.env.FILESYSTEM_MEMORY_CREATE_MISSING_DIRS === "true",
     };
-  } else {
+  } else if (type === "s3") {
     config.s3 = {
       bucket: process.env.FILESYSTEM_S3_BUCKET || "",
       region: process.env.FILESYSTEM_S3_REGION || "",
@@ -185,6 +253,9 @@ export function createFilesystemFromEnv(): Filesystem {
       endpoint: process.env.FILESYSTEM_S3_ENDPOINT,
       forcePathStyle: process.env.FILESYSTEM_S3_FORCE_PATH_STYLE === "true",
       prefix: process.env.FILESYSTEM_S3_PREFIX,
+      serverSideEncryption: process.env.FILESYSTEM_S3_SSE as S3ServerSideEncryption | undefined,
+      sseKmsKeyId: process.env.FILESYSTEM_S3_SSE_KMS_KEY_ID,
+      sseCustomerKey: process.env.FILESYSTEM_S3_SSE_CUSTOMER_KEY,
     };
   }
 
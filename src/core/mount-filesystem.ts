@@ -0,0 +1,771 @@
+/**
+ * Mount Filesystem
+ *
+ * Composes several adapters into a single filesystem by routing paths to the
+ * adapter mounted at the longest matching path prefix, e.g.
+ * `/cache` → local, `/uploads` → S3, `/tmp` → memory.
+ */
+
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+
+import {
+  AdapterMetadata,
+  BaseAdapter,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../interfaces/adapter.interface";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  GlobOptions,
+  LockHandle,
+  LockOptions,
+  ReaddirIteratorOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import {
+  AlreadyExistsError,
+  BatchFailure,
+  BatchOperationError,
+  FileNotFoundError,
+  IsDirectoryError,
+  PermissionError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+import { mapError } from "../utils/error-mapper";
+import { isExclusive } from "../utils/write-utils";
+import { resolveFileMetadata } from "../utils/metadata-utils";
+import { normalizePath } from "../utils/path-utils";
+import { globWithWalk } from "../utils/glob-utils";
+import {
+  createDirectoryEntry,
+  iterateReaddirPages,
+  paginateEntries,
+  walkDirectory,
+} from "../utils/walk-utils";
+import { mapWatcher } from "../utils/watch-utils";
+
+/**
+ * A mounted adapter
+ */
+export interface MountPoint {
+  /** Mount point path (e.g. "/uploads") */
+  path: string;
+  /** Adapter serving all paths below the mount point */
+  adapter: BaseAdapter;
+}
+
+/**
+ * Internal mount table entry
+ */
+interface MountEntry extends MountPoint {
+  /** Normalized mount point ("." for the root mount) */
+  key: string;
+}
+
+/**
+ * A path resolved to the adapter that serves it
+ */
+interface ResolvedPath {
+  mount: MountEntry;
+  /** Path relative to the adapter root */
+  innerPath: string;
+}
+
+const ROOT_KEY = ".";
+
+/**
+ * Filesystem that routes each path to the adapter mounted at its longest
+ * matching prefix
+ *
+ * Directories that only exist because a mount point lies below them (such as
+ * `/` when only `/cache` is mounted) are reported as virtual directories, and
+ * `readdir` of a parent lists its mount points alongside the adapter entries.
+ */
+export class MountFilesystem implements BaseAdapter {
+  private mounts: MountEntry[] = [];
+  private readonly createdAt = new Date();
+
+  constructor(mounts: Record<string, BaseAdapter> = {}) {
+    for (const [mountPoint, adapter] of Object.entries(mounts)) {
+      this.mount(mountPoint, adapter);
+    }
+  }
+
+  /**
+   * Mount an adapter at a path prefix
+   *
+   * @throws {ValidationError} if something is already mounted at that path
+   */
+  mount(mountPoint: string, adapter: BaseAdapter): void {
+    const key = this.toKey(mountPoint);
+
+    if (this.mounts.some(entry => entry.key === key)) {
+      throw new ValidationError(`A filesystem is already mounted at ${mountPoint}`);
+    }
+
+    this.mounts.push({ key, path: this.toMountPath(key), adapter });
+    // Longest prefix first so nested mounts win over their parents
+    this.mounts.sort((a, b) => this.depth(b.key) - this.depth(a.key));
+  }
+
+  /**
+   * Remove the adapter mounted at a path
+   *
+   * @returns true if an adapter was mounted there
+   */
+  unmount(mountPoint: string): boolean {
+    const key = this.toKey(mountPoint);
+    const index = this.mounts.findIndex(entry => entry.key === key);
+
+    if (index === -1) {
+      return false;
+    }
+
+    this.mounts.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * List the current mount table
+   */
+  getMounts(): MountPoint[] {
+    return this.mounts.map(({ path, adapter }) => ({ path, adapter }));
+  }
+
+  /**
+   * Normalize a path to a mount table key, rejecting paths above the root
+   */
+  private toKey(filePath: string): string {
+    const normalized = normalizePath(filePath);
+
+    if (normalized === ".." || normalized.startsWith("../")) {
+      throw new PermissionError(filePath, "access", {
+        cause: new Error("Path traversal attempt detected"),
+      });
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Convert a key back to an absolute path
+   */
+  private toMountPath(key: string): string {
+    return key === ROOT_KEY ? "/" : `/${key}`;
+  }
+
+  /**
+   * Number of segments in a key (the root has depth 0)
+   */
+  private depth(key: string): number {
+    return key === ROOT_KEY ? 0 : key.split("/").length;
+  }
+
+  /**
+   * Whether a key lies at or below a mount key
+   */
+  private isWithin(key: string, mountKey: string): boolean {
+    return mountKey === ROOT_KEY || key === mountKey || key.startsWith(`${mountKey}/`);
+  }
+
+  /**
+   * Find the adapter serving a path
+   */
+  private resolve(filePath: string): ResolvedPath | undefined {
+    const key = this.toKey(filePath);
+    const mount = this.mounts.find(entry => this.isWithin(key, entry.key));
+
+    if (!mount) {
+      return undefined;
+    }
+
+    const relative =
+      mount.key === ROOT_KEY ? key : key === mount.key ? "" : key.substring(mount.key.length + 1);
+
+    return { mount, innerPath: relative === "" || relative === ROOT_KEY ? "/" : `/${relative}` };
+  }
+
+  /**
+   * Find the adapter serving a path, failing if no adapter is mounted there
+   */
+  private require(filePath: string): ResolvedPath {
+    const resolved = this.resolve(filePath);
+
+    if (!resolved) {
+      throw new FileNotFoundError(filePath, {
+        cause: new Error("No filesystem is mounted at this path"),
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Names of the entries directly below a key that lead to mount points
+   */
+  private childMountNames(key: string): string[] {
+    const names = new Set<string>();
+
+    for (const entry of this.mounts) {
+      if (entry.key === key || entry.key === ROOT_KEY || !this.isWithin(entry.key, key)) {
+        continue;
+      }
+      const remainder = key === ROOT_KEY ? entry.key : entry.key.substring(key.length + 1);
+      names.add(remainder.split("/")[0]);
+    }
+
+    return [...names];
+  }
+
+  /**
+   * Mounts strictly below a key
+   */
+  private nestedMounts(key: string): MountEntry[] {
+    return this.mounts.filter(entry => entry.key !== key && this.isWithin(entry.key, key));
+  }
+
+  /**
+   * Whether a key is a mount point or an ancestor of one
+   */
+  private isVirtualDirectory(key: string): boolean {
+    return this.mounts.some(entry => entry.key === key) || this.childMountNames(key).length > 0;
+  }
+
+  /**
+   * Read entire file contents
+   */
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    const { mount, innerPath } = this.require(filePath);
+    return encoding
+      ? mount.adapter.readFile(innerPath, encoding)
+      : mount.adapter.readFile(innerPath);
+  }
+
+  /**
+   * Write data to file
+   */
+  async writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void> {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.writeFile(innerPath, data, options);
+  }
+
+  /**
+   * Append data to file
+   */
+  async appendFile(
+    filePath: string,
+    data: string | Buffer,
+    encoding?: BufferEncoding,
+  ): Promise<void> {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.appendFile(innerPath, data, encoding);
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.unlink(innerPath, options);
+  }
+
+  /**
+   * Delete many files, ignoring paths that do not exist
+   *
+   * Paths are grouped by mount so each adapter deletes its share in bulk.
+   *
+   * @throws {BatchOperationError} listing every path that could not be deleted
+   */
+  async removeMany(paths: string[], options?: RemoveManyOptions): Promise<void> {
+    const groups = new Map<MountEntry, Map<string, string>>();
+
+    for (const filePath of new Set(paths)) {
+      const resolved = this.resolve(filePath);
+      if (!resolved) {
+        continue;
+      }
+      const group = groups.get(resolved.mount) ?? new Map<string, string>();
+      group.set(resolved.innerPath, filePath);
+      groups.set(resolved.mount, group);
+    }
+
+    const failures: BatchFailure[] = [];
+    let total = 0;
+
+    for (const [mount, group] of groups) {
+      total += group.size;
+      try {
+        await mount.adapter.removeMany([...group.keys()], options);
+      } catch (error) {
+        if (error instanceof BatchOperationError) {
+          failures.push(
+            ...error.failures.map(failure => ({
+              path: group.get(failure.path) ?? failure.path,
+              error: failure.error,
+            })),
+          );
+        } else {
+          const mapped = mapError(error, { backend: "mount", operation: "removeMany" });
+          failures.push(...[...group.values()].map(path => ({ path, error: mapped })));
+        }
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new BatchOperationError("removeMany", failures, total);
+    }
+  }
+
+  /**
+   * Copy file from source to destination
+   *
+   * Copies within one mount use the adapter's native copy; copies across mounts
+   * stream the content from the source adapter into the destination adapter.
+   * Across mounts, `overwrite: false` checks the destination before streaming,
+   * so unlike the native copies it does not exclude concurrent writers.
+   */
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    const source = this.require(src);
+    const destination = this.require(dest);
+
+    if (source.mount === destination.mount) {
+      return source.mount.adapter.copyFile(source.innerPath, destination.innerPath, options);
+    }
+
+    await this.streamAcrossMounts(
+      source,
+      destination,
+      src,
+      dest,
+      "copyFile",
+      isExclusive(options),
+      resolveFileMetadata(options),
+    );
+  }
+
+  /**
+   * Rename or move a file
+   *
+   * Moves across mounts stream the file to the destination and then delete the
+   * source, so they are not atomic. Directories cannot be moved across mounts.
+   */
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
+    const source = this.require(oldPath);
+    const destination = this.require(newPath);
+
+    if (source.mount === destination.mount) {
+      return source.mount.adapter.rename(source.innerPath, destination.innerPath, options);
+    }
+
+    await this.streamAcrossMounts(
+      source,
+      destination,
+      oldPath,
+      newPath,
+      "rename",
+      isExclusive(options),
+    );
+    await source.mount.adapter.unlink(source.innerPath);
+  }
+
+  /**
+   * Acquire an advisory lock on a path with the backend of its mount
+   */
+  async lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    const { mount, innerPath } = this.require(filePath);
+    const handle = await mount.adapter.lock(innerPath, options);
+    return { path: filePath, expiresAt: handle.expiresAt, release: () => handle.release() };
+  }
+
+  /**
+   * Stream a file from one mount to another
+   *
+   * The destination gets the given metadata, or else the source's metadata.
+   *
+   * @throws {AlreadyExistsError} if `exclusive` is set and the destination exists
+   */
+  private async streamAcrossMounts(
+    source: ResolvedPath,
+    destination: ResolvedPath,
+    srcPath: string,
+    destPath: string,
+    operation: string,
+    exclusive: boolean,
+    metadata?: FileMetadata,
+  ): Promise<void> {
+    const stats = await source.mount.adapter.stat(source.innerPath);
+    if (stats.isDirectory()) {
+      throw new IsDirectoryError(srcPath, {
+        operation,
+        backend: "mount",
+        cause: new Error(`Cannot ${operation} a directory across mounts`),
+      });
+    }
+    if (exclusive && (await destination.mount.adapter.exists(destination.innerPath))) {
+      throw new AlreadyExistsError(destPath, { operation, backend: "mount" });
+    }
+
+    try {
+      const fileMetadata =
+        metadata ?? (await source.mount.adapter.getFileMetadata(source.innerPath));
+      await pipeline(
+        source.mount.adapter.createReadStream(source.innerPath),
+        destination.mount.adapter.createWriteStream(destination.innerPath, fileMetadata),
+      );
+    } catch (error) {
+      throw mapError(error, { backend: "mount", path: srcPath, operation });
+    }
+  }
+
+  /**
+   * Read directory contents, including mount points directly below the directory
+   */
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    const key = this.toKey(dirPath);
+    const resolved = this.resolve(dirPath);
+    const mountNames = this.childMountNames(key);
+    let entries: DirectoryEntry[] = [];
+
+    if (resolved) {
+      try {
+        entries = await resolved.mount.adapter.readdir(resolved.innerPath, {
+          withFileTypes: true,
+        });
+      } catch (error) {
+        // A directory that only holds mount points need not exist in the parent adapter
+        if (!(error instanceof FileNotFoundError) || !this.isVirtualDirectory(key)) {
+          throw error;
+        }
+      }
+    } else if (mountNames.length === 0) {
+      throw new FileNotFoundError(dirPath, {
+        cause: new Error("No filesystem is mounted at this path"),
+      });
+    }
+
+    // Mount points shadow entries of the same name in the parent adapter
+    const merged = [
+      ...entries.filter(entry => !mountNames.includes(entry.name)),
+      ...mountNames.map(name => createDirectoryEntry(name, "directory")),
+    ];
+
+    return options?.withFileTypes ? merged : merged.map(entry => entry.name);
+  }
+
+  /**
+   * Read one page of directory contents
+   *
+   * Directories without mount points below them are paged by their adapter;
+   * otherwise the merged listing is paged by name.
+   */
+  async readdirPaged(dirPath: string, options?: ReaddirPageOptions): Promise<ReaddirPage> {
+    const resolved = this.resolve(dirPath);
+
+    if (resolved && this.childMountNames(this.toKey(dirPath)).length === 0) {
+      return resolved.mount.adapter.readdirPaged(resolved.innerPath, options);
+    }
+
+    return paginateEntries(await this.readdir(dirPath), options);
+  }
+
+  /**
+   * Iterate over directory contents, fetching one page at a time
+   */
+  readdirIterator(
+    dirPath: string,
+    options?: ReaddirIteratorOptions,
+  ): AsyncIterableIterator<string> {
+    return iterateReaddirPages(this, dirPath, options);
+  }
+
+  /**
+   * Create directory
+   */
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    const key = this.toKey(dirPath);
+    const mountPoint = this.mounts.find(entry => entry.key === key);
+
+    if (mountPoint || (!this.resolve(dirPath) && this.isVirtualDirectory(key))) {
+      if (!options?.recursive) {
+        throw new AlreadyExistsError(dirPath, { operation: "mkdir", backend: "mount" });
+      }
+      // Make sure the adapter root exists (e.g. a local base path)
+      return mountPoint?.adapter.mkdir("/", { recursive: true });
+    }
+
+    const { mount, innerPath } = this.require(dirPath);
+    return mount.adapter.mkdir(innerPath, options);
+  }
+
+  /**
+   * Remove directory
+   *
+   * Mount points are never removed. A recursive removal of a directory that
+   * contains mount points empties every mount below it.
+   */
+  async rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    const key = this.toKey(dirPath);
+
+    if (!this.isVirtualDirectory(key)) {
+      const { mount, innerPath } = this.require(dirPath);
+      return mount.adapter.rmdir(innerPath, options);
+    }
+
+    if (!options?.recursive) {
+      throw new PermissionError(dirPath, "rmdir", {
+        cause: new Error("Directory is or contains a mount point"),
+      });
+    }
+
+    const resolved = this.resolve(dirPath);
+    if (resolved) {
+      await resolved.mount.adapter.rmdir(resolved.innerPath, options);
+    }
+    for (const nested of this.nestedMounts(key)) {
+      await nested.adapter.rmdir("/", { recursive: true });
+    }
+  }
+
+  /**
+   * Get file/directory statistics
+   */
+  async stat(filePath: string): Promise<FileStats> {
+    return this.statWith(filePath, (adapter, innerPath) => adapter.stat(innerPath));
+  }
+
+  /**
+   * Get symbolic link statistics
+   */
+  async lstat(filePath: string): Promise<FileStats> {
+    return this.statWith(filePath, (adapter, innerPath) => adapter.lstat(innerPath));
+  }
+
+  /**
+   * Stat a path, falling back to virtual directory stats for mount points
+   */
+  private async statWith(
+    filePath: string,
+    statFn: (adapter: BaseAdapter, innerPath: string) => Promise<FileStats>,
+  ): Promise<FileStats> {
+    const key = this.toKey(filePath);
+    const resolved = this.resolve(filePath);
+
+    if (resolved) {
+      try {
+        return await statFn(resolved.mount.adapter, resolved.innerPath);
+      } catch (error) {
+        if (!this.isVirtualDirectory(key)) {
+          throw error;
+        }
+      }
+    }
+
+    if (this.isVirtualDirectory(key)) {
+      return this.virtualDirectoryStats();
+    }
+
+    throw new FileNotFoundError(filePath);
+  }
+
+  /**
+   * Check file accessibility
+   */
+  async access(filePath: string, mode?: number): Promise<void> {
+    if (this.isVirtualDirectory(this.toKey(filePath))) {
+      return;
+    }
+
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.access(innerPath, mode);
+  }
+
+  /**
+   * Get the content headers and user metadata of a file
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.getFileMetadata(innerPath);
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.setFileMetadata(innerPath, metadata);
+  }
+
+  /**
+   * Create readable stream for file
+   */
+  createReadStream(filePath: string, options?: ReadStreamOptions): Readable {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.createReadStream(innerPath, options);
+  }
+
+  /**
+   * Create writable stream for file
+   */
+  createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.createWriteStream(innerPath, options);
+  }
+
+  /**
+   * Check if file/directory exists
+   */
+  async exists(filePath: string): Promise<boolean> {
+    if (this.isVirtualDirectory(this.toKey(filePath))) {
+      return true;
+    }
+
+    const resolved = this.resolve(filePath);
+    return resolved ? resolved.mount.adapter.exists(resolved.innerPath) : false;
+  }
+
+  /**
+   * Resolve symbolic links and relative paths
+   */
+  async realpath(filePath: string): Promise<string> {
+    const key = this.toKey(filePath);
+    const resolved = this.resolve(filePath);
+
+    if (!resolved) {
+      if (this.isVirtualDirectory(key)) {
+        return key;
+      }
+      throw new FileNotFoundError(filePath);
+    }
+
+    const innerReal = await resolved.mount.adapter.realpath(resolved.innerPath);
+    return resolved.mount.key === ROOT_KEY
+      ? normalizePath(innerReal)
+      : normalizePath(`${resolved.mount.key}/${innerReal}`);
+  }
+
+  /**
+   * Create a URL granting direct access to a file of a mounted filesystem
+   */
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    const { mount, innerPath } = this.require(filePath);
+    return mount.adapter.getSignedUrl(innerPath, options);
+  }
+
+  /**
+   * Recursively walk a directory tree
+   */
+  walk(dirPath: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+    return walkDirectory(this, dirPath, options);
+  }
+
+  /**
+   * Watch a directory of the filesystem mounted at it
+   *
+   * Changes are reported from the adapter serving the directory only; paths
+   * below a nested mount point are not reported.
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    const { mount, innerPath } = this.require(dirPath);
+
+    return mapWatcher(mount.adapter.watch(innerPath, options), event => {
+      const eventPath =
+        mount.key === ROOT_KEY
+          ? event.path
+          : `/${mount.key}${event.path === "/" ? "" : event.path}`;
+      return this.resolve(eventPath)?.mount === mount ? { ...event, path: eventPath } : undefined;
+    });
+  }
+
+  /**
+   * Find paths matching a glob pattern
+   */
+  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+    return globWithWalk(this, pattern, options);
+  }
+
+  /**
+   * Get combined metadata: a capability is only reported if every mount has it
+   */
+  getMetadata(): AdapterMetadata {
+    const metadata = this.mounts.map(entry => entry.adapter.getMetadata());
+    const all = (pick: (item: AdapterMetadata) => boolean) => metadata.every(pick);
+    const limits = metadata.map(item => item.capabilities.maxFileSize).filter(size => size > 0);
+
+    return {
+      name: "mount",
+      version: "1.0.0",
+      capabilities: {
+        streaming: all(item => item.capabilities.streaming),
+        symbolicLinks: all(item => item.capabilities.symbolicLinks),
+        permissions: all(item => item.capabilities.permissions),
+        directories: all(item => item.capabilities.directories),
+        realDirectories: all(item => item.capabilities.realDirectories),
+        atomicRename: all(item => item.capabilities.atomicRename),
+        maxFileSize: limits.length > 0 ? Math.min(...limits) : 0,
+        networkBased: metadata.some(item => item.capabilities.networkBased),
+      },
+      isAvailable: all(item => item.isAvailable),
+    };
+  }
+
+  /**
+   * Stats reported for mount points and directories that only contain mount points
+   */
+  private virtualDirectoryStats(): FileStats {
+    const time = this.createdAt;
+
+    return {
+      // Type checks
+      isFile: () => false,
+      isDirectory: () => true,
+      isBlockDevice: () => false,
+      isCharacterDevice: () => false,
+      isSymbolicLink: () => false,
+      isFIFO: () => false,
+      isSocket: () => false,
+
+      // Properties
+      dev: 0,
+      ino: 0,
+      mode: 0o040755,
+      nlink: 1,
+      uid: 0,
+      gid: 0,
+      rdev: 0,
+      size: 0,
+      blksize: 4096,
+      blocks: 0,
+      atimeMs: time.getTime(),
+      mtimeMs: time.getTime(),
+      ctimeMs: time.getTime(),
+      birthtimeMs: time.getTime(),
+      atime: new Date(time),
+      mtime: new Date(time),
+      ctime: new Date(time),
+      birthtime: new Date(time),
+    };
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Resilient Adapter
+ *
+ * Cross-cutting retry and timeout layer wrapped around every adapter created by
+ * the filesystem factory. Each operation attempt is bounded by a timeout,
+ * retryable failures are retried with exponential backoff, and operations can
+ * be cancelled with an AbortSignal.
+ */
+
+import { Readable, Writable } from "stream";
+
+import {
+  AdapterMetadata,
+  BaseAdapter,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../interfaces/adapter.interface";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  GlobOptions,
+  LockHandle,
+  LockOptions,
+  OperationOptions,
+  ReaddirIteratorOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  SignedUrlOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "../interfaces/filesystem.interface";
+import { CommonConfig, FilesystemOperation, OperationPolicies } from "../types/config";
+import { AbortError, TimeoutError } from "../errors/filesystem-errors";
+import { isRetryableError, mapError, withRetry } from "../utils/error-mapper";
+import { iterateReaddirPages } from "../utils/walk-utils";
+
+/**
+ * Operations that only read, and so may be retried after a timed-out attempt
+ *
+ * A timed-out attempt is not interrupted and may still complete. Starting a
+ * modifying operation again while it runs could apply it twice (appends,
+ * renames, conditional writes) or let both attempts write at the same time.
+ */
+const READ_ONLY_OPERATIONS: ReadonlySet<FilesystemOperation> = new Set<FilesystemOperation>([
+  "readFile",
+  "readdir",
+  "readdirPaged",
+  "stat",
+  "lstat",
+  "access",
+  "getFileMetadata",
+  "exists",
+  "realpath",
+  "getSignedUrl",
+  "glob",
+]);
+
+/**
+ * Retry and timeout configuration of a resilient adapter
+ */
+export interface ResilienceOptions {
+  /** Default timeout per attempt in milliseconds (0 disables the timeout) */
+  timeout: number;
+  /** Default number of retries after the first attempt */
+  maxRetries: number;
+  /** Per-operation overrides of the defaults */
+  operations?: OperationPolicies;
+  /** Receives retry and failure events */
+  logger?: CommonConfig["logger"];
+}
+
+/**
+ * Adapter wrapper applying timeouts, retries and cancellation to every operation
+ *
+ * Promise-based operations are retried as a whole; operations that modify the
+ * filesystem are not retried after a timeout. Streams, `walk()` and
+ * `watch()` are passed through unchanged because they cannot be replayed; `readdirIterator()`
+ * fetches each page through the retrying `readdirPaged()`.
+ */
+export class ResilientAdapter implements BaseAdapter {
+  private readonly logger: NonNullable<CommonConfig["logger"]>;
+
+  constructor(
+    private readonly adapter: BaseAdapter,
+    private readonly options: ResilienceOptions,
+    private readonly overrides: OperationOptions = {},
+  ) {
+    this.logger = options.logger ?? (() => {});
+  }
+
+  /**
+   * Create a view of this adapter with call-level options
+   *
+   * Timeout and retry values given here take precedence over the per-operation
+   * policies; the signal cancels every operation started through the view.
+   */
+  withOptions(overrides: OperationOptions): ResilientAdapter {
+    return new ResilientAdapter(this.adapter, this.options, { ...this.overrides, ...overrides });
+  }
+
+  /**
+   * Resolve the timeout and retry count of an operation
+   */
+  private policyFor(operation: FilesystemOperation): { timeout: number; maxRetries: number } {
+    const policy = this.options.operations?.[operation];
+
+    return {
+      timeout: this.overrides.timeout ?? policy?.timeout ?? this.options.timeout,
+      maxRetries: this.overrides.maxRetries ?? policy?.maxRetries ?? this.options.maxRetries,
+    };
+  }
+
+  /**
+   * Run an operation with timeout, retries and cancellation
+   *
+   * Failures leave as filesystem errors carrying the operation, path and backend.
+   */
+  private async run<T>(
+    operation: FilesystemOperation,
+    target: string | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const { timeout, maxRetries } = this.policyFor(operation);
+    const signal = this.overrides.signal;
+    let attempts = 0;
+
+    try {
+      return await withRetry(
+        () => {
+          attempts++;
+          return this.attempt(operation, timeout, signal, fn);
+        },
+        {
+          maxRetries,
+          signal,
+          isRetryable: error =>
+            isRetryableError(error) &&
+            (READ_ONLY_OPERATIONS.has(operation) || !(error instanceof TimeoutError)),
+          onRetry: (error, attempt, delay) => {
+            this.logger("warn", `${operation} failed, retrying`, {
+              operation,
+              path: target,
+              attempt,
+              maxRetries,
+              delay,
+              error,
+            });
+          },
+        },
+      );
+    } catch (error) {
+      const context = { path: target, operation, backend: this.adapter.getMetadata().name };
+      if (signal?.aborted && !(error instanceof AbortError)) {
+        throw new AbortError(operation, {
+          ...context,
+          cause: error instanceof Error ? error : undefined,
+        });
+      }
+      if (attempts > 1) {
+        this.logger("error", `${operation} failed after ${attempts} attempts`, {
+          operation,
+          path: target,
+          attempts,
+          error,
+        });
+      }
+      throw mapError(error, context);
+    }
+  }
+
+  /**
+   * Run a single attempt, rejecting when it times out or the signal aborts
+   *
+   * The underlying call is not interrupted (local filesystem calls cannot be),
+   * but its result is ignored once the attempt has been rejected. For this
+   * reason only read-only operations are retried after a timeout.
+   */
+  private attempt<T>(
+    operation: FilesystemOperation,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError(operation));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const timer =
+        timeout > 0
+          ? setTimeout(() => reject(new TimeoutError(operation, timeout)), timeout)
+          : undefined;
+      const onAbort = () => reject(new AbortError(operation));
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      fn()
+        .then(resolve, reject)
+        .finally(() => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+        });
+    });
+  }
+
+  /**
+   * Read entire file contents
+   */
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    return this.run("readFile", filePath, () =>
+      encoding ? this.adapter.readFile(filePath, encoding) : this.adapter.readFile(filePath),
+    );
+  }
+
+  /**
+   * Write data to file
+   */
+  async writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void> {
+    return this.run("writeFile", filePath, () => this.adapter.writeFile(filePath, data, options));
+  }
+
+  /**
+   * Append data to file
+   */
+  async appendFile(
+    filePath: string,
+    data: string | Buffer,
+    encoding?: BufferEncoding,
+  ): Promise<void> {
+    return this.run("appendFile", filePath, () =>
+      this.adapter.appendFile(filePath, data, encoding),
+    );
+  }
+
+  /**
+   * Delete a file
+   */
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
+    return this.run("unlink", filePath, () => this.adapter.unlink(filePath, options));
+  }
+
+  /**
+   * Delete many files, ignoring paths that do not exist
+   */
+  async removeMany(paths: string[], options?: RemoveManyOptions): Promise<void> {
+    return this.run("removeMany", undefined, () => this.adapter.removeMany(paths, options));
+  }
+
+  /**
+   * Copy file from source to destination
+   */
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    return this.run("copyFile", src, () => this.adapter.copyFile(src, dest, options));
+  }
+
+  /**
+   * Rename or move a file
+   */
+  async rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void> {
+    return this.run("rename", oldPath, () => this.adapter.rename(oldPath, newPath, options));
+  }
+
+  /**
+   * Acquire an advisory lock
+   *
+   * Not retried or bounded by the timeout: how long to wait for a held lock
+   * is controlled by the `wait` option.
+   */
+  lock(filePath: string, options?: LockOptions): Promise<LockHandle> {
+    return this.adapter.lock(filePath, options);
+  }
+
+  /**
+   * Read directory contents
+   */
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    return this.run("readdir", dirPath, () => this.adapter.readdir(dirPath, options));
+  }
+
+  /**
+   * Read one page of directory contents
+   */
+  async readdirPaged(dirPath: string, options?: ReaddirPageOptions): Promise<ReaddirPage> {
+    return this.run("readdirPaged", dirPath, () => this.adapter.readdirPaged(dirPath, options));
+  }
+
+  /**
+   * Iterate over directory contents, retrying each page
+   */
+  readdirIterator(
+    dirPath: string,
+    options?: ReaddirIteratorOptions,
+  ): AsyncIterableIterator<string> {
+    return iterateReaddirPages(this, dirPath, options);
+  }
+
+  /**
+   * Create directory
+   */
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.run("mkdir", dirPath, () => this.adapter.mkdir(dirPath, options));
+  }
+
+  /**
+   * Remove directory
+   */
+  async rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.run("rmdir", dirPath, () => this.adapter.rmdir(dirPath, options));
+  }
+
+  /**
+   * Get file/directory statistics
+   */
+  async stat(filePath: string): Promise<FileStats> {
+    return this.run("stat", filePath, () => this.adapter.stat(filePath));
+  }
+
+  /**
+   * Get symbolic link statistics
+   */
+  async lstat(filePath: string): Promise<FileStats> {
+    return this.run("lstat", filePath, () => this.adapter.lstat(filePath));
+  }
+
+  /**
+   * Check file accessibility
+   */
+  async access(filePath: string, mode?: number): Promise<void> {
+    return this.run("access", filePath, () => this.adapter.access(filePath, mode));
+  }
+
+  /**
+   * Get the content headers and user metadata of a file
+   */
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    return this.run("getFileMetadata", filePath, () => this.adapter.getFileMetadata(filePath));
+  }
+
+  /**
+   * Replace the content headers and user metadata of a file
+   */
+  async setFileMetadata(filePath: string, metadata: FileMetadata): Promise<void> {
+    return this.run("setFileMetadata", filePath, () =>
+      this.adapter.setFileMetadata(filePath, metadata),
+    );
+  }
+
+  /**
+   * Create readable stream for file
+   */
+  createReadStream(filePath: string, options?: ReadStreamOptions): Readable {
+    return this.adapter.createReadStream(filePath, options);
+  }
+
+  /**
+   * Create writable stream for file
+   */
+  createWriteStream(filePath: string, options?: WriteStreamOptions): Writable {
+    return this.adapter.createWriteStream(filePath, options);
+  }
+
+  /**
+   * Check if file/directory exists
+   */
+  async exists(filePath: string): Promise<boolean> {
+    return this.run("exists", filePath, () => this.adapter.exists(filePath));
+  }
+
+  /**
+   * Resolve symbolic links and relative paths
+   */
+  async realpath(filePath: string): Promise<string> {
+    return this.run("realpath", filePath, () => this.adapter.realpath(filePath));
+  }
+
+  /**
+   * Create a URL granting direct access to a file
+   */
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    return this.run("getSignedUrl", filePath, () => this.adapter.getSignedUrl(filePath, options));
+  }
+
+  /**
+   * Recursively walk a directory tree
+   */
+  walk(dirPath: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+    return this.adapter.walk(dirPath, options);
+  }
+
+  /**
+   * Find paths matching a glob pattern
+   */
+  async glob(pattern: string, options?: GlobOptions): Promise<string[]> {
+    return this.run("glob", options?.cwd, () => this.adapter.glob(pattern, options));
+  }
+
+  /**
+   * Watch a directory for changes
+   */
+  watch(dirPath: string, options?: WatchOptions): FileWatcher {
+    return this.adapter.watch(dirPath, options);
+  }
+
+  /**
+   * Get metadata of the wrapped adapter
+   */
+  getMetadata(): AdapterMetadata {
+    return this.adapter.getMetadata();
+  }
+}
@@ -5,16 +5,83 @@
  * Follows the error hierarchy defined in contracts/filesystem-api.md
  */
 
+/**
+ * Stable error codes carried by every filesystem error
+ *
+ * POSIX names are used where one fits, so callers can map errors (for example
+ * to HTTP status codes) without parsing messages:
+ * - `ENOENT`: file or directory not found
+ * - `EEXIST`: file or directory already exists
+ * - `ENOTEMPTY`: directory not empty
+ * - `EACCES`: permission denied
+ * - `EISDIR` / `ENOTDIR`: path is / is not a directory
+ * - `ENOSPC`: storage full or quota exceeded
+ * - `EINVAL`: invalid argument, path or configuration
+ * - `ETIMEDOUT`: operation or connection timed out
+ * - `ECANCELED`: operation aborted
+ * - `EAGAIN`: backend throttling or temporarily unavailable
+ * - `ENETWORK`: connection failure
+ * - `EBATCH`: some paths of a batch operation failed
+ * - `EPRECONDITION`: a conditional operation found a different version (ETag)
+ * - `ELOCKED`: a lock is held by another owner
+ * - `EIO`: any other backend failure
+ */
+export type FilesystemErrorCode =
+  | "ENOENT"
+  | "EEXIST"
+  | "ENOTEMPTY"
+  | "EACCES"
+  | "EISDIR"
+  | "ENOTDIR"
+  | "ENOSPC"
+  | "EINVAL"
+  | "ETIMEDOUT"
+  | "ECANCELED"
+  | "EAGAIN"
+  | "ENETWORK"
+  | "EBATCH"
+  | "EPRECONDITION"
+  | "ELOCKED"
+  | "EIO";
+
+/**
+ * Where an error occurred
+ */
+export interface FilesystemErrorContext {
+  /** Path the operation was called with */
+  path?: string;
+  /** Operation being performed, e.g. "readFile" */
+  operation?: string;
+  /** Backend that raised the error, e.g. "local" or "s3" */
+  backend?: string;
+}
+
+/**
+ * Options accepted by all filesystem error constructors
+ */
+export interface FilesystemErrorOptions extends FilesystemErrorContext {
+  cause?: Error;
+  code?: FilesystemErrorCode;
+}
+
 /**
  * Base filesystem error class
  */
 export class FilesystemError extends Error {
   public override readonly cause?: Error;
+  public readonly code: FilesystemErrorCode;
+  public readonly path?: string;
+  public readonly operation?: string;
+  public readonly backend?: string;
 
-  constructor(message: string, options?: { cause?: Error }) {
+  constructor(message: string, options?: FilesystemErrorOptions) {
     super(message);
     this.name = "FilesystemError";
     this.cause = options?.cause;
+    this.code = options?.code ?? "EIO";
+    this.path = options?.path;
+    this.operation = options?.operation;
+    this.backend = options?.backend;
 
     // Maintain proper stack trace
     if (Error.captureStackTrace) {
@@ -28,12 +95,31 @@ export class FilesystemError extends Error {
   }
 }
 
+/**
+ * Fill in the context fields an error does not carry yet
+ *
+ * Errors thrown deep inside an adapter often lack the operation or backend;
+ * the adapter's error handler adds them on the way out.
+ */
+export function withErrorContext<T extends FilesystemError>(
+  error: T,
+  context: FilesystemErrorContext,
+): T {
+  const target = error as {
+    -readonly [K in keyof FilesystemErrorContext]: FilesystemErrorContext[K];
+  };
+  target.path ??= context.path;
+  target.operation ??= context.operation;
+  target.backend ??= context.backend;
+  return error;
+}
+
 /**
  * File not found error
  */
 export class FileNotFoundError extends FilesystemError {
-  constructor(path: string, options?: { cause?: Error }) {
-    super(`File not found: ${path}`, options);
+  constructor(path: string, options?: FilesystemErrorOptions) {
+    super(`File not found: ${path}`, { path, ...options, code: "ENOENT" });
     this.name = "FileNotFoundError";
   }
 }
@@ -42,18 +128,90 @@ export class FileNotFoundError extends FilesystemError {
  * Permission denied error
  */
 export class PermissionError extends FilesystemError {
-  constructor(path: string, operation: string, options?: { cause?: Error }) {
-    super(`Permission denied for ${operation} on ${path}`, options);
+  constructor(path: string, operation: string, options?: FilesystemErrorOptions) {
+    super(`Permission denied for ${operation} on ${path}`, {
+      path,
+      operation,
+      ...options,
+      code: "EACCES",
+    });
     this.name = "PermissionError";
   }
 }
 
+/**
+ * File or directory already exists (EEXIST)
+ */
+export class AlreadyExistsError extends FilesystemError {
+  constructor(path: string, options?: FilesystemErrorOptions) {
+    super(`File already exists: ${path}`, { path, ...options, code: "EEXIST" });
+    this.name = "AlreadyExistsError";
+  }
+}
+
+/**
+ * Directory is not empty (ENOTEMPTY)
+ */
+export class DirectoryNotEmptyError extends FilesystemError {
+  constructor(path: string, options?: FilesystemErrorOptions) {
+    super(`Directory not empty: ${path}`, { path, ...options, code: "ENOTEMPTY" });
+    this.name = "DirectoryNotEmptyError";
+  }
+}
+
+/**
+ * Path is a directory where a file is required (EISDIR)
+ */
+export class IsDirectoryError extends FilesystemError {
+  constructor(path: string, options?: FilesystemErrorOptions) {
+    super(`Is a directory: ${path}`, { path, ...options, code: "EISDIR" });
+    this.name = "IsDirectoryError";
+  }
+}
+
+/**
+ * Path is not a directory where one is required (ENOTDIR)
+ */
+export class NotDirectoryError extends FilesystemError {
+  constructor(path: string, options?: FilesystemErrorOptions) {
+    super(`Not a directory: ${path}`, { path, ...options, code: "ENOTDIR" });
+    this.name = "NotDirectoryError";
+  }
+}
+
+/**
+ * Conditional operation failed because the file changed (EPRECONDITION)
+ *
+ * Thrown when the `ifMatch` token of a write or delete no longer matches the
+ * file's current ETag, including when the file has been removed.
+ */
+export class PreconditionFailedError extends FilesystemError {
+  constructor(path: string, options?: FilesystemErrorOptions) {
+    super(`Precondition failed, file has changed: ${path}`, {
+      path,
+      ...options,
+      code: "EPRECONDITION",
+    });
+    this.name = "PreconditionFailedError";
+  }
+}
+
+/**
+ * Lock could not be acquired within its wait time (ELOCKED)
+ */
+export class LockedError extends FilesystemError {
+  constructor(path: string, options?: FilesystemErrorOptions) {
+    super(`File is locked: ${path}`, { path, operation: "lock", ...options, code: "ELOCKED" });
+    this.name = "LockedError";
+  }
+}
+
 /**
  * Storage backend error (disk full, quota exceeded, etc.)
  */
 export class StorageError extends FilesystemError {
-  constructor(message: string, options?: { cause?: Error }) {
-    super(`Storage error: ${message}`, options);
+  constructor(message: string, options?: FilesystemErrorOptions) {
+    super(`Storage error: ${message}`, { ...options, code: options?.code ?? "EIO" });
     this.name = "StorageError";
   }
 }
@@ -62,8 +220,8 @@ export class StorageError extends FilesystemError {
  * Network error (S3 connection issues, timeouts, etc.)
  */
 export class NetworkError extends FilesystemError {
-  constructor(message: string, options?: { cause?: Error }) {
-    super(`Network error: ${message}`, options);
+  constructor(message: string, options?: FilesystemErrorOptions) {
+    super(`Network error: ${message}`, { ...options, code: options?.code ?? "ENETWORK" });
     this.name = "NetworkError";
   }
 }
@@ -72,48 +230,61 @@ export class NetworkError extends FilesystemError {
  * Validation error (invalid path, configuration, etc.)
  */
 export class ValidationError extends FilesystemError {
-  constructor(message: string, options?: { cause?: Error }) {
-    super(`Validation error: ${message}`, options);
+  constructor(message: string, options?: FilesystemErrorOptions) {
+    super(`Validation error: ${message}`, { ...options, code: "EINVAL" });
     this.name = "ValidationError";
   }
 }
 
 /**
- * Utility function to map native errors to filesystem errors
+ * Operation timeout error (the operation did not settle within its timeout)
  */
-export function mapNativeError(
-  error: Error,
-  context: { path?: string; operation?: string },
-): FilesystemError {
-  const errorMessage = error.message.toLowerCase();
-
-  // Map common error patterns
-  if (errorMessage.includes("enoent") || errorMessage.includes("not found")) {
-    return new FileNotFoundError(context.path || "unknown", { cause: error });
-  }
-
-  if (errorMessage.includes("eacces") || errorMessage.includes("permission denied")) {
-    return new PermissionError(context.path || "unknown", context.operation || "operation", {
-      cause: error,
+export class TimeoutError extends FilesystemError {
+  constructor(operation: string, timeout: number, options?: FilesystemErrorOptions) {
+    super(`Operation ${operation} timed out after ${timeout}ms`, {
+      operation,
+      ...options,
+      code: "ETIMEDOUT",
     });
+    this.name = "TimeoutError";
   }
+}
 
-  if (
-    errorMessage.includes("enospc") ||
-    errorMessage.includes("disk full") ||
-    errorMessage.includes("quota")
-  ) {
-    return new StorageError(errorMessage, { cause: error });
+/**
+ * Operation aborted through an AbortSignal
+ */
+export class AbortError extends FilesystemError {
+  constructor(operation: string, options?: FilesystemErrorOptions) {
+    super(`Operation ${operation} was aborted`, { operation, ...options, code: "ECANCELED" });
+    this.name = "AbortError";
   }
+}
 
-  if (
-    errorMessage.includes("network") ||
-    errorMessage.includes("timeout") ||
-    errorMessage.includes("socket")
-  ) {
-    return new NetworkError(errorMessage, { cause: error });
-  }
+/**
+ * Failure of one path within a batch operation
+ */
+export interface BatchFailure {
+  path: string;
+  error: FilesystemError;
+}
 
-  // Default to generic FilesystemError
-  return new FilesystemError(errorMessage, { cause: error });
+/**
+ * Batch operation error, aggregating the per-path failures of operations such
+ * as `removeMany()` and recursive S3 `rmdir()`
+ */
+export class BatchOperationError extends FilesystemError {
+  declare public readonly operation: string;
+  public readonly failures: BatchFailure[];
+  public readonly total: number;
+
+  constructor(operation: string, failures: BatchFailure[], total: number) {
+    super(
+      `${operation} failed for ${failures.length} of ${total} paths` +
+        (failures.length > 0 ? ` (first: ${failures[0].error.message})` : ""),
+      { cause: failures[0]?.error, code: "EBATCH", operation },
+    );
+    this.name = "BatchOperationError";
+    this.failures = failures;
+    this.total = total;
+  }
 }
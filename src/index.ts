@@ -10,21 +10,88 @@
 // Core exports
 export { createFilesystem } from "./core/filesystem-factory";
 export { Filesystem } from "./interfaces/filesystem.interface";
+export {
+  registerAdapter,
+  unregisterAdapter,
+  getAdapterRegistration,
+  getRegisteredAdapterTypes,
+  type AdapterRegistration,
+  type AdapterConfigValidator,
+  type AdapterConfigValidationResult,
+} from "./core/adapter-registry";
+export { MountFilesystem, type MountPoint } from "./core/mount-filesystem";
+export { ResilientAdapter, type ResilienceOptions } from "./core/resilient-adapter";
+export { EncryptedAdapter } from "./core/encrypted-adapter";
+export { CompressionAdapter } from "./core/compression-adapter";
+export { CachingAdapter, type CachingAdapterOptions } from "./core/caching-adapter";
 
 // Adapters
+export { AbstractAdapter } from "./adapters/abstract-adapter";
 export { LocalAdapter, type LocalAdapterConfig } from "./adapters/local-adapter";
 export { S3Adapter, type S3AdapterConfig } from "./adapters/s3-adapter";
+export { MemoryAdapter, type MemoryAdapterConfig } from "./adapters/memory-adapter";
 
 // Interfaces
 export {
   BaseAdapter,
+  type AdapterCapabilities,
+  type AdapterMetadata,
+  type AdapterConfig,
+  type AdapterFactory,
   type ReadStreamOptions,
   type WriteStreamOptions,
 } from "./interfaces/adapter.interface";
-export { type FileStats } from "./interfaces/filesystem.interface";
+export {
+  type FileStats,
+  type DirectoryEntry,
+  type ReaddirOptions,
+  type RemoveManyOptions,
+  type WriteFileOptions,
+  type FileMetadata,
+  type CopyFileOptions,
+  type RenameOptions,
+  type UnlinkOptions,
+  type LockOptions,
+  type LockHandle,
+  type SignedUrlOperation,
+  type SignedUrlOptions,
+  type OperationOptions,
+  type ReaddirPage,
+  type ReaddirPageOptions,
+  type ReaddirIteratorOptions,
+  type WalkEntry,
+  type WalkOptions,
+  type GlobOptions,
+  type WatchOptions,
+  type WatchEvent,
+  type WatchEventType,
+  type FileWatcher,
+} from "./interfaces/filesystem.interface";
 
 // Configuration types
-export { type FilesystemConfig, type LocalConfig, type S3Config } from "./types/config";
+export {
+  type FilesystemConfig,
+  type AdapterConfigSections,
+  type AdapterType,
+  type LocalConfig,
+  type LocalSignedUrlConfig,
+  type S3Config,
+  type S3ServerSideEncryption,
+  type MemoryConfig,
+  type MountConfig,
+  type MountAdapterConfig,
+  type CommonConfig,
+  type EncryptionConfig,
+  type CompressionConfig,
+  type CompressionRule,
+  type CompressionCodec,
+  type CacheConfig,
+  type CacheMetadataConfig,
+  type CacheContentConfig,
+  type FilesystemOperation,
+  type OperationPolicy,
+  type OperationPolicies,
+} from "./types/config";
 
 // Errors
 export {
@@ -34,11 +101,27 @@ export {
   StorageError,
   NetworkError,
   ValidationError,
+  AlreadyExistsError,
+  DirectoryNotEmptyError,
+  IsDirectoryError,
+  NotDirectoryError,
+  PreconditionFailedError,
+  LockedError,
+  BatchOperationError,
+  TimeoutError,
+  AbortError,
+  type BatchFailure,
+  type FilesystemErrorCode,
+  type FilesystemErrorContext,
+  type FilesystemErrorOptions,
 } from "./errors/filesystem-errors";
 
 // Utilities
 export { normalizePath, joinPath, validatePath } from "./utils/path-utils";
-export { mapNativeError } from "./errors/filesystem-errors";
+export { mapError, resolveErrorCode } from "./utils/error-mapper";
+export { contentMatchesType, detectContentType } from "./utils/content-type-utils";
+export { verifySignedUrlToken, type SignedUrlClaims } from "./utils/signed-url-utils";
+export { hideLockFiles, isLockFileName } from "./utils/lock-utils";
 
 // Ignis Component
 export { FilesystemComponent, default as FilesystemComponentDefault } from "./component";
@@ -50,9 +133,11 @@ export * from "./common";
 import { createFilesystem } from "./core/filesystem-factory";
 import { LocalAdapter } from "./adapters/local-adapter";
 import { S3Adapter } from "./adapters/s3-adapter";
+import { MemoryAdapter } from "./adapters/memory-adapter";
 
 export {
   createFilesystem as createFilesystemInstance,
   LocalAdapter as LocalFilesystemAdapter,
   S3Adapter as S3FilesystemAdapter,
+  MemoryAdapter as MemoryFilesystemAdapter,
 };
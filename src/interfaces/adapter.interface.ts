@@ -6,7 +6,28 @@
  */
 
 import { Readable, Writable } from "stream";
-import { FileStats } from "./filesystem.interface";
+import {
+  CopyFileOptions,
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  FileWatcher,
+  GlobOptions,
+  LockHandle,
+  LockOptions,
+  SignedUrlOptions,
+  ReaddirIteratorOptions,
+  ReaddirOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  RemoveManyOptions,
+  RenameOptions,
+  UnlinkOptions,
+  WalkEntry,
+  WalkOptions,
+  WatchOptions,
+  WriteFileOptions,
+} from "./filesystem.interface";
 
 /**
  * Base adapter interface that all storage adapters must implement
@@ -15,14 +36,23 @@ export interface BaseAdapter {
   // File operations
   readFile(path: string, encoding?: BufferEncoding): Promise<string>;
   readFile(path: string): Promise<Buffer>;
-  writeFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void>;
+  writeFile(
+    path: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void>;
   appendFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void>;
-  unlink(path: string): Promise<void>;
-  copyFile(src: string, dest: string): Promise<void>;
-  rename(oldPath: string, newPath: string): Promise<void>;
+  unlink(path: string, options?: UnlinkOptions): Promise<void>;
+  removeMany(paths: string[], options?: RemoveManyOptions): Promise<void>;
+  copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void>;
+  rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void>;
+  lock(path: string, options?: LockOptions): Promise<LockHandle>;
 
   // Directory operations
-  readdir(path: string): Promise<string[]>;
+  readdir(path: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  readdir(path: string, options?: ReaddirOptions): Promise<string[]>;
+  readdirPaged(path: string, options?: ReaddirPageOptions): Promise<ReaddirPage>;
+  readdirIterator(path: string, options?: ReaddirIteratorOptions): AsyncIterableIterator<string>;
   mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
   rmdir(path: string, options?: { recursive?: boolean }): Promise<void>;
 
@@ -30,6 +60,8 @@ export interface BaseAdapter {
   stat(path: string): Promise<FileStats>;
   lstat(path: string): Promise<FileStats>;
   access(path: string, mode?: number): Promise<void>;
+  getFileMetadata(path: string): Promise<FileMetadata>;
+  setFileMetadata(path: string, metadata: FileMetadata): Promise<void>;
 
   // Stream operations
   createReadStream(path: string, options?: ReadStreamOptions): Readable;
@@ -38,6 +70,17 @@ export interface BaseAdapter {
   // Utility methods
   exists(path: string): Promise<boolean>;
   realpath(path: string): Promise<string>;
+  getSignedUrl(path: string, options: SignedUrlOptions): Promise<string>;
+
+  // Traversal operations
+  walk(path: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry>;
+  glob(pattern: string, options?: GlobOptions): Promise<string[]>;
+
+  // Change watching
+  watch(path: string, options?: WatchOptions): FileWatcher;
+
+  // Adapter information
+  getMetadata(): AdapterMetadata;
 }
 
 /**
@@ -52,11 +95,15 @@ export interface ReadStreamOptions {
 
 /**
  * Write stream options
+ *
+ * The metadata fields are stored with the file as with `writeFile()`.
  */
-export interface WriteStreamOptions {
+export interface WriteStreamOptions extends FileMetadata {
   encoding?: BufferEncoding;
   flags?: string;
   mode?: number;
+  /** Local: write to a temporary file that replaces the target when the stream ends */
+  atomic?: boolean;
 }
 
 /**
@@ -87,6 +134,10 @@ export interface AdapterCapabilities {
   permissions: boolean;
   /** Whether the adapter supports directory operations */
   directories: boolean;
+  /** Whether directories are real entries rather than emulated (e.g. S3 key prefixes) */
+  realDirectories: boolean;
+  /** Whether rename is a single atomic operation rather than copy + delete */
+  atomicRename: boolean;
   /** Maximum file size supported (in bytes, 0 for unlimited) */
   maxFileSize: number;
   /** Whether the adapter is network-based (has latency) */
@@ -1,3 +1,8 @@
+import type { EventEmitter } from "events";
+
+import { AdapterMetadata } from "./adapter.interface";
+import type { FilesystemConfig } from "../types/config";
+
 /**
  * Filesystem interface compatible with Node.js fs module
  * Provides a subset of the most commonly used fs methods
@@ -6,14 +11,23 @@ export interface Filesystem {
   // File operations
   readFile(path: string, encoding?: BufferEncoding): Promise<string>;
   readFile(path: string): Promise<Buffer>;
-  writeFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void>;
+  writeFile(
+    path: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void>;
   appendFile(path: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void>;
-  unlink(path: string): Promise<void>;
-  copyFile(src: string, dest: string): Promise<void>;
-  rename(oldPath: string, newPath: string): Promise<void>;
+  unlink(path: string, options?: UnlinkOptions): Promise<void>;
+  removeMany(paths: string[], options?: RemoveManyOptions): Promise<void>;
+  copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void>;
+  rename(oldPath: string, newPath: string, options?: RenameOptions): Promise<void>;
+  lock(path: string, options?: LockOptions): Promise<LockHandle>;
 
   // Directory operations
-  readdir(path: string): Promise<string[]>;
+  readdir(path: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  readdir(path: string, options?: ReaddirOptions): Promise<string[]>;
+  readdirPaged(path: string, options?: ReaddirPageOptions): Promise<ReaddirPage>;
+  readdirIterator(path: string, options?: ReaddirIteratorOptions): AsyncIterableIterator<string>;
   mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
   rmdir(path: string, options?: { recursive?: boolean }): Promise<void>;
 
@@ -21,6 +35,8 @@ export interface Filesystem {
   stat(path: string): Promise<FileStats>;
   lstat(path: string): Promise<FileStats>;
   access(path: string, mode?: number): Promise<void>;
+  getFileMetadata(path: string): Promise<FileMetadata>;
+  setFileMetadata(path: string, metadata: FileMetadata): Promise<void>;
 
   // Stream operations (simplified)
   createReadStream(path: string, options?: any): any;
@@ -29,6 +45,20 @@ export interface Filesystem {
   // Utility methods
   exists(path: string): Promise<boolean>;
   realpath(path: string): Promise<string>;
+  getSignedUrl(path: string, options: SignedUrlOptions): Promise<string>;
+
+  // Traversal operations
+  walk(path: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry>;
+  glob(pattern: string, options?: GlobOptions): Promise<string[]>;
+
+  // Change watching
+  watch(path: string, options?: WatchOptions): FileWatcher;
+
+  // Backend information
+  getMetadata(): AdapterMetadata;
+
+  // Call-level options
+  withOptions(options: OperationOptions): Filesystem;
 }
 
 /**
@@ -61,26 +91,281 @@ export interface FileStats {
   mtime: Date;
   ctime: Date;
   birthtime: Date;
+
+  /**
+   * Opaque version token of a file, changing whenever the file is modified
+   *
+   * Pass it as `ifMatch` to make a write or delete conditional. S3 reports the
+   * object ETag; undefined for directories.
+   */
+  etag?: string;
+}
+
+/**
+ * Call-level options applied by `withOptions()`
+ */
+export interface OperationOptions {
+  /** Cancels every operation started through the returned filesystem */
+  signal?: AbortSignal;
+  /** Timeout per attempt in milliseconds, overriding the configured policies */
+  timeout?: number;
+  /** Retries after the first attempt, overriding the configured policies */
+  maxRetries?: number;
+}
+
+/**
+ * Content headers and user metadata stored with a file
+ *
+ * S3 stores them as object headers; the local adapter keeps them in a hidden
+ * `.<name>.meta.json` sidecar file next to the file.
+ */
+export interface FileMetadata {
+  /** MIME type, e.g. "application/json" */
+  contentType?: string;
+  /** Cache-Control header served with the file */
+  cacheControl?: string;
+  /** Content-Disposition header, e.g. 'attachment; filename="report.pdf"' */
+  contentDisposition?: string;
+  /** User-defined key-value pairs (keys: letters, digits, "-" and "_") */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Options for `writeFile()` (a string is taken as the encoding)
+ *
+ * The metadata fields replace the file's metadata; a write without them
+ * clears it, as an S3 PUT does.
+ */
+export interface WriteFileOptions extends FileMetadata {
+  encoding?: BufferEncoding;
+  /** "wx" creates the file exclusively, failing with AlreadyExistsError if it exists (default: "w") */
+  flag?: "w" | "wx";
+  /** Replace an existing file; false is equivalent to flag "wx" (default: true) */
+  overwrite?: boolean;
+  /** Only replace the file if its current `etag` equals this token, else fail with PreconditionFailedError */
+  ifMatch?: string;
+  /**
+   * Local: write a temporary file, fsync it and rename it over the target, so
+   * readers never see a partial file (default: the `atomicWrites` setting).
+   * S3 and in-memory writes are always atomic.
+   */
+  atomic?: boolean;
+}
+
+/**
+ * Options for `unlink()`
+ */
+export interface UnlinkOptions {
+  /** Only delete the file if its current `etag` equals this token, else fail with PreconditionFailedError */
+  ifMatch?: string;
+}
+
+/**
+ * Options for `lock()`
+ */
+export interface LockOptions {
+  /** Time in milliseconds after which an unreleased lock is considered stale (default: 30000) */
+  ttl?: number;
+  /** Time in milliseconds to wait for a held lock; 0 fails immediately (default: 0) */
+  wait?: number;
+}
+
+/**
+ * Lock acquired with `lock()`
+ *
+ * Locks are advisory: they only exclude other callers of `lock()` on the
+ * same path, not plain reads and writes.
+ */
+export interface LockHandle {
+  /** Path the lock protects */
+  readonly path: string;
+  /** Time after which other callers may take the lock over */
+  readonly expiresAt: Date;
+  /** Release the lock; does nothing if it has expired and been taken over */
+  release(): Promise<void>;
+}
+
+/**
+ * Operation a signed URL grants
+ */
+export type SignedUrlOperation = "read" | "write";
+
+/**
+ * Options for `getSignedUrl()`
+ */
+export interface SignedUrlOptions {
+  /** Whether the URL downloads (GET) or uploads (PUT) the file */
+  operation: SignedUrlOperation;
+  /** Lifetime of the URL in seconds, at most 7 days (default: 900) */
+  expiresIn?: number;
+  /** Content type a read is served with, or a write must be sent with */
+  contentType?: string;
+}
+
+/**
+ * Options for `copyFile()`
+ *
+ * The copy keeps the source's metadata unless any metadata field is given,
+ * in which case the given metadata replaces it.
+ */
+export interface CopyFileOptions extends FileMetadata {
+  /** Replace an existing destination; false fails with AlreadyExistsError (default: true) */
+  overwrite?: boolean;
+}
+
+/**
+ * Options for `rename()`
+ */
+export interface RenameOptions {
+  /** Replace an existing destination; false fails with AlreadyExistsError (default: true) */
+  overwrite?: boolean;
+}
+
+/**
+ * Options for `removeMany()`
+ */
+export interface RemoveManyOptions {
+  /** Deletions (S3: batches of up to 1000 keys) in flight at once (default: 4) */
+  concurrency?: number;
 }
 
 /**
- * Filesystem configuration options
+ * Options for `readdir()`
  */
-export interface FilesystemConfig {
-  type: "local" | "s3";
-  local?: {
-    basePath?: string;
-  };
-  s3?: {
-    bucket: string;
-    region: string;
-    accessKeyId?: string;
-    secretAccessKey?: string;
-    endpoint?: string;
-    forcePathStyle?: boolean;
-  };
+export interface ReaddirOptions {
+  /** Return `DirectoryEntry` objects instead of names (default: false) */
+  withFileTypes?: boolean;
 }
 
+/**
+ * Directory entry returned by `readdir(path, { withFileTypes: true })`, like Node's fs.Dirent
+ *
+ * Size and modification time are filled in when the backend lists them
+ * without an extra request (S3 objects, in-memory files).
+ */
+export interface DirectoryEntry {
+  name: string;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+  size?: number;
+  mtime?: Date;
+}
+
+/**
+ * Options for `readdirPaged()`
+ */
+export interface ReaddirPageOptions {
+  /** Maximum number of entries in the page (default: 1000) */
+  limit?: number;
+  /** Cursor returned with the previous page; omit to start from the beginning */
+  cursor?: string;
+}
+
+/**
+ * One page of directory entries
+ */
+export interface ReaddirPage {
+  entries: string[];
+  /** Cursor for the next page, undefined when the listing is complete */
+  cursor?: string;
+}
+
+/**
+ * Options for `readdirIterator()`
+ */
+export interface ReaddirIteratorOptions {
+  /** Number of entries fetched per request (default: 1000) */
+  pageSize?: number;
+}
+
+/**
+ * Entry yielded by `walk()`
+ */
+export interface WalkEntry {
+  /** Full path of the entry, starting with "/" */
+  path: string;
+  /** Entry name (last path segment) */
+  name: string;
+  /** Depth below the walked directory (direct children have depth 1) */
+  depth: number;
+  stats: FileStats;
+}
+
+/**
+ * Options for `walk()`
+ */
+export interface WalkOptions {
+  /** Maximum depth to descend to (default: unlimited, 1 = direct children only) */
+  maxDepth?: number;
+  /** Whether to yield directory entries (default: true) */
+  includeDirectories?: boolean;
+  /**
+   * Called with each directory before its contents are walked; returning true
+   * skips the contents. The directory itself is still yielded.
+   */
+  skipDirectory?: (entry: WalkEntry) => boolean;
+}
+
+/**
+ * Kind of change reported by `watch()`
+ */
+export type WatchEventType = "add" | "change" | "unlink" | "addDir" | "unlinkDir";
+
+/**
+ * Change reported by `watch()`
+ */
+export interface WatchEvent {
+  type: WatchEventType;
+  /** Full path of the changed entry, starting with "/" */
+  path: string;
+  /** Stats of the entry after the change (absent for "unlink" and "unlinkDir") */
+  stats?: FileStats;
+}
+
+/**
+ * Options for `watch()`
+ */
+export interface WatchOptions {
+  /** Whether to report changes below subdirectories too (default: false, direct children only) */
+  recursive?: boolean;
+  /** Polling interval in milliseconds of backends without change notifications, e.g. S3 (default: 5000) */
+  interval?: number;
+}
+
+/**
+ * Watcher returned by `watch()`
+ *
+ * Emits "ready" once the current contents are known, then every change both
+ * as an event named after its type ("add", "change", ...) with the path and
+ * stats, and as an "all" event with the `WatchEvent`. Failures are emitted as
+ * "error"; polling watchers keep polling after them. Iterating the watcher
+ * yields the `WatchEvent`s; leaving the loop closes the watcher.
+ */
+export interface FileWatcher extends EventEmitter, AsyncIterable<WatchEvent> {
+  /** Stop watching; emits "close" */
+  close(): Promise<void>;
+}
+
+/**
+ * Options for `glob()`
+ */
+export interface GlobOptions {
+  /** Directory the pattern is relative to (default: "/") */
+  cwd?: string;
+  /** Patterns to exclude; excluding a directory excludes everything below it */
+  ignore?: string[];
+  /** Whether wildcards match names starting with "." (default: false) */
+  dot?: boolean;
+  /** Whether to return matching directories as well as files (default: false) */
+  includeDirectories?: boolean;
+}
+
+/**
+ * Filesystem configuration options, defined with the other configuration types
+ */
+export type { FilesystemConfig };
+
 /**
  * Filesystem factory options
  */
@@ -5,18 +5,131 @@
  * Based on contracts/filesystem-api.md and data-model.md
  */
 
+import type { AdapterConfig } from "../interfaces/adapter.interface";
+import type { LocalAdapterConfig } from "../adapters/local-adapter";
+import type { S3AdapterConfig } from "../adapters/s3-adapter";
+import type { MemoryAdapterConfig } from "../adapters/memory-adapter";
+import { AdapterConfigValidationResult, getAdapterRegistration } from "../core/adapter-registry";
+import { isValidMasterKey } from "../utils/encryption-utils";
+import { COMPRESSION_LEVELS, isCodecAvailable } from "../utils/compression-utils";
+
 /**
- * Main filesystem configuration
+ * Configuration sections of the adapter types, keyed by type
+ *
+ * A package registering an adapter with registerAdapter() declares its section
+ * by merging into this interface, which also makes its type selectable:
+ *
+ * ```typescript
+ * declare module "@ignis/filesystem" {
+ *   interface AdapterConfigSections {
+ *     gcs: GcsConfig;
+ *   }
+ * }
+ * ```
  */
-export interface FilesystemConfig {
-  /** Storage backend type */
-  type: "local" | "s3";
+export interface AdapterConfigSections {
   /** Local filesystem configuration (required when type is 'local') */
-  local?: LocalConfig;
+  local: LocalConfig;
   /** AWS S3 configuration (required when type is 's3') */
-  s3?: S3Config;
+  s3: S3Config;
+  /** In-memory configuration (optional when type is 'memory') */
+  memory: MemoryConfig;
+  /** Mount table configuration (required when type is 'mount') */
+  mount: MountConfig;
+}
+
+/**
+ * Storage backend type: "local", "s3", "memory", "mount" or a type added to
+ * `AdapterConfigSections` and registered with registerAdapter()
+ */
+export type AdapterType = keyof AdapterConfigSections & string;
+
+/**
+ * Main filesystem configuration
+ *
+ * The configuration section of the selected adapter is the property named
+ * after its type.
+ */
+export interface FilesystemConfig extends Partial<AdapterConfigSections> {
+  /** Storage backend type */
+  type: AdapterType;
   /** Common configuration options for all backends */
   common?: CommonConfig;
+  /** Client-side encryption of file contents (optional) */
+  encryption?: EncryptionConfig;
+  /** Transparent compression of files matching path patterns (optional) */
+  compression?: CompressionConfig;
+  /** Read-through cache of metadata and file contents (optional) */
+  cache?: CacheConfig;
+}
+
+/**
+ * Client-side encryption configuration
+ */
+export interface EncryptionConfig {
+  /** Base64-encoded 256-bit master key wrapping the per-file data keys */
+  masterKey: string;
+  /** Encrypt file and directory names too (default: false) */
+  encryptFileNames?: boolean;
+}
+
+/**
+ * Transparent compression configuration
+ */
+export interface CompressionConfig {
+  /** Compression rules; the first rule whose pattern matches a file path applies */
+  rules: CompressionRule[];
+}
+
+/**
+ * Codec applied to the files matching a path pattern
+ */
+export interface CompressionRule {
+  /** Glob pattern matched against file paths relative to the root, e.g. "logs/**\/*.log" */
+  pattern: string;
+  /** Compression codec ("zstd" requires Node.js 22.15 or later) */
+  codec: CompressionCodec;
+  /** Compression level: gzip 0-9, brotli 0-11, zstd 1-22 (default: the codec default) */
+  level?: number;
+}
+
+/**
+ * Compression codecs
+ */
+export type CompressionCodec = "gzip" | "brotli" | "zstd";
+
+/**
+ * Read-through cache configuration
+ */
+export interface CacheConfig {
+  /** Cache of `stat()` and `exists()` results (always enabled when `cache` is set) */
+  metadata?: CacheMetadataConfig;
+  /** Cache of file contents read with `readFile()` (optional; disabled without it) */
+  content?: CacheContentConfig;
+}
+
+/**
+ * Metadata cache settings
+ */
+export interface CacheMetadataConfig {
+  /** Maximum number of cached paths (default: 10000) */
+  maxEntries?: number;
+  /** Time in milliseconds a stat result is served from the cache (default: 30000) */
+  ttl?: number;
+  /** Time in milliseconds a missing path is remembered as missing (default: 5000) */
+  negativeTtl?: number;
+}
+
+/**
+ * Content cache settings
+ */
+export interface CacheContentConfig {
+  /** Filesystem holding the cached contents, "local" or "memory" (default: { type: "memory" }) */
+  store?: FilesystemConfig;
+  /** Maximum total size of the cached contents in bytes (default: 64 MiB) */
+  maxSize?: number;
+  /** Size in bytes of the largest file cached (default: 1 MiB) */
+  maxFileSize?: number;
 }
 
 /**
@@ -27,6 +140,43 @@ export interface LocalConfig {
   basePath?: string;
   /** Whether to create missing directories automatically (default: false) */
   createMissingDirs?: boolean;
+  /** Write files through a temporary file, fsync and rename unless a write opts out (default: false) */
+  atomicWrites?: boolean;
+  /** Secret and route URL of `getSignedUrl()` (optional; without it signed URLs are unavailable) */
+  signedUrls?: LocalSignedUrlConfig;
+}
+
+/**
+ * Signing settings of local signed URLs
+ */
+export interface LocalSignedUrlConfig {
+  /** HMAC secret the URLs are signed with; the route serving them verifies with the same secret */
+  secret: string;
+  /** URL of the route serving signed URLs; the token is appended as `token` query parameter */
+  baseUrl: string;
+}
+
+/**
+ * In-memory filesystem configuration
+ */
+export interface MemoryConfig {
+  /** Whether to create missing directories automatically (default: false) */
+  createMissingDirs?: boolean;
+}
+
+/**
+ * Mount table configuration: mount point path (e.g. "/uploads") → filesystem configuration
+ *
+ * Mounted filesystems inherit the parent's common options unless they set their own.
+ */
+export type MountConfig = Record<string, FilesystemConfig>;
+
+/**
+ * Validated mount table, passed to the "mount" adapter factory
+ */
+export interface MountAdapterConfig extends AdapterConfig {
+  /** Validated configuration of each mounted filesystem, keyed by mount point */
+  mounts: Record<string, ValidatedFilesystemConfig>;
 }
 
 /**
@@ -47,12 +197,27 @@ export interface S3Config {
   forcePathStyle?: boolean;
   /** Key prefix for all operations (virtual directory) */
   prefix?: string;
-  /** S3-specific timeout in milliseconds (optional) */
+  /** Timeout of each S3 HTTP request in milliseconds (default: common timeout) */
   timeout?: number;
-  /** Maximum number of retries for S3 operations (optional) */
+  /** AWS SDK retries per S3 request, on top of the operation retries (default: 0) */
   maxRetries?: number;
+  /** Part size in bytes for multipart uploads, at least 5 MiB (default: 8 MiB) */
+  multipartPartSize?: number;
+  /** Maximum number of parts uploaded in parallel (default: 4) */
+  multipartConcurrency?: number;
+  /** Encrypt written objects with S3-managed keys ("AES256") or KMS keys ("aws:kms") */
+  serverSideEncryption?: S3ServerSideEncryption;
+  /** KMS key ID or ARN for "aws:kms" (default: the account's AWS managed key) */
+  sseKmsKeyId?: string;
+  /** Base64-encoded 256-bit key for SSE-C, sent with every object request; excludes serverSideEncryption */
+  sseCustomerKey?: string;
 }
 
+/**
+ * Server-side encryption of S3 objects
+ */
+export type S3ServerSideEncryption = "AES256" | "aws:kms";
+
 /**
  * Common configuration options for all storage backends
  */
@@ -65,24 +230,144 @@ export interface CommonConfig {
   debug?: boolean;
   /** Custom logger function (optional) */
   logger?: (level: "debug" | "info" | "warn" | "error", message: string, metadata?: any) => void;
+  /** Per-operation timeout and retry overrides (optional) */
+  operations?: OperationPolicies;
 }
 
+/**
+ * Filesystem operations covered by the retry and timeout layer
+ */
+export type FilesystemOperation =
+  | "readFile"
+  | "writeFile"
+  | "appendFile"
+  | "unlink"
+  | "removeMany"
+  | "copyFile"
+  | "rename"
+  | "readdir"
+  | "readdirPaged"
+  | "mkdir"
+  | "rmdir"
+  | "stat"
+  | "lstat"
+  | "access"
+  | "getFileMetadata"
+  | "setFileMetadata"
+  | "exists"
+  | "realpath"
+  | "getSignedUrl"
+  | "glob";
+
+/**
+ * Timeout and retry policy of an operation
+ */
+export interface OperationPolicy {
+  /** Timeout per attempt in milliseconds (0 disables the timeout) */
+  timeout?: number;
+  /** Number of retries after the first attempt for retryable errors */
+  maxRetries?: number;
+}
+
+/**
+ * Per-operation policy overrides, e.g. `{ readdir: { timeout: 120000 } }`
+ */
+export type OperationPolicies = Partial<Record<FilesystemOperation, OperationPolicy>>;
+
+/**
+ * All operations covered by the retry and timeout layer
+ */
+export const FILESYSTEM_OPERATIONS: readonly FilesystemOperation[] = [
+  "readFile",
+  "writeFile",
+  "appendFile",
+  "unlink",
+  "removeMany",
+  "copyFile",
+  "rename",
+  "readdir",
+  "readdirPaged",
+  "mkdir",
+  "rmdir",
+  "stat",
+  "lstat",
+  "access",
+  "getFileMetadata",
+  "setFileMetadata",
+  "exists",
+  "realpath",
+  "getSignedUrl",
+  "glob",
+];
+
 /**
  * Validated filesystem configuration (after validation)
  */
 export interface ValidatedFilesystemConfig {
-  type: "local" | "s3";
-  local: Required<LocalConfig>;
-  s3?: Required<S3Config>;
+  type: string;
+  /** Adapter configuration produced by the registered config validator */
+  adapter: AdapterConfig;
   common: Required<CommonConfig>;
+  /** Encryption applied on top of the adapter, if configured */
+  encryption?: EncryptionConfig;
+  /** Compression applied on top of the adapter (and its encryption), if configured */
+  compression?: CompressionConfig;
+  /** Cache applied directly on top of the adapter, if configured */
+  cache?: ValidatedCacheConfig;
+}
+
+/**
+ * Validated cache configuration, with defaults applied
+ */
+export interface ValidatedCacheConfig {
+  metadata: Required<CacheMetadataConfig>;
+  content?: {
+    store: ValidatedFilesystemConfig;
+    maxSize: number;
+    maxFileSize: number;
+  };
 }
 
 /**
  * Default configuration values
  */
-export const DEFAULT_LOCAL_CONFIG: Required<LocalConfig> = {
+export const DEFAULT_LOCAL_CONFIG: Required<Omit<LocalConfig, "signedUrls">> = {
   basePath: process.cwd(),
   createMissingDirs: false,
+  atomicWrites: false,
+};
+
+/**
+ * Default in-memory configuration values
+ */
+export const DEFAULT_MEMORY_CONFIG: Required<MemoryConfig> = {
+  createMissingDirs: false,
+};
+
+/**
+ * Minimum part size accepted by S3 for every part except the last one
+ */
+export const S3_MIN_MULTIPART_PART_SIZE = 5 * 1024 * 1024; // 5 MiB
+
+/**
+ * Default S3 multipart upload values
+ */
+export const DEFAULT_S3_CONFIG: Required<
+  Pick<S3Config, "multipartPartSize" | "multipartConcurrency">
+> = {
+  multipartPartSize: 8 * 1024 * 1024, // 8 MiB
+  multipartConcurrency: 4,
+};
+
+/**
+ * Default cache values
+ */
+export const DEFAULT_CACHE_CONFIG = {
+  metadata: { maxEntries: 10000, ttl: 30000, negativeTtl: 5000 },
+  content: {
+    maxSize: 64 * 1024 * 1024, // 64 MiB
+    maxFileSize: 1024 * 1024, // 1 MiB
+  },
 };
 
 /**
@@ -93,6 +378,10 @@ export const DEFAULT_COMMON_CONFIG: Required<CommonConfig> = {
   maxRetries: 3,
   debug: false,
   logger: () => {}, // No-op logger by default
+  operations: {
+    // Appending is not idempotent, so a retry could duplicate data
+    appendFile: { maxRetries: 0 },
+  },
 };
 
 /**
@@ -106,66 +395,19 @@ export interface ConfigValidationResult {
 
 /**
  * Validate filesystem configuration
+ *
+ * Checks the common options, then delegates the section named after `config.type`
+ * to the config validator registered for that adapter type.
  */
 export function validateConfig(config: FilesystemConfig): ConfigValidationResult {
   const errors: string[] = [];
 
   // Validate type
+  const registration = config.type ? getAdapterRegistration(config.type) : undefined;
   if (!config.type) {
-    errors.push('Configuration must specify a type ("local" or "s3")');
-  } else if (config.type !== "local" && config.type !== "s3") {
-    errors.push(`Invalid type: "${config.type}". Must be "local" or "s3"`);
-  }
-
-  // Validate type-specific configuration
-  if (config.type === "local") {
-    if (!config.local) {
-      errors.push('Local configuration required when type is "local"');
-    } else {
-      // Validate local config
-      if (config.local.basePath && typeof config.local.basePath !== "string") {
-        errors.push("Local basePath must be a string");
-      }
-      if (config.local.createMissingDirs && typeof config.local.createMissingDirs !== "boolean") {
-        errors.push("Local createMissingDirs must be a boolean");
-      }
-    }
-  } else if (config.type === "s3") {
-    if (!config.s3) {
-      errors.push('S3 configuration required when type is "s3"');
-    } else {
-      // Validate S3 config
-      if (!config.s3.bucket || typeof config.s3.bucket !== "string") {
-        errors.push("S3 bucket is required and must be a string");
-      }
-      if (!config.s3.region || typeof config.s3.region !== "string") {
-        errors.push("S3 region is required and must be a string");
-      }
-      if (config.s3.accessKeyId && typeof config.s3.accessKeyId !== "string") {
-        errors.push("S3 accessKeyId must be a string if provided");
-      }
-      if (config.s3.secretAccessKey && typeof config.s3.secretAccessKey !== "string") {
-        errors.push("S3 secretAccessKey must be a string if provided");
-      }
-      if (config.s3.endpoint && typeof config.s3.endpoint !== "string") {
-        errors.push("S3 endpoint must be a string if provided");
-      }
-      if (config.s3.forcePathStyle && typeof config.s3.forcePathStyle !== "boolean") {
-        errors.push("S3 forcePathStyle must be a boolean if provided");
-      }
-      if (config.s3.prefix && typeof config.s3.prefix !== "string") {
-        errors.push("S3 prefix must be a string if provided");
-      }
-      if (config.s3.timeout && (typeof config.s3.timeout !== "number" || config.s3.timeout <= 0)) {
-        errors.push("S3 timeout must be a positive number if provided");
-      }
-      if (
-        config.s3.maxRetries &&
-        (typeof config.s3.maxRetries !== "number" || config.s3.maxRetries < 0)
-      ) {
-        errors.push("S3 maxRetries must be a non-negative number if provided");
-      }
-    }
+    errors.push('Configuration must specify a type (e.g. "local", "s3" or "memory")');
+  } else if (!registration) {
+    errors.push(`Invalid type: "${config.type}". No adapter is registered for this type`);
   }
 
   // Validate common config if provided
@@ -188,14 +430,10 @@ export function validateConfig(config: FilesystemConfig): ConfigValidationResult
     if (config.common.logger && typeof config.common.logger !== "function") {
       errors.push("Common logger must be a function if provided");
     }
+    errors.push(...validateOperationPolicies(config.common.operations));
   }
-
-  if (errors.length > 0) {
-    return { isValid: false, errors };
-  }
-
-  // Create validated config with defaults
-  let validatedConfig: ValidatedFilesystemConfig;
+  errors.push(...validateEncryptionConfig(config.encryption));
+  errors.push(...validateCompressionConfig(config.compression));
 
   // Merge common config with defaults
   const commonConfig: Required<CommonConfig> = {
@@ -203,40 +441,432 @@ export function validateConfig(config: FilesystemConfig): ConfigValidationResult
     maxRetries: config.common?.maxRetries ?? DEFAULT_COMMON_CONFIG.maxRetries,
     debug: config.common?.debug ?? DEFAULT_COMMON_CONFIG.debug,
     logger: config.common?.logger ?? DEFAULT_COMMON_CONFIG.logger,
+    operations: { ...DEFAULT_COMMON_CONFIG.operations, ...config.common?.operations },
   };
 
-  if (config.type === "local") {
-    validatedConfig = {
-      type: "local",
-      local: {
-        basePath: config.local?.basePath || DEFAULT_LOCAL_CONFIG.basePath,
-        createMissingDirs:
-          config.local?.createMissingDirs || DEFAULT_LOCAL_CONFIG.createMissingDirs,
-      },
+  // Validate type-specific configuration
+  const adapterResult = registration?.validateConfig(config[config.type], commonConfig);
+  if (adapterResult) {
+    errors.push(...adapterResult.errors);
+  }
+  const cacheResult = validateCacheConfig(config.cache, commonConfig);
+  errors.push(...cacheResult.errors);
+
+  if (errors.length > 0 || !adapterResult?.config) {
+    return { isValid: false, errors };
+  }
+
+  return {
+    isValid: true,
+    errors: [],
+    config: {
+      type: config.type,
+      adapter: adapterResult.config,
       common: commonConfig,
-    };
+      ...(config.encryption && { encryption: config.encryption }),
+      ...(config.compression && { compression: config.compression }),
+      ...(cacheResult.config && { cache: cacheResult.config }),
+    },
+  };
+}
+
+/**
+ * Validate the client-side encryption configuration
+ */
+function validateEncryptionConfig(encryption: EncryptionConfig | undefined): string[] {
+  const errors: string[] = [];
+
+  if (encryption === undefined) {
+    return errors;
+  }
+  if (typeof encryption !== "object" || encryption === null) {
+    return ["Encryption configuration must be an object if provided"];
+  }
+
+  if (!isValidMasterKey(encryption.masterKey)) {
+    errors.push("Encryption masterKey must be a base64-encoded 256-bit key");
+  }
+  if (
+    encryption.encryptFileNames !== undefined &&
+    typeof encryption.encryptFileNames !== "boolean"
+  ) {
+    errors.push("Encryption encryptFileNames must be a boolean if provided");
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the transparent compression configuration
+ */
+function validateCompressionConfig(compression: CompressionConfig | undefined): string[] {
+  const errors: string[] = [];
+
+  if (compression === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(compression?.rules) || compression.rules.length === 0) {
+    return ["Compression rules must be a non-empty array if compression is provided"];
+  }
+
+  compression.rules.forEach((rule, index) => {
+    const label = `Compression rules[${index}]`;
+    if (typeof rule?.pattern !== "string" || rule.pattern.length === 0) {
+      errors.push(`${label}.pattern must be a non-empty string`);
+    }
+    if (!Object.prototype.hasOwnProperty.call(COMPRESSION_LEVELS, rule?.codec)) {
+      errors.push(`${label}.codec must be "gzip", "brotli" or "zstd"`);
+      return;
+    }
+    if (!isCodecAvailable(rule.codec)) {
+      errors.push(`${label}.codec "${rule.codec}" is not supported by this Node.js version`);
+    }
+    const { min, max } = COMPRESSION_LEVELS[rule.codec];
+    if (
+      rule.level !== undefined &&
+      (!Number.isInteger(rule.level) || rule.level < min || rule.level > max)
+    ) {
+      errors.push(`${label}.level must be an integer from ${min} to ${max} for ${rule.codec}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate the read-through cache configuration and apply its defaults
+ *
+ * The content store is validated as a filesystem configuration of its own,
+ * inheriting the common options.
+ */
+function validateCacheConfig(
+  cache: CacheConfig | undefined,
+  common: Required<CommonConfig>,
+): { errors: string[]; config?: ValidatedCacheConfig } {
+  const errors: string[] = [];
+
+  if (cache === undefined) {
+    return { errors };
+  }
+  if (typeof cache !== "object" || cache === null) {
+    return { errors: ["Cache configuration must be an object if provided"] };
+  }
+
+  const isCount = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+  const isDuration = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+  const metadata = { ...DEFAULT_CACHE_CONFIG.metadata, ...cache.metadata };
+  if (!isCount(metadata.maxEntries)) {
+    errors.push("Cache metadata.maxEntries must be a positive integer if provided");
+  }
+  if (!isDuration(metadata.ttl)) {
+    errors.push("Cache metadata.ttl must be a non-negative number if provided");
+  }
+  if (!isDuration(metadata.negativeTtl)) {
+    errors.push("Cache metadata.negativeTtl must be a non-negative number if provided");
+  }
+
+  if (cache.content === undefined) {
+    return errors.length > 0 ? { errors } : { errors, config: { metadata } };
+  }
+
+  const { store = { type: "memory" }, ...limits } = cache.content ?? {};
+  const content = { ...DEFAULT_CACHE_CONFIG.content, ...limits };
+  if (!isCount(content.maxSize)) {
+    errors.push("Cache content.maxSize must be a positive integer if provided");
+  }
+  if (!isCount(content.maxFileSize)) {
+    errors.push("Cache content.maxFileSize must be a positive integer if provided");
+  }
+
+  const storeResult = validateConfig({ ...store, common: { ...common, ...store.common } });
+  errors.push(...storeResult.errors.map(error => `Cache content store: ${error}`));
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return {
+    errors,
+    config: { metadata, content: { ...content, store: storeResult.config! } },
+  };
+}
+
+/**
+ * Validate per-operation timeout and retry overrides
+ */
+function validateOperationPolicies(operations: OperationPolicies | undefined): string[] {
+  const errors: string[] = [];
+
+  if (operations === undefined) {
+    return errors;
+  }
+  if (typeof operations !== "object" || operations === null) {
+    return ["Common operations must be an object if provided"];
+  }
+
+  for (const [operation, policy] of Object.entries(operations)) {
+    if (!FILESYSTEM_OPERATIONS.includes(operation as FilesystemOperation)) {
+      errors.push(`Common operations: unknown operation "${operation}"`);
+      continue;
+    }
+    if (
+      policy?.timeout !== undefined &&
+      (typeof policy.timeout !== "number" || policy.timeout < 0)
+    ) {
+      errors.push(`Common operations.${operation}.timeout must be a non-negative number`);
+    }
+    if (
+      policy?.maxRetries !== undefined &&
+      (!Number.isInteger(policy.maxRetries) || policy.maxRetries < 0)
+    ) {
+      errors.push(`Common operations.${operation}.maxRetries must be a non-negative integer`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the local adapter configuration section
+ */
+export function validateLocalConfig(
+  section: unknown,
+  common: Required<CommonConfig>,
+): AdapterConfigValidationResult<LocalAdapterConfig> {
+  const local = section as LocalConfig | undefined;
+  const errors: string[] = [];
+
+  if (!local) {
+    errors.push('Local configuration required when type is "local"');
   } else {
-    // S3 config - merge S3-specific timeout/retries with common defaults
-    const s3Timeout = config.s3?.timeout ?? commonConfig.timeout;
-    const s3MaxRetries = config.s3?.maxRetries ?? commonConfig.maxRetries;
-
-    validatedConfig = {
-      type: "s3",
-      local: DEFAULT_LOCAL_CONFIG, // Include local defaults for consistency
-      s3: {
-        bucket: config.s3!.bucket,
-        region: config.s3!.region,
-        accessKeyId: config.s3!.accessKeyId || "",
-        secretAccessKey: config.s3!.secretAccessKey || "",
-        endpoint: config.s3!.endpoint || "",
-        forcePathStyle: config.s3!.forcePathStyle || false,
-        prefix: config.s3!.prefix || "",
-        timeout: s3Timeout,
-        maxRetries: s3MaxRetries,
-      },
-      common: commonConfig,
+    if (local.basePath && typeof local.basePath !== "string") {
+      errors.push("Local basePath must be a string");
+    }
+    if (local.createMissingDirs && typeof local.createMissingDirs !== "boolean") {
+      errors.push("Local createMissingDirs must be a boolean");
+    }
+    if (local.atomicWrites !== undefined && typeof local.atomicWrites !== "boolean") {
+      errors.push("Local atomicWrites must be a boolean");
+    }
+    if (local.signedUrls !== undefined) {
+      if (typeof local.signedUrls?.secret !== "string" || local.signedUrls.secret.length === 0) {
+        errors.push("Local signedUrls.secret must be a non-empty string");
+      }
+      if (typeof local.signedUrls?.baseUrl !== "string" || local.signedUrls.baseUrl.length === 0) {
+        errors.push("Local signedUrls.baseUrl must be a non-empty string");
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    config: {
+      basePath: local?.basePath || DEFAULT_LOCAL_CONFIG.basePath,
+      createMissingDirs: local?.createMissingDirs || DEFAULT_LOCAL_CONFIG.createMissingDirs,
+      atomicWrites: local?.atomicWrites ?? DEFAULT_LOCAL_CONFIG.atomicWrites,
+      signedUrls: local?.signedUrls,
+      timeout: common.timeout,
+      maxRetries: common.maxRetries,
+      debug: common.debug,
+      logger: common.logger,
+    },
+  };
+}
+
+/**
+ * Validate the in-memory adapter configuration section
+ */
+export function validateMemoryConfig(
+  section: unknown,
+  common: Required<CommonConfig>,
+): AdapterConfigValidationResult<MemoryAdapterConfig> {
+  const memory = section as MemoryConfig | undefined;
+
+  if (memory?.createMissingDirs !== undefined && typeof memory.createMissingDirs !== "boolean") {
+    return { errors: ["Memory createMissingDirs must be a boolean if provided"] };
+  }
+
+  return {
+    errors: [],
+    config: {
+      createMissingDirs: memory?.createMissingDirs ?? DEFAULT_MEMORY_CONFIG.createMissingDirs,
+      debug: common.debug,
+      logger: common.logger,
+    },
+  };
+}
+
+/**
+ * Validate the mount table configuration section
+ */
+export function validateMountConfig(
+  section: unknown,
+  common: Required<CommonConfig>,
+): AdapterConfigValidationResult<MountAdapterConfig> {
+  const mount = section as MountConfig | undefined;
+  const errors: string[] = [];
+  const mounts: Record<string, ValidatedFilesystemConfig> = {};
+
+  if (!mount || typeof mount !== "object" || Object.keys(mount).length === 0) {
+    return {
+      errors: ['Mount configuration with at least one mount point required when type is "mount"'],
     };
   }
 
-  return { isValid: true, errors: [], config: validatedConfig };
+  for (const [mountPoint, mountConfig] of Object.entries(mount)) {
+    if (!mountPoint.startsWith("/")) {
+      errors.push(`Mount point "${mountPoint}" must be an absolute path`);
+      continue;
+    }
+
+    const result = validateConfig({
+      ...mountConfig,
+      common: { ...common, ...mountConfig?.common },
+    });
+    if (!result.isValid) {
+      errors.push(...result.errors.map(error => `Mount "${mountPoint}": ${error}`));
+      continue;
+    }
+
+    mounts[mountPoint] = result.config!;
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return { errors, config: { mounts } };
+}
+
+/**
+ * Validate the encryption settings of an S3 configuration section
+ *
+ * @returns Error messages, empty if the settings are valid
+ */
+function validateS3Encryption(s3: S3Config): string[] {
+  const errors: string[] = [];
+  const { serverSideEncryption, sseKmsKeyId, sseCustomerKey } = s3;
+
+  if (
+    serverSideEncryption !== undefined &&
+    serverSideEncryption !== "AES256" &&
+    serverSideEncryption !== "aws:kms"
+  ) {
+    errors.push('S3 serverSideEncryption must be "AES256" or "aws:kms" if provided');
+  }
+  if (sseKmsKeyId !== undefined) {
+    if (typeof sseKmsKeyId !== "string" || sseKmsKeyId.length === 0) {
+      errors.push("S3 sseKmsKeyId must be a non-empty string if provided");
+    } else if (serverSideEncryption !== "aws:kms") {
+      errors.push('S3 sseKmsKeyId requires serverSideEncryption "aws:kms"');
+    }
+  }
+  if (sseCustomerKey !== undefined) {
+    if (
+      typeof sseCustomerKey !== "string" ||
+      !/^[A-Za-z0-9+/]+={0,2}$/.test(sseCustomerKey) ||
+      Buffer.from(sseCustomerKey, "base64").length !== 32
+    ) {
+      errors.push("S3 sseCustomerKey must be a base64-encoded 256-bit key");
+    }
+    if (serverSideEncryption !== undefined) {
+      errors.push("S3 sseCustomerKey cannot be combined with serverSideEncryption");
+    }
+    if (s3.endpoint?.startsWith("http://")) {
+      errors.push("S3 sseCustomerKey requires an HTTPS endpoint");
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the S3 adapter configuration section
+ */
+export function validateS3Config(
+  section: unknown,
+  common: Required<CommonConfig>,
+): AdapterConfigValidationResult<S3AdapterConfig> {
+  const s3 = section as S3Config | undefined;
+  const errors: string[] = [];
+
+  if (!s3) {
+    return { errors: ['S3 configuration required when type is "s3"'] };
+  }
+
+  if (!s3.bucket || typeof s3.bucket !== "string") {
+    errors.push("S3 bucket is required and must be a string");
+  }
+  if (!s3.region || typeof s3.region !== "string") {
+    errors.push("S3 region is required and must be a string");
+  }
+  if (s3.accessKeyId && typeof s3.accessKeyId !== "string") {
+    errors.push("S3 accessKeyId must be a string if provided");
+  }
+  if (s3.secretAccessKey && typeof s3.secretAccessKey !== "string") {
+    errors.push("S3 secretAccessKey must be a string if provided");
+  }
+  if (s3.endpoint && typeof s3.endpoint !== "string") {
+    errors.push("S3 endpoint must be a string if provided");
+  }
+  if (s3.forcePathStyle && typeof s3.forcePathStyle !== "boolean") {
+    errors.push("S3 forcePathStyle must be a boolean if provided");
+  }
+  if (s3.prefix && typeof s3.prefix !== "string") {
+    errors.push("S3 prefix must be a string if provided");
+  }
+  if (s3.timeout && (typeof s3.timeout !== "number" || s3.timeout <= 0)) {
+    errors.push("S3 timeout must be a positive number if provided");
+  }
+  if (s3.maxRetries && (typeof s3.maxRetries !== "number" || s3.maxRetries < 0)) {
+    errors.push("S3 maxRetries must be a non-negative number if provided");
+  }
+  if (
+    s3.multipartPartSize !== undefined &&
+    (typeof s3.multipartPartSize !== "number" || s3.multipartPartSize < S3_MIN_MULTIPART_PART_SIZE)
+  ) {
+    errors.push(
+      `S3 multipartPartSize must be a number of at least ${S3_MIN_MULTIPART_PART_SIZE} bytes if provided`,
+    );
+  }
+  if (
+    s3.multipartConcurrency !== undefined &&
+    (!Number.isInteger(s3.multipartConcurrency) || s3.multipartConcurrency <= 0)
+  ) {
+    errors.push("S3 multipartConcurrency must be a positive integer if provided");
+  }
+  errors.push(...validateS3Encryption(s3));
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  // Merge S3-specific timeout/retries with common defaults
+  return {
+    errors,
+    config: {
+      bucket: s3.bucket,
+      region: s3.region,
+      accessKeyId: s3.accessKeyId || "",
+      secretAccessKey: s3.secretAccessKey || "",
+      endpoint: s3.endpoint || "",
+      forcePathStyle: s3.forcePathStyle || false,
+      prefix: s3.prefix || "",
+      timeout: s3.timeout ?? common.timeout,
+      // Operations are retried by the filesystem retry layer; SDK retries only when set explicitly
+      maxRetries: s3.maxRetries ?? 0,
+      multipartPartSize: s3.multipartPartSize ?? DEFAULT_S3_CONFIG.multipartPartSize,
+      multipartConcurrency: s3.multipartConcurrency ?? DEFAULT_S3_CONFIG.multipartConcurrency,
+      serverSideEncryption: s3.serverSideEncryption,
+      sseKmsKeyId: s3.sseKmsKeyId,
+      sseCustomerKey: s3.sseCustomerKey,
+      debug: common.debug,
+      logger: common.logger,
+    },
+  };
 }
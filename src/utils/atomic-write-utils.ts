@@ -0,0 +1,144 @@
+/**
+ * Atomic Write Utilities
+ *
+ * Local file writes that readers never observe half-done: content goes to a
+ * temporary file next to the target, is flushed to disk, and only then takes
+ * the target's place.
+ */
+
+import fs from "fs/promises";
+import { randomBytes } from "crypto";
+import path from "path";
+import { Writable } from "stream";
+
+/**
+ * Options of an atomic write
+ */
+export interface AtomicWriteOptions {
+  encoding?: BufferEncoding;
+  /** Fail with EEXIST instead of replacing an existing target */
+  exclusive?: boolean;
+  /** Mode of the created file */
+  mode?: number;
+}
+
+/**
+ * Path of a temporary sibling of a file
+ *
+ * The name is hidden and random, so concurrent writers never share a
+ * temporary file and directory listings usually skip it.
+ */
+export function temporarySiblingPath(targetPath: string): string {
+  return path.join(
+    path.dirname(targetPath),
+    `.${path.basename(targetPath)}.${randomBytes(6).toString("hex")}.tmp`,
+  );
+}
+
+/**
+ * Whether a file name is that of a temporary sibling created by `temporarySiblingPath()`
+ */
+export function isTemporarySiblingName(name: string): boolean {
+  return /^\..+\.[0-9a-f]{12}\.tmp$/.test(name);
+}
+
+/**
+ * Move a fully written temporary file into place
+ *
+ * Exclusive writes hard-link the temporary file to the target, which fails
+ * with EEXIST if the target exists; other writes rename over the target.
+ */
+async function commitTemporaryFile(
+  tempPath: string,
+  targetPath: string,
+  exclusive: boolean,
+): Promise<void> {
+  if (exclusive) {
+    await fs.link(tempPath, targetPath);
+    await fs.unlink(tempPath);
+  } else {
+    await fs.rename(tempPath, targetPath);
+  }
+}
+
+/**
+ * Write a file atomically through a temporary file, fsync and rename
+ *
+ * Native errors are passed through for the caller to map. The temporary file
+ * is removed if any step fails.
+ */
+export async function writeFileAtomic(
+  targetPath: string,
+  data: string | Buffer,
+  options: AtomicWriteOptions = {},
+): Promise<void> {
+  const tempPath = temporarySiblingPath(targetPath);
+
+  try {
+    const handle = await fs.open(tempPath, "wx", options.mode);
+    try {
+      await handle.writeFile(data, typeof data === "string" ? options.encoding : undefined);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await commitTemporaryFile(tempPath, targetPath, options.exclusive ?? false);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Create a write stream that replaces the target atomically when it ends
+ *
+ * Chunks are written to a temporary file, which is fsynced and renamed over
+ * the target once the stream finishes. If the stream is destroyed before
+ * that, the temporary file is removed and the target is left unchanged.
+ */
+export function createAtomicWriteStream(
+  targetPath: string,
+  options: AtomicWriteOptions = {},
+): Writable {
+  const tempPath = temporarySiblingPath(targetPath);
+  let handle: fs.FileHandle | undefined;
+  let committed = false;
+
+  const discard = async (): Promise<void> => {
+    await handle?.close().catch(() => {});
+    handle = undefined;
+    if (!committed) {
+      await fs.rm(tempPath, { force: true }).catch(() => {});
+    }
+  };
+
+  return new Writable({
+    defaultEncoding: options.encoding,
+    construct(callback) {
+      fs.open(tempPath, "wx", options.mode).then(opened => {
+        handle = opened;
+        callback();
+      }, callback);
+    },
+    write(chunk: Buffer, _encoding, callback) {
+      handle!.write(chunk).then(() => callback(), callback);
+    },
+    final(callback) {
+      const current = handle!;
+      current
+        .sync()
+        .then(() => current.close())
+        .then(() => {
+          handle = undefined;
+          return commitTemporaryFile(tempPath, targetPath, options.exclusive ?? false);
+        })
+        .then(() => {
+          committed = true;
+          callback();
+        }, callback);
+    },
+    destroy(error, callback) {
+      discard().then(() => callback(error));
+    },
+  });
+}
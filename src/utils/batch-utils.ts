@@ -0,0 +1,98 @@
+/**
+ * Batch Utility Functions
+ *
+ * Bounded-concurrency helpers for operations on many paths at once.
+ */
+
+import { RemoveManyOptions } from "../interfaces/filesystem.interface";
+import {
+  BatchFailure,
+  BatchOperationError,
+  FileNotFoundError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+import { mapError } from "./error-mapper";
+
+/**
+ * Default number of deletions (or S3 delete batches) in flight at once
+ */
+export const DEFAULT_REMOVE_CONCURRENCY = 4;
+
+/**
+ * Validate the concurrency of a batch operation
+ *
+ * @throws {ValidationError} if the concurrency is not a positive integer
+ */
+export function resolveConcurrency(concurrency: number | undefined): number {
+  if (concurrency === undefined) {
+    return DEFAULT_REMOVE_CONCURRENCY;
+  }
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ValidationError(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+  return concurrency;
+}
+
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight
+ *
+ * Tasks are expected to handle their own errors; a rejected task stops the
+ * remaining items from being started and rejects the returned promise.
+ */
+export async function forEachWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      try {
+        await task(items[next++]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
+
+/**
+ * Remove paths one at a time with bounded concurrency
+ *
+ * Paths that do not exist are ignored. Every other failure is collected and
+ * reported together once all paths have been attempted.
+ *
+ * @throws {BatchOperationError} if any path could not be removed
+ */
+export async function removeEach(
+  paths: string[],
+  remove: (path: string) => Promise<void>,
+  options?: RemoveManyOptions,
+): Promise<void> {
+  const uniquePaths = [...new Set(paths)];
+  const failures: BatchFailure[] = [];
+
+  await forEachWithConcurrency(
+    uniquePaths,
+    resolveConcurrency(options?.concurrency),
+    async path => {
+      try {
+        await remove(path);
+      } catch (error) {
+        if (error instanceof FileNotFoundError) {
+          return;
+        }
+        failures.push({ path, error: mapError(error, { path, operation: "removeMany" }) });
+      }
+    },
+  );
+
+  if (failures.length > 0) {
+    throw new BatchOperationError("removeMany", failures, uniquePaths.length);
+  }
+}
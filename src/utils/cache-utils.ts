@@ -0,0 +1,127 @@
+/**
+ * Cache Utilities
+ *
+ * Least-recently-used cache behind the caching adapter, bounded by entry
+ * count and total size, with a time to live per entry.
+ */
+
+/**
+ * Limits of an LRU cache
+ */
+export interface LruCacheOptions<V> {
+  /** Maximum number of entries (default: unlimited) */
+  maxEntries?: number;
+  /** Maximum total size of the entries, as given to `set()` (default: unlimited) */
+  maxSize?: number;
+  /** Called for every entry leaving the cache, whether evicted, expired or deleted */
+  onRemove?: (key: string, value: V) => void;
+}
+
+interface LruEntry<V> {
+  value: V;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * Map of string keys evicting its least recently used entries beyond its limits
+ */
+export class LruCache<V> {
+  // Map iteration follows insertion order, so the first entry is the least recently used
+  private readonly entries = new Map<string, LruEntry<V>>();
+  private totalSize = 0;
+
+  constructor(private readonly options: LruCacheOptions<V> = {}) {}
+
+  /**
+   * Number of entries, including expired entries not removed yet
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get the value of a key and mark it as recently used
+   *
+   * @returns The value, or undefined if the key is missing or has expired
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Set the value of a key, evicting the least recently used entries beyond the limits
+   *
+   * A value with a time to live of 0 or larger than `maxSize` is not stored.
+   *
+   * @param options.ttl - Time to live in milliseconds (default: no expiry)
+   * @param options.size - Size counted against `maxSize` (default: 0)
+   */
+  set(key: string, value: V, options: { ttl?: number; size?: number } = {}): void {
+    this.delete(key);
+
+    const size = options.size ?? 0;
+    const ttl = options.ttl ?? Infinity;
+    if (ttl <= 0 || size > (this.options.maxSize ?? Infinity)) {
+      return;
+    }
+
+    this.entries.set(key, { value, size, expiresAt: Date.now() + ttl });
+    this.totalSize += size;
+
+    const maxEntries = this.options.maxEntries ?? Infinity;
+    const maxSize = this.options.maxSize ?? Infinity;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries && this.totalSize <= maxSize) {
+        break;
+      }
+      this.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove a key
+   *
+   * @returns Whether the key was cached
+   */
+  delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.totalSize -= entry.size;
+    this.options.onRemove?.(key, entry.value);
+    return true;
+  }
+
+  /**
+   * Remove every key matching a predicate
+   */
+  deleteWhere(predicate: (key: string) => boolean): void {
+    for (const key of [...this.entries.keys()]) {
+      if (predicate(key)) {
+        this.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.deleteWhere(() => true);
+  }
+}
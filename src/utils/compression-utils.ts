@@ -0,0 +1,121 @@
+/**
+ * Compression Utilities
+ *
+ * Codecs of the compression adapter, built on Node.js zlib. Compressed files
+ * are stored under their path plus the codec suffix (e.g. `app.log.gz`), so the
+ * codec of a file is recorded in its name and standard tools can open it.
+ */
+
+import { Transform } from "stream";
+import zlib from "zlib";
+
+import type { CompressionCodec } from "../types/config";
+import { ValidationError } from "../errors/filesystem-errors";
+
+/**
+ * File name suffix recording each codec
+ */
+export const COMPRESSION_SUFFIXES: Record<CompressionCodec, string> = {
+  gzip: ".gz",
+  brotli: ".br",
+  zstd: ".zst",
+};
+
+/**
+ * Valid compression levels of each codec
+ */
+export const COMPRESSION_LEVELS: Record<CompressionCodec, { min: number; max: number }> = {
+  gzip: { min: 0, max: 9 },
+  brotli: { min: 0, max: 11 },
+  zstd: { min: 1, max: 22 },
+};
+
+/**
+ * zstd support of zlib, added in Node.js 22.15 and missing from older type definitions
+ */
+const zstd = zlib as unknown as {
+  createZstdCompress?: (options?: { params?: Record<number, number> }) => Transform;
+  createZstdDecompress?: () => Transform;
+};
+
+/**
+ * zlib parameter of the zstd compression level (`zlib.constants.ZSTD_c_compressionLevel`)
+ */
+const ZSTD_C_COMPRESSION_LEVEL = 100;
+
+/**
+ * Whether a codec is supported by the running Node.js version
+ */
+export function isCodecAvailable(codec: CompressionCodec): boolean {
+  return codec !== "zstd" || typeof zstd.createZstdCompress === "function";
+}
+
+/**
+ * Whether compressed data of a codec can be appended to as is
+ *
+ * gzip members and zstd frames may be concatenated; brotli streams may not.
+ */
+export function isConcatenable(codec: CompressionCodec): boolean {
+  return codec !== "brotli";
+}
+
+/**
+ * Create a transform compressing data with a codec
+ *
+ * @param level - Compression level within `COMPRESSION_LEVELS` (default: the codec default)
+ * @throws {ValidationError} if the codec is not supported by the running Node.js version
+ */
+export function createCompressStream(codec: CompressionCodec, level?: number): Transform {
+  switch (codec) {
+    case "gzip":
+      return zlib.createGzip(level !== undefined ? { level } : {});
+    case "brotli":
+      return zlib.createBrotliCompress(
+        level !== undefined ? { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } } : {},
+      );
+    case "zstd":
+      return requireZstd().createZstdCompress!(
+        level !== undefined ? { params: { [ZSTD_C_COMPRESSION_LEVEL]: level } } : {},
+      );
+  }
+}
+
+/**
+ * Create a transform decompressing data of a codec
+ *
+ * @throws {ValidationError} if the codec is not supported by the running Node.js version
+ */
+export function createDecompressStream(codec: CompressionCodec): Transform {
+  switch (codec) {
+    case "gzip":
+      return zlib.createGunzip();
+    case "brotli":
+      return zlib.createBrotliDecompress();
+    case "zstd":
+      return requireZstd().createZstdDecompress!();
+  }
+}
+
+/**
+ * zstd functions of zlib
+ *
+ * @throws {ValidationError} if the running Node.js version has no zstd support
+ */
+function requireZstd(): typeof zstd {
+  if (!isCodecAvailable("zstd")) {
+    throw new ValidationError("zstd compression requires Node.js 22.15 or later");
+  }
+  return zstd;
+}
+
+/**
+ * Run a buffer through a compression or decompression transform
+ */
+export async function transformBuffer(data: Buffer, transform: Transform): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  transform.end(data);
+  for await (const chunk of transform) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,215 @@
+/**
+ * Content Type Utilities
+ *
+ * MIME type detection from file extensions and, when the content is at hand,
+ * from the magic bytes at its start.
+ */
+
+import path from "path";
+
+/**
+ * MIME types by lowercase file extension
+ */
+const EXTENSION_TYPES: Record<string, string> = {
+  // Text
+  txt: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  xml: "application/xml",
+  json: "application/json",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  ics: "text/calendar",
+  // Images
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  bmp: "image/bmp",
+  ico: "image/vnd.microsoft.icon",
+  svg: "image/svg+xml",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  // Audio and video
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  m4a: "audio/mp4",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  avi: "video/x-msvideo",
+  // Documents
+  pdf: "application/pdf",
+  rtf: "application/rtf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  epub: "application/epub+zip",
+  // Archives
+  zip: "application/zip",
+  gz: "application/gzip",
+  tgz: "application/gzip",
+  tar: "application/x-tar",
+  bz2: "application/x-bzip2",
+  "7z": "application/x-7z-compressed",
+  rar: "application/vnd.rar",
+  zst: "application/zstd",
+  // Fonts and binaries
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  wasm: "application/wasm",
+};
+
+/**
+ * Content signature: the bytes expected at an offset of the content
+ */
+interface Signature {
+  type: string;
+  bytes: Array<{ offset: number; value: number[] }>;
+}
+
+const ascii = (text: string): number[] => [...text].map(char => char.charCodeAt(0));
+
+/**
+ * Magic byte signatures, checked in order
+ */
+const SIGNATURES: Signature[] = [
+  { type: "image/png", bytes: [{ offset: 0, value: [0x89, ...ascii("PNG\r\n\x1a\n")] }] },
+  { type: "image/jpeg", bytes: [{ offset: 0, value: [0xff, 0xd8, 0xff] }] },
+  { type: "image/gif", bytes: [{ offset: 0, value: ascii("GIF8") }] },
+  {
+    type: "image/webp",
+    bytes: [
+      { offset: 0, value: ascii("RIFF") },
+      { offset: 8, value: ascii("WEBP") },
+    ],
+  },
+  {
+    type: "audio/wav",
+    bytes: [
+      { offset: 0, value: ascii("RIFF") },
+      { offset: 8, value: ascii("WAVE") },
+    ],
+  },
+  {
+    type: "video/x-msvideo",
+    bytes: [
+      { offset: 0, value: ascii("RIFF") },
+      { offset: 8, value: ascii("AVI ") },
+    ],
+  },
+  { type: "image/bmp", bytes: [{ offset: 0, value: ascii("BM") }] },
+  { type: "image/tiff", bytes: [{ offset: 0, value: [0x49, 0x49, 0x2a, 0x00] }] },
+  { type: "image/tiff", bytes: [{ offset: 0, value: [0x4d, 0x4d, 0x00, 0x2a] }] },
+  { type: "image/avif", bytes: [{ offset: 4, value: ascii("ftypavif") }] },
+  { type: "image/heic", bytes: [{ offset: 4, value: ascii("ftypheic") }] },
+  { type: "video/quicktime", bytes: [{ offset: 4, value: ascii("ftypqt") }] },
+  { type: "audio/mp4", bytes: [{ offset: 4, value: ascii("ftypM4A") }] },
+  { type: "video/mp4", bytes: [{ offset: 4, value: ascii("ftyp") }] },
+  { type: "application/pdf", bytes: [{ offset: 0, value: ascii("%PDF-") }] },
+  { type: "application/zip", bytes: [{ offset: 0, value: [0x50, 0x4b, 0x03, 0x04] }] },
+  { type: "application/gzip", bytes: [{ offset: 0, value: [0x1f, 0x8b] }] },
+  { type: "application/x-bzip2", bytes: [{ offset: 0, value: ascii("BZh") }] },
+  { type: "application/zstd", bytes: [{ offset: 0, value: [0x28, 0xb5, 0x2f, 0xfd] }] },
+  {
+    type: "application/x-7z-compressed",
+    bytes: [{ offset: 0, value: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] }],
+  },
+  { type: "application/vnd.rar", bytes: [{ offset: 0, value: ascii("Rar!\x1a\x07") }] },
+  { type: "audio/mpeg", bytes: [{ offset: 0, value: ascii("ID3") }] },
+  { type: "audio/ogg", bytes: [{ offset: 0, value: ascii("OggS") }] },
+  { type: "audio/flac", bytes: [{ offset: 0, value: ascii("fLaC") }] },
+  { type: "video/webm", bytes: [{ offset: 0, value: [0x1a, 0x45, 0xdf, 0xa3] }] },
+  { type: "font/woff", bytes: [{ offset: 0, value: ascii("wOFF") }] },
+  { type: "font/woff2", bytes: [{ offset: 0, value: ascii("wOF2") }] },
+  { type: "application/wasm", bytes: [{ offset: 0, value: [0x00, ...ascii("asm")] }] },
+];
+
+/**
+ * Formats stored as ZIP archives, whose content only reveals the container
+ */
+const ZIP_BASED_TYPES = new Set([
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.oasis.opendocument.text",
+  "application/vnd.oasis.opendocument.spreadsheet",
+  "application/epub+zip",
+]);
+
+/**
+ * Identify content by its magic bytes
+ */
+function sniffContentType(content: Buffer): string | undefined {
+  return SIGNATURES.find(signature =>
+    signature.bytes.every(
+      ({ offset, value }) =>
+        content.length >= offset + value.length &&
+        value.every((byte, index) => content[offset + index] === byte),
+    ),
+  )?.type;
+}
+
+/**
+ * Detect the MIME type of a file
+ *
+ * When content is given, a recognized magic byte signature wins over the
+ * extension, so a renamed file reports its real type; ZIP-based formats such
+ * as `.docx` keep the type of their extension. Text formats have no
+ * signature and are detected by extension only.
+ *
+ * @param filePath - Path or file name; only the extension is used
+ * @param content - Optional content, or its first bytes
+ * @returns The MIME type, or undefined if neither the content nor the extension is known
+ */
+export function detectContentType(filePath: string, content?: Buffer): string | undefined {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  const byExtension = Object.prototype.hasOwnProperty.call(EXTENSION_TYPES, extension)
+    ? EXTENSION_TYPES[extension]
+    : undefined;
+  const sniffed = content ? sniffContentType(content) : undefined;
+
+  if (sniffed === "application/zip" && byExtension && ZIP_BASED_TYPES.has(byExtension)) {
+    return byExtension;
+  }
+  return sniffed ?? byExtension;
+}
+
+/**
+ * Check that content is of a MIME type, as far as its magic bytes tell
+ *
+ * Unlike `detectContentType()`, this never trusts a file name: content that
+ * the type's signature does not match fails, whatever it is called.
+ *
+ * @returns false if the type has a signature that the content does not carry;
+ *   true for matching content and for types without a signature (e.g. text formats)
+ */
+export function contentMatchesType(type: string, content: Buffer): boolean {
+  const normalized = type.split(";")[0].trim().toLowerCase();
+  if (ZIP_BASED_TYPES.has(normalized)) {
+    return sniffContentType(content) === "application/zip";
+  }
+  if (!SIGNATURES.some(signature => signature.type === normalized)) {
+    return true;
+  }
+  return sniffContentType(content) === normalized;
+}
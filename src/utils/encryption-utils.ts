@@ -0,0 +1,298 @@
+/**
+ * Encryption Utilities
+ *
+ * Envelope encryption behind the encrypted adapter. Every file gets a random
+ * data key that encrypts its content with AES-256-GCM; the data key is stored
+ * in the file header, wrapped (encrypted) with a key derived from the master
+ * key. File names are encrypted deterministically, so a path always maps to
+ * the same stored name and lookups need no index.
+ *
+ * Encrypted file layout:
+ *
+ *   "ENC1" | wrap IV (12) | wrapped data key (32) | wrap tag (16) | content IV (12)
+ *   | ciphertext | content tag (16)
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+  timingSafeEqual,
+} from "crypto";
+import { Transform } from "stream";
+
+import { FilesystemErrorContext, StorageError, ValidationError } from "../errors/filesystem-errors";
+
+const MAGIC = Buffer.from("ENC1");
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const NAME_IV_LENGTH = 16;
+
+/**
+ * Length of the header preceding the ciphertext
+ */
+export const ENCRYPTION_HEADER_LENGTH =
+  MAGIC.length + IV_LENGTH + KEY_LENGTH + TAG_LENGTH + IV_LENGTH;
+
+/**
+ * Bytes an encrypted file is larger than its plaintext
+ */
+export const ENCRYPTION_OVERHEAD = ENCRYPTION_HEADER_LENGTH + TAG_LENGTH;
+
+/**
+ * Keys derived from a master key
+ */
+export interface EncryptionKeys {
+  /** Wraps the per-file data keys */
+  wrapKey: Buffer;
+  /** Encrypts file names */
+  nameKey: Buffer;
+  /** Derives the synthetic IVs of file names, which double as their authentication tags */
+  nameMacKey: Buffer;
+}
+
+/**
+ * Whether a value is a base64-encoded 256-bit key
+ */
+export function isValidMasterKey(masterKey: unknown): masterKey is string {
+  return (
+    typeof masterKey === "string" &&
+    /^[A-Za-z0-9+/]+={0,2}$/.test(masterKey) &&
+    Buffer.from(masterKey, "base64").length === KEY_LENGTH
+  );
+}
+
+/**
+ * Derive the content and file name keys from a base64-encoded master key
+ *
+ * @throws {ValidationError} if the master key is not a base64-encoded 256-bit key
+ */
+export function deriveEncryptionKeys(masterKey: string): EncryptionKeys {
+  if (!isValidMasterKey(masterKey)) {
+    throw new ValidationError("Encryption masterKey must be a base64-encoded 256-bit key");
+  }
+
+  const keyMaterial = Buffer.from(masterKey, "base64");
+  const derive = (info: string) =>
+    Buffer.from(hkdfSync("sha256", keyMaterial, Buffer.alloc(0), info, KEY_LENGTH));
+
+  return {
+    wrapKey: derive("data-key-wrapping"),
+    nameKey: derive("file-name-encryption"),
+    nameMacKey: derive("file-name-authentication"),
+  };
+}
+
+/**
+ * Size of the plaintext of an encrypted file
+ */
+export function plaintextSize(encryptedSize: number): number {
+  return Math.max(0, encryptedSize - ENCRYPTION_OVERHEAD);
+}
+
+/**
+ * Create the header and content cipher of a new encrypted file
+ *
+ * The header is authenticated as additional data of the content, so it
+ * cannot be swapped between files.
+ */
+export function createContentCipher(keys: EncryptionKeys) {
+  const dataKey = randomBytes(KEY_LENGTH);
+  const wrapIv = randomBytes(IV_LENGTH);
+  const contentIv = randomBytes(IV_LENGTH);
+
+  const wrapCipher = createCipheriv("aes-256-gcm", keys.wrapKey, wrapIv);
+  const wrappedKey = Buffer.concat([wrapCipher.update(dataKey), wrapCipher.final()]);
+  const header = Buffer.concat([MAGIC, wrapIv, wrappedKey, wrapCipher.getAuthTag(), contentIv]);
+
+  const cipher = createCipheriv("aes-256-gcm", dataKey, contentIv);
+  cipher.setAAD(header);
+  return { header, cipher };
+}
+
+/**
+ * Create the content decipher of an encrypted file from its header
+ *
+ * @throws {StorageError} if the header is invalid or the data key cannot be unwrapped
+ */
+function createContentDecipher(
+  header: Buffer,
+  keys: EncryptionKeys,
+  context: FilesystemErrorContext,
+) {
+  if (header.length < ENCRYPTION_HEADER_LENGTH || !header.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw decryptionError("the file is not encrypted", context);
+  }
+
+  let offset = MAGIC.length;
+  const next = (length: number) => header.subarray(offset, (offset += length));
+  const wrapIv = next(IV_LENGTH);
+  const wrappedKey = next(KEY_LENGTH);
+  const wrapTag = next(TAG_LENGTH);
+  const contentIv = next(IV_LENGTH);
+
+  let dataKey: Buffer;
+  try {
+    const wrapDecipher = createDecipheriv("aes-256-gcm", keys.wrapKey, wrapIv);
+    wrapDecipher.setAuthTag(wrapTag);
+    dataKey = Buffer.concat([wrapDecipher.update(wrappedKey), wrapDecipher.final()]);
+  } catch (error) {
+    throw decryptionError("the data key cannot be unwrapped (wrong master key?)", context, error);
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", dataKey, contentIv);
+  decipher.setAAD(header.subarray(0, ENCRYPTION_HEADER_LENGTH));
+  return decipher;
+}
+
+/**
+ * Error raised when encrypted content cannot be decrypted
+ */
+function decryptionError(
+  reason: string,
+  context: FilesystemErrorContext,
+  cause?: unknown,
+): StorageError {
+  return new StorageError(`Cannot decrypt ${context.path ?? "file"}: ${reason}`, {
+    ...context,
+    cause: cause instanceof Error ? cause : undefined,
+  });
+}
+
+/**
+ * Encrypt the complete content of a file
+ */
+export function encryptContent(plaintext: Buffer, keys: EncryptionKeys): Buffer {
+  const { header, cipher } = createContentCipher(keys);
+  return Buffer.concat([header, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+/**
+ * Decrypt and authenticate the complete content of a file
+ *
+ * @throws {StorageError} if the content is not encrypted with the keys or has been modified
+ */
+export function decryptContent(
+  encrypted: Buffer,
+  keys: EncryptionKeys,
+  context: FilesystemErrorContext,
+): Buffer {
+  if (encrypted.length < ENCRYPTION_OVERHEAD) {
+    throw decryptionError("the file is not encrypted or truncated", context);
+  }
+
+  const decipher = createContentDecipher(encrypted, keys, context);
+  decipher.setAuthTag(encrypted.subarray(encrypted.length - TAG_LENGTH));
+  try {
+    return Buffer.concat([
+      decipher.update(encrypted.subarray(ENCRYPTION_HEADER_LENGTH, encrypted.length - TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    throw decryptionError("authentication failed (content modified)", context, error);
+  }
+}
+
+/**
+ * Create a transform decrypting an encrypted file as it streams through
+ *
+ * Plaintext is released before the authentication tag at the end of the file
+ * has been checked; a modified file makes the stream fail at its end.
+ */
+export function createDecryptStream(
+  keys: EncryptionKeys,
+  context: FilesystemErrorContext,
+): Transform {
+  let header: Buffer = Buffer.alloc(0);
+  let decipher: ReturnType<typeof createContentDecipher> | undefined;
+  // The last bytes seen may be the authentication tag, so they are held back
+  let pending: Buffer = Buffer.alloc(0);
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        let data = chunk;
+        if (!decipher) {
+          header = Buffer.concat([header, data]);
+          if (header.length < ENCRYPTION_HEADER_LENGTH) {
+            return callback();
+          }
+          decipher = createContentDecipher(header, keys, context);
+          data = header.subarray(ENCRYPTION_HEADER_LENGTH);
+        }
+
+        pending = Buffer.concat([pending, data]);
+        const releasable = pending.length - TAG_LENGTH;
+        if (releasable > 0) {
+          this.push(decipher.update(pending.subarray(0, releasable)));
+          pending = pending.subarray(releasable);
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+
+    flush(callback) {
+      if (!decipher || pending.length < TAG_LENGTH) {
+        return callback(decryptionError("the file is not encrypted or truncated", context));
+      }
+      try {
+        decipher.setAuthTag(pending);
+        callback(null, decipher.final());
+      } catch (error) {
+        callback(decryptionError("authentication failed (content modified)", context, error));
+      }
+    },
+  });
+}
+
+/**
+ * Encrypt a file name (one path segment)
+ *
+ * The IV is an HMAC of the name, so equal names encrypt equally and the IV
+ * authenticates the name on decryption. The result is base64url, adding
+ * 16 bytes plus a third to the name length.
+ */
+export function encryptFileName(name: string, keys: EncryptionKeys): string {
+  const plaintext = Buffer.from(name, "utf8");
+  const iv = createHmac("sha256", keys.nameMacKey)
+    .update(plaintext)
+    .digest()
+    .subarray(0, NAME_IV_LENGTH);
+  const cipher = createCipheriv("aes-256-ctr", keys.nameKey, iv);
+
+  return Buffer.concat([iv, cipher.update(plaintext), cipher.final()]).toString("base64url");
+}
+
+/**
+ * Decrypt a file name encrypted with `encryptFileName()`
+ *
+ * @returns The name, or undefined if it was not encrypted with the keys
+ */
+export function decryptFileName(encryptedName: string, keys: EncryptionKeys): string | undefined {
+  if (!/^[A-Za-z0-9_-]+$/.test(encryptedName)) {
+    return undefined;
+  }
+
+  const data = Buffer.from(encryptedName, "base64url");
+  if (data.length <= NAME_IV_LENGTH) {
+    return undefined;
+  }
+
+  const iv = data.subarray(0, NAME_IV_LENGTH);
+  const decipher = createDecipheriv("aes-256-ctr", keys.nameKey, iv);
+  const plaintext = Buffer.concat([
+    decipher.update(data.subarray(NAME_IV_LENGTH)),
+    decipher.final(),
+  ]);
+  const expected = createHmac("sha256", keys.nameMacKey)
+    .update(plaintext)
+    .digest()
+    .subarray(0, NAME_IV_LENGTH);
+
+  return timingSafeEqual(iv, expected) ? plaintext.toString("utf8") : undefined;
+}
@@ -6,166 +6,253 @@
  */
 
 import {
+  AlreadyExistsError,
+  DirectoryNotEmptyError,
   FilesystemError,
+  FilesystemErrorCode,
+  FilesystemErrorContext,
   FileNotFoundError,
+  IsDirectoryError,
+  NotDirectoryError,
   PermissionError,
+  PreconditionFailedError,
   StorageError,
   NetworkError,
   ValidationError,
+  withErrorContext,
 } from "../errors/filesystem-errors";
 
 /**
  * Error mapping context
  */
-export interface ErrorMappingContext {
-  /** File path involved in the operation */
-  path?: string;
-  /** Operation being performed */
-  operation?: string;
+export interface ErrorMappingContext extends FilesystemErrorContext {
   /** Additional metadata */
   metadata?: Record<string, any>;
 }
 
 /**
- * Map a native error to appropriate filesystem error
+ * Filesystem error codes of backend error codes
+ *
+ * Keys are Node.js errno codes and AWS SDK error names (`Code`).
  */
-export function mapError(error: any, context: ErrorMappingContext = {}): FilesystemError {
-  const errorName = error.name || error.constructor.name;
-  const errorMessage = error.message || String(error);
-  const errorCode = error.code || error.errorCode;
+const BACKEND_ERROR_CODES: Record<string, FilesystemErrorCode> = {
+  // Not found
+  ENOENT: "ENOENT",
+  NoSuchKey: "ENOENT",
+  NotFound: "ENOENT",
+  NoSuchUpload: "ENOENT",
 
-  // Extract path from context or error
-  const path = context.path || error.path || "unknown";
-  const operation = context.operation || error.operation || "operation";
+  // Conflicts with the existing entry
+  EEXIST: "EEXIST",
+  ENOTEMPTY: "ENOTEMPTY",
+  EISDIR: "EISDIR",
+  ENOTDIR: "ENOTDIR",
 
-  // Common error patterns across backends
+  // Conditional request found a different version
+  PreconditionFailed: "EPRECONDITION",
 
-  // File not found errors
-  if (
-    errorName === "ENOENT" ||
-    errorCode === "ENOENT" ||
-    errorName === "NoSuchKey" ||
-    errorName === "NotFound" ||
-    errorMessage.includes("not found") ||
-    errorMessage.includes("does not exist") ||
-    errorMessage.includes("ENOENT")
-  ) {
-    return new FileNotFoundError(path, {
-      cause: error,
-    });
-  }
+  // Permissions and credentials
+  EACCES: "EACCES",
+  EPERM: "EACCES",
+  EROFS: "EACCES",
+  AccessDenied: "EACCES",
+  Forbidden: "EACCES",
+  InvalidAccessKeyId: "EACCES",
+  SignatureDoesNotMatch: "EACCES",
 
-  // Permission errors
-  if (
-    errorName === "EACCES" ||
-    errorName === "EPERM" ||
-    errorCode === "EACCES" ||
-    errorCode === "EPERM" ||
-    errorName === "AccessDenied" ||
-    errorName === "Forbidden" ||
-    errorMessage.includes("permission denied") ||
-    errorMessage.includes("access denied") ||
-    errorMessage.includes("EACCES") ||
-    errorMessage.includes("EPERM")
-  ) {
-    return new PermissionError(path, operation, {
-      cause: error,
-    });
+  // Capacity
+  ENOSPC: "ENOSPC",
+  EDQUOT: "ENOSPC",
+  EntityTooLarge: "ENOSPC",
+
+  // Invalid input
+  EINVAL: "EINVAL",
+  ENAMETOOLONG: "EINVAL",
+  InvalidArgument: "EINVAL",
+  InvalidRange: "EINVAL",
+  KeyTooLongError: "EINVAL",
+
+  // Timeouts
+  ETIMEDOUT: "ETIMEDOUT",
+  TimeoutError: "ETIMEDOUT",
+  RequestTimeout: "ETIMEDOUT",
+
+  // Throttling and temporary unavailability
+  EAGAIN: "EAGAIN",
+  EBUSY: "EAGAIN",
+  EMFILE: "EAGAIN",
+  SlowDown: "EAGAIN",
+  ThrottlingException: "EAGAIN",
+  TooManyRequests: "EAGAIN",
+  ServiceUnavailable: "EAGAIN",
+
+  // Connection failures
+  ECONNREFUSED: "ENETWORK",
+  ECONNRESET: "ENETWORK",
+  EPIPE: "ENETWORK",
+  EAI_AGAIN: "ENETWORK",
+  ENOTFOUND: "ENETWORK",
+  NetworkError: "ENETWORK",
+  NetworkingError: "ENETWORK",
+};
+
+/**
+ * Filesystem error codes of HTTP status codes, for backend errors without a known code
+ */
+const HTTP_STATUS_CODES: Record<number, FilesystemErrorCode> = {
+  400: "EINVAL",
+  401: "EACCES",
+  403: "EACCES",
+  404: "ENOENT",
+  408: "ETIMEDOUT",
+  412: "EPRECONDITION",
+  429: "EAGAIN",
+  503: "EAGAIN",
+};
+
+/**
+ * Check whether an error carries a field, whatever its type
+ */
+function hasField<K extends string>(error: unknown, key: K): error is Record<K, unknown> {
+  return typeof error === "object" && error !== null && key in error;
+}
+
+/**
+ * HTTP status code reported with an AWS SDK error
+ */
+function getHttpStatusCode(error: unknown): number | undefined {
+  if (!hasField(error, "$metadata") || !hasField(error.$metadata, "httpStatusCode")) {
+    return undefined;
   }
+  const statusCode = error.$metadata.httpStatusCode;
+  return typeof statusCode === "number" ? statusCode : undefined;
+}
 
-  // Network errors
-  if (
-    errorName === "NetworkError" ||
-    errorName === "TimeoutError" ||
-    errorName === "ECONNREFUSED" ||
-    errorName === "ECONNRESET" ||
-    errorCode === "ECONNREFUSED" ||
-    errorCode === "ECONNRESET" ||
-    errorMessage.includes("network") ||
-    errorMessage.includes("connection") ||
-    errorMessage.includes("timeout") ||
-    errorMessage.includes("ECONN")
-  ) {
-    return new NetworkError(errorMessage, {
-      cause: error,
-    });
+/**
+ * Backend error code of an error: the Node.js `code`, the AWS SDK `Code`, or
+ * the error name
+ */
+function getBackendErrorCode(error: unknown): string | undefined {
+  if (hasField(error, "code") && typeof error.code === "string") {
+    return error.code;
   }
+  if (hasField(error, "Code") && typeof error.Code === "string") {
+    return error.Code;
+  }
+  return hasField(error, "name") && typeof error.name === "string" ? error.name : undefined;
+}
 
-  // Validation errors
-  if (
-    errorName === "EINVAL" ||
-    errorCode === "EINVAL" ||
-    errorName === "ValidationError" ||
-    errorMessage.includes("invalid") ||
-    errorMessage.includes("validation") ||
-    errorMessage.includes("EINVAL")
-  ) {
-    return new ValidationError(errorMessage, {
-      cause: error,
-    });
+/**
+ * Resolve the filesystem error code of a backend error
+ *
+ * The backend error code wins over the HTTP status code, which is only a
+ * coarse hint (e.g. a 404 can also mean that the bucket does not exist).
+ */
+export function resolveErrorCode(error: unknown): FilesystemErrorCode {
+  const backendCode = getBackendErrorCode(error);
+  if (backendCode && BACKEND_ERROR_CODES[backendCode]) {
+    return BACKEND_ERROR_CODES[backendCode];
+  }
+  if (backendCode === "NoSuchBucket") {
+    return "EIO";
   }
 
-  // Storage errors (bucket not found, disk full, etc.)
-  if (
-    errorName === "ENOSPC" ||
-    errorCode === "ENOSPC" ||
-    errorName === "NoSuchBucket" ||
-    errorName === "BucketNotFound" ||
-    errorMessage.includes("disk full") ||
-    errorMessage.includes("no space") ||
-    errorMessage.includes("bucket") ||
-    errorMessage.includes("ENOSPC")
-  ) {
-    return new StorageError(errorMessage, {
-      cause: error,
-    });
+  const statusCode = getHttpStatusCode(error);
+  return statusCode !== undefined ? (HTTP_STATUS_CODES[statusCode] ?? "EIO") : "EIO";
+}
+
+/**
+ * Map a backend error to the appropriate filesystem error
+ *
+ * This is the single mapping pipeline for all adapters. Errors are classified
+ * by their structured code (Node.js `code`, AWS SDK error name) and HTTP status,
+ * never by message text. Filesystem errors are passed through, with missing
+ * context fields filled in.
+ */
+export function mapError(error: unknown, context: ErrorMappingContext = {}): FilesystemError {
+  if (error instanceof FilesystemError) {
+    return withErrorContext(error, context);
   }
 
-  // Default to generic filesystem error
-  return new FilesystemError(errorMessage, {
-    cause: error,
-  });
+  const cause = error instanceof Error ? error : new Error(String(error));
+  const code = resolveErrorCode(error);
+  const path =
+    context.path ??
+    (hasField(error, "path") && typeof error.path === "string" ? error.path : undefined);
+  const options = { cause, code, path, operation: context.operation, backend: context.backend };
+
+  switch (code) {
+    case "ENOENT":
+      return new FileNotFoundError(path ?? "unknown", options);
+    case "EEXIST":
+      return new AlreadyExistsError(path ?? "unknown", options);
+    case "ENOTEMPTY":
+      return new DirectoryNotEmptyError(path ?? "unknown", options);
+    case "EISDIR":
+      return new IsDirectoryError(path ?? "unknown", options);
+    case "ENOTDIR":
+      return new NotDirectoryError(path ?? "unknown", options);
+    case "EPRECONDITION":
+      return new PreconditionFailedError(path ?? "unknown", options);
+    case "EACCES":
+      return new PermissionError(path ?? "unknown", context.operation ?? "operation", options);
+    case "ENOSPC":
+      return new StorageError(cause.message, options);
+    case "EINVAL":
+      return new ValidationError(cause.message, options);
+    case "ETIMEDOUT":
+    case "EAGAIN":
+    case "ENETWORK":
+      return new NetworkError(cause.message, options);
+    case "EIO":
+      return getBackendErrorCode(error) === "NoSuchBucket"
+        ? new StorageError(cause.message, options)
+        : new FilesystemError(cause.message, options);
+    default:
+      return new FilesystemError(cause.message, options);
+  }
 }
 
+/**
+ * Filesystem error codes of transient failures worth retrying
+ */
+const RETRYABLE_ERROR_CODES: ReadonlySet<FilesystemErrorCode> = new Set([
+  "ETIMEDOUT",
+  "EAGAIN",
+  "ENETWORK",
+]);
+
 /**
  * Check if error is retryable
+ *
+ * Like `mapError`, this only looks at the structured code, the HTTP status and
+ * the AWS SDK's `$retryable` flag, never at message text. Filesystem errors
+ * without a code of their own (EIO) are judged by the backend error they wrap.
  */
-export function isRetryableError(error: any): boolean {
-  const errorName = error.name || error.constructor.name;
-  const errorCode = error.code || error.errorCode;
-  const errorMessage = error.message || String(error);
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof FilesystemError) {
+    if (RETRYABLE_ERROR_CODES.has(error.code)) {
+      return true;
+    }
+    return error.code === "EIO" && error.cause !== undefined && isRetryableError(error.cause);
+  }
 
-  // Network errors are usually retryable
-  if (
-    errorName === "NetworkError" ||
-    errorName === "TimeoutError" ||
-    errorCode === "ECONNREFUSED" ||
-    errorCode === "ECONNRESET" ||
-    errorMessage.includes("network") ||
-    errorMessage.includes("connection") ||
-    errorMessage.includes("timeout")
-  ) {
-    return true;
+  // Aborted operations must not be retried
+  if (hasField(error, "name") && error.name === "AbortError") {
+    return false;
   }
 
-  // Throttling/rate limiting errors
+  // Server errors and throttling reported by the AWS SDK
+  const statusCode = getHttpStatusCode(error);
   if (
-    errorName === "ThrottlingException" ||
-    errorName === "TooManyRequests" ||
-    errorMessage.includes("throttl") ||
-    errorMessage.includes("rate limit") ||
-    errorMessage.includes("too many requests")
+    (hasField(error, "$retryable") && error.$retryable) ||
+    statusCode === 429 ||
+    (statusCode !== undefined && statusCode >= 500 && statusCode < 600)
   ) {
     return true;
   }
 
-  // Service unavailable
-  if (errorName === "ServiceUnavailable" || errorMessage.includes("service unavailable")) {
-    return true;
-  }
-
-  // Default: not retryable
-  return false;
+  return RETRYABLE_ERROR_CODES.has(resolveErrorCode(error));
 }
 
 /**
@@ -190,6 +277,10 @@ export function getRetryDelay(_error: any, attempt: number): number {
 
 /**
  * Wrap an operation with retry logic
+ *
+ * The operation runs once plus up to `maxRetries` more times (default 3) while
+ * it fails with retryable errors. Aborting `signal` stops waiting for the next
+ * attempt and rejects with the abort reason.
  */
 export async function withRetry<T>(
   operation: () => Promise<T>,
@@ -197,21 +288,22 @@ export async function withRetry<T>(
     maxRetries?: number;
     isRetryable?: (error: any) => boolean;
     onRetry?: (error: any, attempt: number, delay: number) => void;
+    signal?: AbortSignal;
   } = {},
 ): Promise<T> {
-  const maxRetries = options.maxRetries || 3;
+  const maxAttempts = (options.maxRetries ?? 3) + 1;
   const isRetryable = options.isRetryable || isRetryableError;
 
   let lastError: any;
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
       return await operation();
     } catch (error) {
       lastError = error;
 
       // Check if we should retry
-      if (attempt < maxRetries && isRetryable(error)) {
+      if (attempt < maxAttempts && isRetryable(error) && !options.signal?.aborted) {
         const delay = getRetryDelay(error, attempt);
 
         if (options.onRetry) {
@@ -219,7 +311,7 @@ export async function withRetry<T>(
         }
 
         // Wait before retrying
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await sleep(delay, options.signal);
         continue;
       }
 
@@ -231,6 +323,23 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+/**
+ * Wait for a delay, rejecting early with the abort reason if the signal aborts
+ */
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 /**
  * Create a standardized error message for logging
  */
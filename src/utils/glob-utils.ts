@@ -0,0 +1,273 @@
+/**
+ * Glob Utility Functions
+ *
+ * Pattern matching for `Filesystem.glob()` and the directory walkers behind it.
+ * Supports `**` (any number of path segments), `*`, `?`, character classes
+ * (`[abc]`, `[!abc]`) and brace sets (`{a,b}`, nested).
+ */
+
+import { BaseAdapter } from "../interfaces/adapter.interface";
+import { GlobOptions, WalkOptions } from "../interfaces/filesystem.interface";
+import { FileNotFoundError, NotDirectoryError, ValidationError } from "../errors/filesystem-errors";
+import { joinPath, normalizePath } from "./path-utils";
+
+/**
+ * A compiled glob pattern
+ */
+export interface GlobMatcher {
+  /** Pattern segments, with "**" kept as a segment of its own */
+  segments: string[];
+  /** Whether the pattern contains "**" */
+  hasGlobstar: boolean;
+  /** Test a "/"-separated relative path against the pattern */
+  match(relativePath: string): boolean;
+}
+
+const MAGIC_CHARS = /[*?[{]/;
+
+/**
+ * Expand brace sets into the list of patterns they describe
+ *
+ * `"src/{a,b{1,2}}.ts"` → `["src/a.ts", "src/b1.ts", "src/b2.ts"]`. Braces
+ * without a top-level comma are kept literally.
+ */
+export function expandBraces(pattern: string): string[] {
+  const open = pattern.indexOf("{");
+  if (open === -1) {
+    return [pattern];
+  }
+
+  // Find the matching close brace and the top-level commas in between
+  let depth = 0;
+  const commas: number[] = [];
+  let close = -1;
+  for (let i = open; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        close = i;
+        break;
+      }
+    } else if (char === "," && depth === 1) {
+      commas.push(i);
+    }
+  }
+
+  if (close === -1) {
+    throw new ValidationError(`Unbalanced braces in glob pattern: ${pattern}`);
+  }
+
+  const prefix = pattern.substring(0, open);
+  const suffix = pattern.substring(close + 1);
+
+  if (commas.length === 0) {
+    // "{abc}" is not a set; keep it and expand the rest of the pattern
+    return expandBraces(suffix).map(
+      rest => `${prefix}{${pattern.substring(open + 1, close)}}${rest}`,
+    );
+  }
+
+  const bounds = [open, ...commas, close];
+  const alternatives: string[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    alternatives.push(pattern.substring(bounds[i] + 1, bounds[i + 1]));
+  }
+
+  return alternatives.flatMap(alternative => expandBraces(`${prefix}${alternative}${suffix}`));
+}
+
+/**
+ * Convert a single path segment pattern (no "/" and no braces) to a regular expression
+ */
+function segmentToRegExp(segment: string, dot: boolean): RegExp {
+  let source = "";
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+
+    if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = segment.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      let body = segment.substring(i + 1, end).replace(/\\/g, "\\\\");
+      if (body.startsWith("!")) {
+        body = `^${body.substring(1)}`;
+      }
+      source += `[${body}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+
+  // Wildcards do not match hidden entries unless the pattern names the dot explicitly
+  const hidden = !dot && !segment.startsWith(".") ? "(?!\\.)" : "";
+  return new RegExp(`^${hidden}${source}$`);
+}
+
+/**
+ * Split a pattern or path into "/"-separated segments, ignoring leading and
+ * duplicate slashes
+ */
+function splitSegments(value: string): string[] {
+  return value.split("/").filter(segment => segment !== "" && segment !== ".");
+}
+
+/**
+ * Compile a brace-free glob pattern
+ */
+export function compileGlob(pattern: string, options: { dot?: boolean } = {}): GlobMatcher {
+  const dot = options.dot ?? false;
+  const segments = splitSegments(pattern.replace(/\\/g, "/"));
+  const matchers = segments.map(segment =>
+    segment === "**" ? undefined : segmentToRegExp(segment, dot),
+  );
+
+  const matchFrom = (parts: string[], partIndex: number, patternIndex: number): boolean => {
+    if (patternIndex === segments.length) {
+      return partIndex === parts.length;
+    }
+
+    const matcher = matchers[patternIndex];
+    if (!matcher) {
+      // "**" consumes zero or more segments, but never hidden ones unless dot is set
+      for (let i = partIndex; i <= parts.length; i++) {
+        if (matchFrom(parts, i, patternIndex + 1)) {
+          return true;
+        }
+        if (i < parts.length && !dot && parts[i].startsWith(".")) {
+          return false;
+        }
+      }
+      return false;
+    }
+
+    return (
+      partIndex < parts.length &&
+      matcher.test(parts[partIndex]) &&
+      matchFrom(parts, partIndex + 1, patternIndex + 1)
+    );
+  };
+
+  return {
+    segments,
+    hasGlobstar: segments.includes("**"),
+    match: relativePath => matchFrom(splitSegments(relativePath), 0, 0),
+  };
+}
+
+/**
+ * Test a relative path against a glob pattern (brace sets included)
+ */
+export function matchGlob(
+  relativePath: string,
+  pattern: string,
+  options: { dot?: boolean } = {},
+): boolean {
+  return expandBraces(pattern).some(expanded => compileGlob(expanded, options).match(relativePath));
+}
+
+/**
+ * Leading segments shared by all patterns that contain no wildcards
+ *
+ * The walk for a glob starts at this directory instead of the glob root. The
+ * last segment is never included because it may name a file.
+ */
+function staticBase(matchers: GlobMatcher[]): string[] {
+  const base: string[] = [];
+
+  for (let i = 0; ; i++) {
+    const segment = matchers[0].segments[i];
+    const isShared = matchers.every(
+      matcher => i < matcher.segments.length - 1 && matcher.segments[i] === segment,
+    );
+    if (!isShared || MAGIC_CHARS.test(segment)) {
+      return base;
+    }
+    base.push(segment);
+  }
+}
+
+/**
+ * Find paths matching a glob pattern using an adapter's `walk()`
+ *
+ * Walks from the static base of the pattern (e.g. `docs` for `docs/**\/*.md`),
+ * limited to the pattern depth unless it contains `**`, so adapters with
+ * native recursive listing only list what the pattern can match. Ignored
+ * directories are not descended into.
+ *
+ * @returns Matching paths relative to `options.cwd`, sorted
+ */
+export async function globWithWalk(
+  adapter: Pick<BaseAdapter, "walk">,
+  pattern: string,
+  options: GlobOptions = {},
+): Promise<string[]> {
+  const cwd = normalizePath(options.cwd ?? "/");
+  const matchers = expandBraces(pattern).map(expanded =>
+    compileGlob(expanded, { dot: options.dot }),
+  );
+  const ignore = (options.ignore ?? [])
+    .flatMap(ignorePattern => expandBraces(ignorePattern))
+    .map(expanded => compileGlob(expanded, { dot: true }));
+
+  if (matchers.every(matcher => matcher.segments.length === 0)) {
+    return [];
+  }
+
+  const toRelative = (entryPath: string): string => {
+    const entryKey = normalizePath(entryPath);
+    return cwd === "." ? entryKey : entryKey.substring(cwd.length + 1);
+  };
+
+  // A path is ignored if it or any of its ancestors matches an ignore pattern
+  const isIgnored = (relativePath: string): boolean => {
+    const parts = relativePath.split("/");
+    return parts.some((_, i) =>
+      ignore.some(matcher => matcher.match(parts.slice(0, i + 1).join("/"))),
+    );
+  };
+
+  const base = staticBase(matchers);
+  const baseDir = joinPath(cwd, ...base);
+  const walkOptions: WalkOptions = {
+    includeDirectories: true,
+    // Nothing below an ignored directory can match, so it is not walked
+    skipDirectory: entry => isIgnored(toRelative(entry.path)),
+  };
+  if (!matchers.some(matcher => matcher.hasGlobstar)) {
+    walkOptions.maxDepth =
+      Math.max(...matchers.map(matcher => matcher.segments.length)) - base.length;
+  }
+
+  const results: string[] = [];
+  try {
+    for await (const entry of adapter.walk(baseDir === "." ? "/" : `/${baseDir}`, walkOptions)) {
+      const relativePath = toRelative(entry.path);
+
+      if (!options.includeDirectories && entry.stats.isDirectory()) {
+        continue;
+      }
+      if (isIgnored(relativePath) || !matchers.some(matcher => matcher.match(relativePath))) {
+        continue;
+      }
+      results.push(relativePath);
+    }
+  } catch (error) {
+    // Nothing can match below a base that does not exist or is a file
+    if (!(error instanceof FileNotFoundError) && !(error instanceof NotDirectoryError)) {
+      throw error;
+    }
+  }
+
+  return results.sort();
+}
@@ -0,0 +1,156 @@
+/**
+ * Lock Utilities
+ *
+ * Option handling, lock records and the acquire-or-wait loop shared by the
+ * adapters' `lock()` implementations.
+ */
+
+import { randomUUID } from "crypto";
+
+import { LockHandle, LockOptions } from "../interfaces/filesystem.interface";
+import { LockedError, ValidationError } from "../errors/filesystem-errors";
+
+/**
+ * Default time in milliseconds after which an unreleased lock is stale
+ */
+export const DEFAULT_LOCK_TTL = 30000;
+
+/**
+ * Delay in milliseconds between attempts while waiting for a lock
+ */
+export const LOCK_RETRY_INTERVAL = 50;
+
+/**
+ * Owner and expiry of a lock, as stored in lock files and lease objects
+ */
+export interface LockRecord {
+  /** Random token identifying the holder */
+  owner: string;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Validate lock options and apply the defaults
+ *
+ * @throws {ValidationError} if `ttl` is not positive or `wait` is negative
+ */
+export function resolveLockOptions(options: LockOptions = {}): Required<LockOptions> {
+  const ttl = options.ttl ?? DEFAULT_LOCK_TTL;
+  const wait = options.wait ?? 0;
+
+  if (!Number.isFinite(ttl) || ttl <= 0) {
+    throw new ValidationError(`Lock ttl must be a positive number, got ${ttl}`);
+  }
+  if (!Number.isFinite(wait) || wait < 0) {
+    throw new ValidationError(`Lock wait must be a non-negative number, got ${wait}`);
+  }
+  return { ttl, wait };
+}
+
+/**
+ * Path of the lock file (or lease object) guarding a path
+ *
+ * The lock file is a hidden `.<name>.lock` sibling of the path. Lock files
+ * may exist before the file they guard, so listings hide every name of this
+ * form (see hideLockFiles).
+ */
+export function lockFilePath(filePath: string): string {
+  const trimmed = filePath.replace(/\/+$/, "");
+  const nameStart = trimmed.lastIndexOf("/") + 1;
+  return `${trimmed.slice(0, nameStart)}.${trimmed.slice(nameStart)}.lock`;
+}
+
+/**
+ * Whether a name is reserved for lock files
+ */
+export function isLockFileName(name: string): boolean {
+  return /^\..+\.lock$/.test(name);
+}
+
+/**
+ * Remove lock files from a directory listing
+ */
+export function hideLockFiles<T>(entries: T[], nameOf: (entry: T) => string): T[] {
+  return entries.filter(entry => !isLockFileName(nameOf(entry)));
+}
+
+/**
+ * Create the record of a newly acquired lock
+ */
+export function createLockRecord(ttl: number): LockRecord {
+  return { owner: randomUUID(), expiresAt: Date.now() + ttl };
+}
+
+/**
+ * Parse a stored lock record; unreadable records count as expired
+ */
+export function parseLockRecord(content: string): LockRecord | undefined {
+  try {
+    const record = JSON.parse(content);
+    return typeof record?.owner === "string" && typeof record?.expiresAt === "number"
+      ? record
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a lock record is missing, unreadable or past its expiry
+ */
+export function isLockExpired(record: LockRecord | undefined): boolean {
+  return record === undefined || record.expiresAt <= Date.now();
+}
+
+/**
+ * Create a lock handle whose release runs at most once
+ */
+export function createLockHandle(
+  filePath: string,
+  record: LockRecord,
+  release: () => Promise<void>,
+): LockHandle {
+  let released: Promise<void> | undefined;
+
+  return {
+    path: filePath,
+    expiresAt: new Date(record.expiresAt),
+    release: () =>
+      (released ??= release().catch(error => {
+        // Allow another attempt after a failed release
+        released = undefined;
+        throw error;
+      })),
+  };
+}
+
+/**
+ * Try to acquire a lock until it succeeds or the wait time is over
+ *
+ * `tryAcquire` resolves to a handle, or to undefined while another owner
+ * holds the lock (after clearing the lock if it had expired).
+ *
+ * @throws {LockedError} if the lock is still held once `wait` has passed
+ */
+export async function acquireLock(
+  filePath: string,
+  options: Required<LockOptions>,
+  backend: string,
+  tryAcquire: () => Promise<LockHandle | undefined>,
+): Promise<LockHandle> {
+  const deadline = Date.now() + options.wait;
+
+  for (;;) {
+    const handle = await tryAcquire();
+    if (handle) {
+      return handle;
+    }
+    if (Date.now() >= deadline) {
+      throw new LockedError(filePath, { backend });
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, Math.min(LOCK_RETRY_INTERVAL, deadline - Date.now())),
+    );
+  }
+}
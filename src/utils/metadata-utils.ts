@@ -0,0 +1,78 @@
+/**
+ * File Metadata Utilities
+ *
+ * Extraction and validation of the content headers and user metadata that
+ * writes accept, and the sidecar files in which the local adapter keeps them.
+ */
+
+import { FileMetadata } from "../interfaces/filesystem.interface";
+import { ValidationError } from "../errors/filesystem-errors";
+
+/**
+ * User metadata keys: letters, digits, "-" and "_" (valid as S3 `x-amz-meta-*` headers)
+ */
+const METADATA_KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Extract and validate the metadata fields of write or copy options
+ *
+ * @returns The metadata, or undefined if the options set none of its fields
+ * @throws {ValidationError} if a field is not a string or a user metadata key is invalid
+ */
+export function resolveFileMetadata(options: unknown): FileMetadata | undefined {
+  if (options === null || typeof options !== "object") {
+    return undefined;
+  }
+
+  const { contentType, cacheControl, contentDisposition, metadata } = options as FileMetadata;
+  for (const [field, value] of Object.entries({ contentType, cacheControl, contentDisposition })) {
+    if (value !== undefined && typeof value !== "string") {
+      throw new ValidationError(`${field} must be a string`);
+    }
+  }
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    if (!METADATA_KEY_PATTERN.test(key)) {
+      throw new ValidationError(`Invalid metadata key "${key}": use letters, digits, "-" and "_"`);
+    }
+    if (typeof value !== "string") {
+      throw new ValidationError(`Metadata value of "${key}" must be a string`);
+    }
+  }
+
+  const resolved: FileMetadata = {
+    ...(contentType !== undefined && { contentType }),
+    ...(cacheControl !== undefined && { cacheControl }),
+    ...(contentDisposition !== undefined && { contentDisposition }),
+    ...(metadata !== undefined && { metadata: { ...metadata } }),
+  };
+  return Object.keys(resolved).length > 0 ? resolved : undefined;
+}
+
+/**
+ * Name of the hidden sidecar file holding the metadata of a local file
+ */
+export function metadataSidecarName(fileName: string): string {
+  return `.${fileName}.meta.json`;
+}
+
+/**
+ * Name of the file described by a sidecar file, or undefined for other names
+ */
+export function describedFileName(name: string): string | undefined {
+  const match = /^\.(.+)\.meta\.json$/.exec(name);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Remove the sidecar files of listed files from a directory listing
+ *
+ * A sidecar is only hidden while the file it describes is listed too, so
+ * user files that merely look like sidecars stay visible.
+ */
+export function hideMetadataSidecars<T>(entries: T[], nameOf: (entry: T) => string): T[] {
+  const names = new Set(entries.map(nameOf));
+  return entries.filter(entry => {
+    const described = describedFileName(nameOf(entry));
+    return described === undefined || !names.has(described);
+  });
+}
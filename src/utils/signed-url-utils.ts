@@ -0,0 +1,124 @@
+/**
+ * Signed URL Utilities
+ *
+ * Option handling for `getSignedUrl()` and the HMAC-signed tokens behind the
+ * local adapter's signed URLs. A token carries its claims in the clear and is
+ * only valid with the signature of the secret it was created with, so the
+ * route serving it needs nothing but that secret.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+import { SignedUrlOperation, SignedUrlOptions } from "../interfaces/filesystem.interface";
+import { PermissionError, ValidationError } from "../errors/filesystem-errors";
+
+/**
+ * Default lifetime of a signed URL in seconds
+ */
+export const DEFAULT_SIGNED_URL_EXPIRES_IN = 900;
+
+/**
+ * Longest lifetime of a signed URL in seconds (7 days, the limit of S3 presigning)
+ */
+export const MAX_SIGNED_URL_EXPIRES_IN = 604800;
+
+/**
+ * What a signed URL grants
+ */
+export interface SignedUrlClaims {
+  /** Path within the filesystem that signed the URL */
+  path: string;
+  operation: SignedUrlOperation;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+  /** Content type a read is served with, or a write must be sent with */
+  contentType?: string;
+}
+
+/**
+ * Validate signed URL options and apply the default lifetime
+ *
+ * @throws {ValidationError} if the operation is unknown or `expiresIn` is out of range
+ */
+export function resolveSignedUrlOptions(
+  options: SignedUrlOptions,
+): SignedUrlOptions & { expiresIn: number } {
+  const { operation, contentType } = options ?? {};
+  const expiresIn = options?.expiresIn ?? DEFAULT_SIGNED_URL_EXPIRES_IN;
+
+  if (operation !== "read" && operation !== "write") {
+    throw new ValidationError(`Signed URL operation must be "read" or "write", got ${operation}`);
+  }
+  if (!Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_SIGNED_URL_EXPIRES_IN) {
+    throw new ValidationError(
+      `Signed URL expiresIn must be a whole number of seconds between 1 and ${MAX_SIGNED_URL_EXPIRES_IN}, got ${expiresIn}`,
+    );
+  }
+  if (contentType !== undefined && typeof contentType !== "string") {
+    throw new ValidationError("Signed URL contentType must be a string");
+  }
+  return { operation, expiresIn, contentType };
+}
+
+/**
+ * HMAC-SHA256 signature of an encoded claims segment
+ */
+function sign(encodedClaims: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(encodedClaims).digest();
+}
+
+/**
+ * Create a token for the given claims: `<claims>.<signature>`, both base64url
+ */
+export function createSignedUrlToken(claims: SignedUrlClaims, secret: string): string {
+  const encodedClaims = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${encodedClaims}.${sign(encodedClaims, secret).toString("base64url")}`;
+}
+
+/**
+ * Verify a signed URL token and return its claims
+ *
+ * A route serving signed URLs passes the `token` query parameter here and,
+ * on success, reads or writes `claims.path` on the filesystem that signed it.
+ *
+ * @param token - The `token` query parameter of the signed URL
+ * @param secret - The secret the URL was signed with
+ * @param operation - If given, the operation the route performs; tokens for the other one are rejected
+ * @throws {ValidationError} if the token is malformed
+ * @throws {PermissionError} if the signature is invalid, the token has expired or grants another operation
+ */
+export function verifySignedUrlToken(
+  token: string,
+  secret: string,
+  operation?: SignedUrlOperation,
+): SignedUrlClaims {
+  const [encodedClaims, encodedSignature, ...rest] =
+    typeof token === "string" ? token.split(".") : [];
+  if (!encodedClaims || !encodedSignature || rest.length > 0) {
+    throw new ValidationError("Malformed signed URL token");
+  }
+
+  let claims: SignedUrlClaims;
+  try {
+    claims = JSON.parse(Buffer.from(encodedClaims, "base64url").toString("utf8"));
+  } catch {
+    throw new ValidationError("Malformed signed URL token");
+  }
+  if (typeof claims?.path !== "string" || typeof claims.expiresAt !== "number") {
+    throw new ValidationError("Malformed signed URL token");
+  }
+
+  const expected = sign(encodedClaims, secret);
+  const actual = Buffer.from(encodedSignature, "base64url");
+  const context = { path: claims.path, operation: "verifySignedUrl" };
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new PermissionError(claims.path, "signed URL (invalid signature)", context);
+  }
+  if (claims.expiresAt <= Date.now()) {
+    throw new PermissionError(claims.path, "signed URL (expired)", context);
+  }
+  if (operation !== undefined && claims.operation !== operation) {
+    throw new PermissionError(claims.path, `signed URL (not valid for ${operation})`, context);
+  }
+  return claims;
+}
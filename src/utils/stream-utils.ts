@@ -0,0 +1,61 @@
+/**
+ * Stream Utilities
+ *
+ * Transforms shared by the adapter wrappers that rewrite file contents, and
+ * a wrapper for write streams that commit extra state once they finish.
+ */
+
+import { Transform, Writable } from "stream";
+import { finished } from "stream/promises";
+
+/**
+ * Create a transform passing through the bytes from `start` to `end` (inclusive)
+ *
+ * Serves `start`/`end` read stream options when the stored bytes do not map
+ * to content offsets, e.g. for encrypted or compressed files.
+ */
+export function createRangeStream(start = 0, end = Infinity): Transform {
+  let position = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const from = Math.max(start - position, 0);
+      const to = Math.min(end + 1 - position, chunk.length);
+      position += chunk.length;
+      callback(null, from < to ? chunk.subarray(from, to) : undefined);
+    },
+  });
+}
+
+/**
+ * Wrap a write stream so that `commit` runs once all data has been written
+ *
+ * The returned stream finishes only after `inner` has finished and `commit`
+ * has resolved. If either stream fails or is destroyed first, `commit` is
+ * skipped.
+ */
+export function withCommitStep(
+  inner: Writable,
+  commit: () => Promise<void>,
+  defaultEncoding?: BufferEncoding,
+): Writable {
+  const output: Writable = new Writable({
+    defaultEncoding,
+    write(chunk: Buffer, _encoding, callback) {
+      inner.write(chunk, error => callback(error ?? undefined));
+    },
+    final(callback) {
+      finished(inner)
+        .then(commit)
+        .then(() => callback(), callback);
+      inner.end();
+    },
+    destroy(error, callback) {
+      inner.destroy();
+      callback(error);
+    },
+  });
+
+  inner.on("error", error => output.destroy(error));
+  return output;
+}
@@ -0,0 +1,160 @@
+/**
+ * Directory Traversal Utilities
+ *
+ * Recursive walks and paginated listings for adapters that list one directory
+ * at a time.
+ */
+
+import { BaseAdapter } from "../interfaces/adapter.interface";
+import {
+  DirectoryEntry,
+  ReaddirIteratorOptions,
+  ReaddirPage,
+  ReaddirPageOptions,
+  WalkEntry,
+  WalkOptions,
+} from "../interfaces/filesystem.interface";
+import { NotDirectoryError, ValidationError } from "../errors/filesystem-errors";
+import { joinPath, normalizePath } from "./path-utils";
+
+/**
+ * Walk a directory tree depth-first with `readdir` and `lstat`
+ *
+ * Each entry is yielded before the entries below it. Symbolic links are
+ * reported but not followed, so link cycles cannot cause endless walks.
+ *
+ * @throws {FileNotFoundError} if the directory does not exist
+ * @throws {NotDirectoryError} if the path is not a directory
+ */
+export async function* walkDirectory(
+  adapter: Pick<BaseAdapter, "readdir" | "lstat">,
+  dirPath: string,
+  options: WalkOptions = {},
+): AsyncIterableIterator<WalkEntry> {
+  const maxDepth = options.maxDepth ?? Infinity;
+  const includeDirectories = options.includeDirectories ?? true;
+
+  const rootStats = await adapter.lstat(dirPath);
+  if (!rootStats.isDirectory()) {
+    throw new NotDirectoryError(dirPath, { operation: "walk" });
+  }
+
+  const visit = async function* (dir: string, depth: number): AsyncIterableIterator<WalkEntry> {
+    for (const name of await adapter.readdir(dir)) {
+      const childPath = joinPath(dir, name);
+      const stats = await adapter.lstat(childPath);
+      const isDirectory = stats.isDirectory();
+      const entry: WalkEntry = { path: `/${normalizePath(childPath)}`, name, depth, stats };
+
+      if (!isDirectory || includeDirectories) {
+        yield entry;
+      }
+      if (isDirectory && depth < maxDepth && !options.skipDirectory?.(entry)) {
+        yield* visit(childPath, depth + 1);
+      }
+    }
+  };
+
+  if (maxDepth >= 1) {
+    yield* visit(dirPath, 1);
+  }
+}
+
+/**
+ * Kind of a directory entry
+ */
+export type DirectoryEntryType = "file" | "directory" | "symlink" | "other";
+
+/**
+ * Create a Dirent-like directory entry
+ */
+export function createDirectoryEntry(
+  name: string,
+  type: DirectoryEntryType,
+  details: { size?: number; mtime?: Date } = {},
+): DirectoryEntry {
+  return {
+    name,
+    isFile: () => type === "file",
+    isDirectory: () => type === "directory",
+    isSymbolicLink: () => type === "symlink",
+    ...(details.size !== undefined && { size: details.size }),
+    ...(details.mtime !== undefined && { mtime: details.mtime }),
+  };
+}
+
+/**
+ * Copy a directory entry, replacing its name or size
+ */
+export function copyDirectoryEntry(
+  entry: DirectoryEntry,
+  changes: { name?: string; size?: number },
+): DirectoryEntry {
+  const type: DirectoryEntryType = entry.isFile()
+    ? "file"
+    : entry.isDirectory()
+      ? "directory"
+      : entry.isSymbolicLink()
+        ? "symlink"
+        : "other";
+
+  return createDirectoryEntry(changes.name ?? entry.name, type, {
+    size: changes.size ?? entry.size,
+    mtime: entry.mtime,
+  });
+}
+
+/**
+ * Default number of entries per `readdirPaged()` page (the S3 listing maximum)
+ */
+export const DEFAULT_READDIR_PAGE_SIZE = 1000;
+
+/**
+ * Validate the page size of a paginated listing
+ *
+ * @throws {ValidationError} if the limit is not a positive integer
+ */
+export function resolvePageLimit(limit: number | undefined): number {
+  if (limit === undefined) {
+    return DEFAULT_READDIR_PAGE_SIZE;
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ValidationError(`readdir page limit must be a positive integer, got ${limit}`);
+  }
+  return limit;
+}
+
+/**
+ * Cut one page out of a complete directory listing
+ *
+ * Entries are sorted by name and the cursor is the last name returned, so
+ * entries added or removed between pages do not shift the remaining pages.
+ */
+export function paginateEntries(entries: string[], options: ReaddirPageOptions = {}): ReaddirPage {
+  const limit = resolvePageLimit(options.limit);
+  const cursor = options.cursor;
+  const remaining = [...entries].sort().filter(name => cursor === undefined || name > cursor);
+  const page = remaining.slice(0, limit);
+
+  return {
+    entries: page,
+    cursor: remaining.length > limit ? page[page.length - 1] : undefined,
+  };
+}
+
+/**
+ * Iterate over directory entries page by page with `readdirPaged()`
+ */
+export async function* iterateReaddirPages(
+  adapter: Pick<BaseAdapter, "readdirPaged">,
+  dirPath: string,
+  options: ReaddirIteratorOptions = {},
+): AsyncIterableIterator<string> {
+  let cursor: string | undefined;
+
+  do {
+    const page = await adapter.readdirPaged(dirPath, { limit: options.pageSize, cursor });
+    yield* page.entries;
+    cursor = page.cursor;
+  } while (cursor !== undefined);
+}
@@ -0,0 +1,365 @@
+/**
+ * Watch Utilities
+ *
+ * Change watching shared by the adapters. A watcher keeps a snapshot of the
+ * watched tree (path → kind and version of every entry) and reports the
+ * differences between snapshots as add/change/unlink/addDir/unlinkDir events.
+ * Backends without change notifications take a new snapshot on every poll;
+ * the local adapter refreshes the part of the snapshot a notification names.
+ */
+
+import { EventEmitter } from "events";
+
+import type { BaseAdapter } from "../interfaces/adapter.interface";
+import {
+  FileStats,
+  FileWatcher,
+  WatchEvent,
+  WatchOptions,
+} from "../interfaces/filesystem.interface";
+import { FileNotFoundError, NotDirectoryError } from "../errors/filesystem-errors";
+
+/**
+ * Default polling interval of backends without change notifications
+ */
+export const DEFAULT_WATCH_INTERVAL = 5000;
+
+/**
+ * Quiet period after the last change notification before the notified paths
+ * are refreshed, so that the steps of one write are reported as one change
+ */
+export const WATCH_SETTLE_DELAY = 50;
+
+/**
+ * State of an entry in a snapshot
+ */
+interface SnapshotEntry {
+  directory: boolean;
+  /** ETag (or size and mtime) of a file, changing whenever it is modified; empty for directories */
+  version: string;
+  stats: FileStats;
+}
+
+/**
+ * Entries of a watched tree, keyed by their full path
+ */
+export type WatchSnapshot = Map<string, SnapshotEntry>;
+
+/**
+ * Snapshot entry of an entry's stats
+ */
+function toSnapshotEntry(stats: FileStats): SnapshotEntry {
+  const directory = stats.isDirectory();
+  return {
+    directory,
+    version: directory ? "" : (stats.etag ?? `${stats.size}-${stats.mtimeMs}`),
+    stats,
+  };
+}
+
+/**
+ * Snapshot the entries below a directory
+ *
+ * @param recursive - Include the entries below subdirectories (default: direct children only)
+ */
+export async function takeSnapshot(
+  adapter: Pick<BaseAdapter, "walk">,
+  dirPath: string,
+  recursive: boolean,
+): Promise<WatchSnapshot> {
+  const snapshot: WatchSnapshot = new Map();
+  for await (const entry of adapter.walk(dirPath, { maxDepth: recursive ? undefined : 1 })) {
+    snapshot.set(entry.path, toSnapshotEntry(entry.stats));
+  }
+  return snapshot;
+}
+
+/**
+ * Snapshot a single path, and the entries below it if it is a directory and `recursive` is set
+ *
+ * @returns An empty snapshot if the path does not exist (any more)
+ */
+export async function takePathSnapshot(
+  adapter: Pick<BaseAdapter, "lstat" | "walk">,
+  entryPath: string,
+  recursive: boolean,
+): Promise<WatchSnapshot> {
+  try {
+    const stats = await adapter.lstat(entryPath);
+    const snapshot: WatchSnapshot =
+      stats.isDirectory() && recursive ? await takeSnapshot(adapter, entryPath, true) : new Map();
+    return snapshot.set(entryPath, toSnapshotEntry(stats));
+  } catch (error) {
+    if (error instanceof FileNotFoundError || error instanceof NotDirectoryError) {
+      return new Map();
+    }
+    throw error;
+  }
+}
+
+/**
+ * File watcher reporting the differences between snapshots
+ */
+export class SnapshotWatcher extends EventEmitter implements FileWatcher {
+  private snapshot: WatchSnapshot = new Map();
+  private closed = false;
+
+  /**
+   * @param onClose - Releases the resources of the change source
+   */
+  constructor(private readonly onClose: () => void | Promise<void> = () => {}) {
+    super();
+  }
+
+  /**
+   * Whether the watcher has been closed
+   */
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Start from the initial snapshot, emitting "ready"; a failure closes the watcher
+   *
+   * @returns Whether the watcher started
+   */
+  async start(initial: Promise<WatchSnapshot>): Promise<boolean> {
+    try {
+      this.snapshot = await initial;
+    } catch (error) {
+      try {
+        this.fail(error);
+      } finally {
+        await this.close();
+      }
+      return false;
+    }
+
+    if (this.closed) {
+      return false;
+    }
+    this.emit("ready");
+    return true;
+  }
+
+  /**
+   * Replace the part of the snapshot within a scope and emit the differences
+   *
+   * Removals are emitted first, deepest paths first, then additions, parents
+   * first, then changed files.
+   *
+   * @param inScope - Paths the new snapshot covers (default: all)
+   */
+  update(next: WatchSnapshot, inScope: (entryPath: string) => boolean = () => true): void {
+    if (this.closed) {
+      return;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    const changed: string[] = [];
+
+    for (const [entryPath, previous] of this.snapshot) {
+      if (!inScope(entryPath)) {
+        continue;
+      }
+      const current = next.get(entryPath);
+      if (!current || current.directory !== previous.directory) {
+        removed.push(entryPath);
+      } else if (current.version !== previous.version) {
+        changed.push(entryPath);
+      }
+    }
+    for (const [entryPath, current] of next) {
+      if (this.snapshot.get(entryPath)?.directory !== current.directory) {
+        added.push(entryPath);
+      }
+    }
+
+    for (const entryPath of removed.sort().reverse()) {
+      const previous = this.snapshot.get(entryPath)!;
+      this.snapshot.delete(entryPath);
+      this.emitChange({ type: previous.directory ? "unlinkDir" : "unlink", path: entryPath });
+    }
+    for (const entryPath of added.sort()) {
+      const current = next.get(entryPath)!;
+      this.snapshot.set(entryPath, current);
+      this.emitChange({
+        type: current.directory ? "addDir" : "add",
+        path: entryPath,
+        stats: current.stats,
+      });
+    }
+    for (const entryPath of changed) {
+      const current = next.get(entryPath)!;
+      this.snapshot.set(entryPath, current);
+      this.emitChange({ type: "change", path: entryPath, stats: current.stats });
+    }
+  }
+
+  /**
+   * Emit a change as its typed event and as an "all" event
+   */
+  emitChange(event: WatchEvent): void {
+    if (this.closed) {
+      return;
+    }
+    this.emit(event.type, event.path, event.stats);
+    this.emit("all", event);
+  }
+
+  /**
+   * Emit a failure of the change source
+   */
+  fail(error: unknown): void {
+    if (!this.closed) {
+      this.emit("error", error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Stop watching
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    await this.onClose();
+    this.emit("close");
+  }
+
+  /**
+   * Iterate over the changes until the watcher closes
+   *
+   * An error ends the iteration by rejecting; leaving the loop closes the watcher.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<WatchEvent> {
+    const queued: WatchEvent[] = [];
+    let waiting:
+      | { resolve: (result: IteratorResult<WatchEvent>) => void; reject: (error: Error) => void }
+      | undefined;
+    let failure: Error | undefined;
+    let done = this.closed;
+
+    const onEvent = (event: WatchEvent) => {
+      if (waiting) {
+        waiting.resolve({ value: event, done: false });
+        waiting = undefined;
+      } else {
+        queued.push(event);
+      }
+    };
+    const onError = (error: Error) => {
+      failure = error;
+      if (waiting) {
+        cleanup();
+        waiting.reject(error);
+        waiting = undefined;
+      }
+    };
+    const onClose = () => {
+      done = true;
+      if (waiting) {
+        cleanup();
+        waiting.resolve({ value: undefined, done: true });
+        waiting = undefined;
+      }
+    };
+    const cleanup = () => {
+      this.off("all", onEvent);
+      this.off("error", onError);
+      this.off("close", onClose);
+    };
+
+    this.on("all", onEvent);
+    this.on("error", onError);
+    this.on("close", onClose);
+
+    return {
+      next: () => {
+        if (queued.length > 0) {
+          return Promise.resolve({ value: queued.shift()!, done: false });
+        }
+        if (failure) {
+          cleanup();
+          return Promise.reject(failure);
+        }
+        if (done) {
+          cleanup();
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve, reject) => {
+          waiting = { resolve, reject };
+        });
+      },
+      return: async () => {
+        cleanup();
+        await this.close();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+}
+
+/**
+ * Watch a directory by taking a new snapshot every `interval` milliseconds
+ *
+ * Polling failures are emitted as "error" and polling continues.
+ */
+export function watchByPolling(
+  adapter: Pick<BaseAdapter, "walk">,
+  dirPath: string,
+  options?: WatchOptions,
+): FileWatcher {
+  const recursive = options?.recursive ?? false;
+  const interval = options?.interval ?? DEFAULT_WATCH_INTERVAL;
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = new SnapshotWatcher(() => clearTimeout(timer));
+  const schedule = () => {
+    if (!watcher.isClosed) {
+      timer = setTimeout(poll, interval);
+    }
+  };
+  const poll = () => {
+    takeSnapshot(adapter, dirPath, recursive)
+      .then(
+        snapshot => watcher.update(snapshot),
+        error => watcher.fail(error),
+      )
+      .finally(schedule);
+  };
+
+  watcher.start(takeSnapshot(adapter, dirPath, recursive)).then(started => {
+    if (started) {
+      schedule();
+    }
+  });
+  return watcher;
+}
+
+/**
+ * Watcher re-emitting the changes of another watcher with mapped paths
+ *
+ * @param map - Maps an event, or returns undefined to drop it
+ * @param mapFailure - Maps the errors of the inner watcher (default: unchanged)
+ */
+export function mapWatcher(
+  inner: FileWatcher,
+  map: (event: WatchEvent) => WatchEvent | undefined,
+  mapFailure: (error: unknown) => unknown = error => error,
+): FileWatcher {
+  const watcher = new SnapshotWatcher(() => inner.close());
+
+  inner.on("all", (event: WatchEvent) => {
+    const mapped = map(event);
+    if (mapped) {
+      watcher.emitChange(mapped);
+    }
+  });
+  inner.on("ready", () => watcher.emit("ready"));
+  inner.on("error", error => watcher.fail(mapFailure(error)));
+  inner.on("close", () => watcher.close());
+  return watcher;
+}
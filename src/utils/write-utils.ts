@@ -0,0 +1,83 @@
+/**
+ * Write Option Utilities
+ *
+ * Normalization of the options accepted by `writeFile()`, `copyFile()` and
+ * `rename()`, shared by all adapters.
+ */
+
+import { WriteFileOptions } from "../interfaces/filesystem.interface";
+import {
+  FilesystemErrorContext,
+  PreconditionFailedError,
+  ValidationError,
+} from "../errors/filesystem-errors";
+
+/**
+ * Normalized `writeFile()` options
+ */
+export interface ResolvedWriteFileOptions {
+  encoding?: BufferEncoding;
+  /** Fail with AlreadyExistsError instead of replacing an existing file */
+  exclusive: boolean;
+  /** Only replace the file if its current ETag equals this token */
+  ifMatch?: string;
+  /** Write through a temporary file (undefined: adapter default) */
+  atomic?: boolean;
+}
+
+/**
+ * Normalize `writeFile()` options, accepting an encoding string as Node's fs does
+ *
+ * @throws {ValidationError} if the flag is not supported or contradicts `overwrite`
+ */
+export function resolveWriteFileOptions(
+  options: BufferEncoding | WriteFileOptions | undefined,
+): ResolvedWriteFileOptions {
+  if (options === undefined || typeof options === "string") {
+    return { encoding: options, exclusive: false };
+  }
+
+  const flag = options.flag ?? "w";
+  if (flag !== "w" && flag !== "wx") {
+    throw new ValidationError(`Unsupported writeFile flag "${flag}", expected "w" or "wx"`);
+  }
+  if (flag === "wx" && options.overwrite === true) {
+    throw new ValidationError('writeFile flag "wx" cannot be combined with overwrite: true');
+  }
+
+  const exclusive = flag === "wx" || options.overwrite === false;
+  if (exclusive && options.ifMatch !== undefined) {
+    throw new ValidationError("writeFile ifMatch cannot be combined with exclusive creation");
+  }
+
+  return {
+    encoding: options.encoding,
+    exclusive,
+    ifMatch: options.ifMatch,
+    atomic: options.atomic,
+  };
+}
+
+/**
+ * Fail unless a file's current ETag equals the expected token
+ *
+ * A missing file (undefined ETag) never matches.
+ *
+ * @throws {PreconditionFailedError} if the tokens differ
+ */
+export function assertEtagMatches(
+  etag: string | undefined,
+  ifMatch: string | undefined,
+  context: FilesystemErrorContext & { path: string },
+): void {
+  if (ifMatch !== undefined && etag !== ifMatch) {
+    throw new PreconditionFailedError(context.path, context);
+  }
+}
+
+/**
+ * Whether a copy or rename must fail instead of replacing an existing destination
+ */
+export function isExclusive(options: { overwrite?: boolean } | undefined): boolean {
+  return options?.overwrite === false;
+}
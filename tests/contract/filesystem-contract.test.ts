@@ -5,8 +5,46 @@
  * These tests ensure interface compliance across different storage backends.
  */
 
-import { Filesystem } from "../../src/interfaces/filesystem.interface";
+import { Filesystem, LockHandle } from "../../src/interfaces/filesystem.interface";
 import { createFilesystem } from "../../src/core/filesystem-factory";
+import {
+  AlreadyExistsError,
+  DirectoryNotEmptyError,
+  FileNotFoundError,
+  IsDirectoryError,
+  LockedError,
+  NotDirectoryError,
+  NetworkError,
+  PermissionError,
+  PreconditionFailedError,
+  StorageError,
+  ValidationError,
+} from "../../src/errors/filesystem-errors";
+import { mapError } from "../../src/utils/error-mapper";
+import { AbstractAdapter } from "../../src/adapters/abstract-adapter";
+import { MemoryAdapter, MemoryAdapterConfig } from "../../src/adapters/memory-adapter";
+import { registerAdapter } from "../../src/core/adapter-registry";
+import { hideLockFiles } from "../../src/utils/lock-utils";
+import type { MemoryConfig } from "../../src/types/config";
+import {
+  AdapterMetadata,
+  ReadStreamOptions,
+  WriteStreamOptions,
+} from "../../src/interfaces/adapter.interface";
+import {
+  DirectoryEntry,
+  FileMetadata,
+  FileStats,
+  ReaddirOptions,
+  UnlinkOptions,
+  WriteFileOptions,
+} from "../../src/interfaces/filesystem.interface";
+
+declare module "../../src/types/config" {
+  interface AdapterConfigSections {
+    "primitive-memory": MemoryConfig;
+  }
+}
 
 /**
  * Contract test suite that should be run for each adapter
@@ -35,6 +73,7 @@ export function createFilesystemContractTests(
         await fs.unlink("/test-contract.txt").catch(() => {});
         await fs.unlink("/test-contract-copy.txt").catch(() => {});
         await fs.unlink("/test-contract-rename.txt").catch(() => {});
+        await fs.unlink("/.test-contract.txt.lock").catch(() => {});
         await fs.rmdir("/test-contract-dir", { recursive: true }).catch(() => {});
       } catch (error) {
         // Ignore cleanup errors
@@ -159,6 +198,297 @@ export function createFilesystemContractTests(
       });
     });
 
+    describe("Exclusive Create Contract", () => {
+      test("writeFile with flag wx creates a missing file", async () => {
+        await fs.writeFile("/test-contract.txt", "first", { encoding: "utf8", flag: "wx" });
+
+        expect(await fs.readFile("/test-contract.txt", "utf8")).toBe("first");
+      });
+
+      test("writeFile with flag wx or overwrite false keeps an existing file", async () => {
+        await fs.writeFile("/test-contract.txt", "first", "utf8");
+
+        await expect(
+          fs.writeFile("/test-contract.txt", "second", { encoding: "utf8", flag: "wx" }),
+        ).rejects.toThrow(AlreadyExistsError);
+        await expect(
+          fs.writeFile("/test-contract.txt", "second", { overwrite: false }),
+        ).rejects.toThrow(AlreadyExistsError);
+        expect(await fs.readFile("/test-contract.txt", "utf8")).toBe("first");
+      });
+
+      test("only one of several concurrent exclusive writers succeeds", async () => {
+        const results = await Promise.allSettled(
+          ["a", "b", "c", "d"].map(content =>
+            fs.writeFile("/test-contract.txt", content, { flag: "wx" }),
+          ),
+        );
+
+        expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+        for (const result of results) {
+          if (result.status === "rejected") {
+            expect(result.reason).toBeInstanceOf(AlreadyExistsError);
+          }
+        }
+      });
+
+      test("copyFile and rename with overwrite false keep an existing destination", async () => {
+        await fs.writeFile("/test-contract.txt", "source", "utf8");
+        await fs.writeFile("/test-contract-copy.txt", "existing", "utf8");
+
+        await expect(
+          fs.copyFile("/test-contract.txt", "/test-contract-copy.txt", { overwrite: false }),
+        ).rejects.toThrow(AlreadyExistsError);
+        await expect(
+          fs.rename("/test-contract.txt", "/test-contract-copy.txt", { overwrite: false }),
+        ).rejects.toThrow(AlreadyExistsError);
+
+        expect(await fs.readFile("/test-contract-copy.txt", "utf8")).toBe("existing");
+        expect(await fs.readFile("/test-contract.txt", "utf8")).toBe("source");
+      });
+
+      test("rename with overwrite false moves to a missing destination", async () => {
+        await fs.writeFile("/test-contract.txt", "source", "utf8");
+
+        await fs.rename("/test-contract.txt", "/test-contract-rename.txt", { overwrite: false });
+
+        expect(await fs.exists("/test-contract.txt")).toBe(false);
+        expect(await fs.readFile("/test-contract-rename.txt", "utf8")).toBe("source");
+      });
+    });
+
+    describe("Conditional Write Contract", () => {
+      test("stat reports an etag that changes when the file is written", async () => {
+        await fs.writeFile("/test-contract.txt", "first", "utf8");
+        const before = (await fs.stat("/test-contract.txt")).etag;
+
+        await fs.writeFile("/test-contract.txt", "other", "utf8");
+        const after = (await fs.stat("/test-contract.txt")).etag;
+
+        expect(typeof before).toBe("string");
+        expect(after).not.toBe(before);
+      });
+
+      test("writeFile with a current ifMatch replaces the file", async () => {
+        await fs.writeFile("/test-contract.txt", "first", "utf8");
+        const { etag } = await fs.stat("/test-contract.txt");
+
+        await fs.writeFile("/test-contract.txt", "second", { encoding: "utf8", ifMatch: etag });
+
+        expect(await fs.readFile("/test-contract.txt", "utf8")).toBe("second");
+      });
+
+      test("writeFile and unlink with a stale ifMatch fail with PreconditionFailedError", async () => {
+        await fs.writeFile("/test-contract.txt", "first", "utf8");
+        const { etag } = await fs.stat("/test-contract.txt");
+        await fs.writeFile("/test-contract.txt", "second", { ifMatch: etag });
+
+        await expect(
+          fs.writeFile("/test-contract.txt", "third", { ifMatch: etag }),
+        ).rejects.toThrow(PreconditionFailedError);
+        await expect(fs.unlink("/test-contract.txt", { ifMatch: etag })).rejects.toThrow(
+          PreconditionFailedError,
+        );
+        expect(await fs.readFile("/test-contract.txt", "utf8")).toBe("second");
+      });
+
+      test("only one of several writers with the same ifMatch succeeds", async () => {
+        await fs.writeFile("/test-contract.txt", "0", "utf8");
+        const { etag } = await fs.stat("/test-contract.txt");
+
+        const results = await Promise.allSettled(
+          ["a", "b", "c", "d"].map(content =>
+            fs.writeFile("/test-contract.txt", content, { ifMatch: etag }),
+          ),
+        );
+
+        expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+      });
+
+      test("unlink with a current ifMatch deletes the file", async () => {
+        await fs.writeFile("/test-contract.txt", "content", "utf8");
+        const { etag } = await fs.stat("/test-contract.txt");
+
+        await fs.unlink("/test-contract.txt", { ifMatch: etag });
+
+        expect(await fs.exists("/test-contract.txt")).toBe(false);
+        await expect(
+          fs.writeFile("/test-contract.txt", "again", { ifMatch: etag }),
+        ).rejects.toThrow(PreconditionFailedError);
+      });
+    });
+
+    describe("File Metadata Contract", () => {
+      const fileMetadata = {
+        contentType: "application/json",
+        cacheControl: "max-age=60",
+        contentDisposition: 'attachment; filename="data.json"',
+        metadata: { owner: "worker-1" },
+      };
+
+      test("writeFile stores content headers and user metadata", async () => {
+        await fs.writeFile("/test-contract.txt", "{}", { encoding: "utf8", ...fileMetadata });
+
+        expect(await fs.getFileMetadata("/test-contract.txt")).toMatchObject(fileMetadata);
+      });
+
+      test("writeFile without metadata clears previous metadata", async () => {
+        await fs.writeFile("/test-contract.txt", "{}", fileMetadata);
+        await fs.writeFile("/test-contract.txt", "{}", "utf8");
+
+        const stored = await fs.getFileMetadata("/test-contract.txt");
+        expect(stored.metadata).toBeUndefined();
+        expect(stored.cacheControl).toBeUndefined();
+      });
+
+      test("setFileMetadata replaces the metadata and keeps the content", async () => {
+        await fs.writeFile("/test-contract.txt", "content", fileMetadata);
+
+        await fs.setFileMetadata("/test-contract.txt", {
+          contentType: "text/plain",
+          metadata: { owner: "worker-2" },
+        });
+
+        const stored = await fs.getFileMetadata("/test-contract.txt");
+        expect(stored).toMatchObject({
+          contentType: "text/plain",
+          metadata: { owner: "worker-2" },
+        });
+        expect(stored.cacheControl).toBeUndefined();
+        expect(await fs.readFile("/test-contract.txt", "utf8")).toBe("content");
+      });
+
+      test("copyFile keeps the source metadata unless new metadata is given", async () => {
+        await fs.writeFile("/test-contract.txt", "content", fileMetadata);
+
+        await fs.copyFile("/test-contract.txt", "/test-contract-copy.txt");
+        expect(await fs.getFileMetadata("/test-contract-copy.txt")).toMatchObject(fileMetadata);
+
+        await fs.copyFile("/test-contract.txt", "/test-contract-copy.txt", {
+          contentType: "text/plain",
+        });
+        const replaced = await fs.getFileMetadata("/test-contract-copy.txt");
+        expect(replaced.contentType).toBe("text/plain");
+        expect(replaced.metadata).toBeUndefined();
+      });
+
+      test("rename keeps the metadata and metadata storage is not listed", async () => {
+        await fs.mkdir("/test-contract-dir", { recursive: true });
+        await fs.writeFile("/test-contract-dir/a.json", "{}", fileMetadata);
+
+        await fs.rename("/test-contract-dir/a.json", "/test-contract-dir/b.json");
+
+        expect(await fs.getFileMetadata("/test-contract-dir/b.json")).toMatchObject(fileMetadata);
+        expect(await fs.readdir("/test-contract-dir")).toEqual(["b.json"]);
+      });
+
+      test("invalid metadata is rejected and missing files fail", async () => {
+        await expect(
+          fs.writeFile("/test-contract.txt", "{}", { metadata: { "bad key": "value" } }),
+        ).rejects.toThrow(ValidationError);
+        await expect(fs.getFileMetadata("/test-contract-missing.txt")).rejects.toThrow(
+          FileNotFoundError,
+        );
+      });
+    });
+
+    describe("Lock Contract", () => {
+      test("a held lock excludes other callers until it is released", async () => {
+        const lock = await fs.lock("/test-contract.txt");
+
+        await expect(fs.lock("/test-contract.txt")).rejects.toThrow(LockedError);
+        await lock.release();
+
+        const next = await fs.lock("/test-contract.txt");
+        expect(next.path).toBe("/test-contract.txt");
+        await next.release();
+      });
+
+      test("lock with wait acquires the lock once it is released", async () => {
+        const lock = await fs.lock("/test-contract.txt");
+        setTimeout(() => lock.release(), 100);
+
+        const next = await fs.lock("/test-contract.txt", { wait: 2000 });
+        await next.release();
+      });
+
+      test("an expired lock is taken over and its stale release is ignored", async () => {
+        const stale = await fs.lock("/test-contract.txt", { ttl: 50 });
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        const current = await fs.lock("/test-contract.txt");
+        await stale.release();
+
+        await expect(fs.lock("/test-contract.txt")).rejects.toThrow(LockedError);
+        await current.release();
+      });
+
+      test("concurrent takeovers of an expired lock admit a single holder", async () => {
+        await fs.lock("/test-contract.txt", { ttl: 50 });
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        const attempts = await Promise.allSettled(
+          Array.from({ length: 5 }, () => fs.lock("/test-contract.txt")),
+        );
+        const holders = attempts.filter(attempt => attempt.status === "fulfilled");
+        expect(holders).toHaveLength(1);
+        await (holders[0] as PromiseFulfilledResult<LockHandle>).value.release();
+      });
+
+      test("concurrent appends are not lost", async () => {
+        await Promise.all(
+          ["a", "b", "c", "d"].map(name =>
+            fs.appendFile("/test-contract.txt", `${name}\n`, "utf8"),
+          ),
+        );
+
+        const lines = (await fs.readFile("/test-contract.txt", "utf8")).trim().split("\n");
+        expect(lines.sort()).toEqual(["a", "b", "c", "d"]);
+      });
+
+      test("appends made under the lock are not lost", async () => {
+        const workers = ["a", "b", "c", "d"].map(async name => {
+          const lock = await fs.lock("/test-contract.txt", { wait: 5000 });
+          try {
+            await fs.appendFile("/test-contract.txt", `${name}\n`, "utf8");
+          } finally {
+            await lock.release();
+          }
+        });
+        await Promise.all(workers);
+
+        const lines = (await fs.readFile("/test-contract.txt", "utf8")).trim().split("\n");
+        expect(lines.sort()).toEqual(["a", "b", "c", "d"]);
+      });
+
+      test("lock files are not listed by readdir, walk or glob", async () => {
+        await fs.writeFile("/test-contract-dir/file.txt", "content", "utf8");
+        const locks = [
+          await fs.lock("/test-contract-dir/file.txt"),
+          await fs.lock("/test-contract-dir/missing.txt"),
+        ];
+
+        try {
+          expect(await fs.readdir("/test-contract-dir")).toEqual(["file.txt"]);
+          const walked: string[] = [];
+          for await (const entry of fs.walk("/test-contract-dir")) {
+            walked.push(entry.path);
+          }
+          expect(walked).toEqual(["/test-contract-dir/file.txt"]);
+          expect(await fs.glob("test-contract-dir/**", { dot: true })).toEqual([
+            "test-contract-dir/file.txt",
+          ]);
+        } finally {
+          await Promise.all(locks.map(lock => lock.release()));
+        }
+      });
+
+      test("invalid lock options are rejected", async () => {
+        await expect(fs.lock("/test-contract.txt", { ttl: 0 })).rejects.toThrow(ValidationError);
+        await expect(fs.lock("/test-contract.txt", { wait: -1 })).rejects.toThrow(ValidationError);
+      });
+    });
+
     describe("Directory Operations Contract", () => {
       // Note: Directory operations may not be fully implemented for all adapters
       // These tests check basic compliance
@@ -239,6 +569,54 @@ export function createFilesystemContractTests(
       });
     });
 
+    describe("Metadata Contract", () => {
+      test("getMetadata reports name and capabilities", () => {
+        const metadata = fs.getMetadata();
+
+        expect(typeof metadata.name).toBe("string");
+        expect(typeof metadata.version).toBe("string");
+        expect(typeof metadata.isAvailable).toBe("boolean");
+        expect(metadata.capabilities).toEqual({
+          streaming: expect.any(Boolean),
+          symbolicLinks: expect.any(Boolean),
+          permissions: expect.any(Boolean),
+          directories: expect.any(Boolean),
+          realDirectories: expect.any(Boolean),
+          atomicRename: expect.any(Boolean),
+          maxFileSize: expect.any(Number),
+          networkBased: expect.any(Boolean),
+        });
+      });
+    });
+
+    describe("Error Classes Contract", () => {
+      test("mkdir on an existing directory throws AlreadyExistsError", async () => {
+        await fs.mkdir("/test-contract-dir");
+
+        await expect(fs.mkdir("/test-contract-dir")).rejects.toThrow(AlreadyExistsError);
+      });
+
+      test("rmdir on a non-empty directory throws DirectoryNotEmptyError", async () => {
+        await fs.mkdir("/test-contract-dir");
+        await fs.writeFile("/test-contract-dir/file.txt", "content", "utf8");
+
+        await expect(fs.rmdir("/test-contract-dir")).rejects.toThrow(DirectoryNotEmptyError);
+      });
+
+      test("readFile on a directory throws IsDirectoryError", async () => {
+        await fs.mkdir("/test-contract-dir");
+
+        await expect(fs.readFile("/test-contract-dir")).rejects.toThrow(IsDirectoryError);
+      });
+
+      test("readdir and rmdir on a file throw NotDirectoryError", async () => {
+        await fs.writeFile("/test-contract.txt", "content", "utf8");
+
+        await expect(fs.readdir("/test-contract.txt")).rejects.toThrow(NotDirectoryError);
+        await expect(fs.rmdir("/test-contract.txt")).rejects.toThrow(NotDirectoryError);
+      });
+    });
+
     describe("Error Handling Contract", () => {
       test("readFile throws appropriate error for non-existent file", async () => {
         const nonExistentPath = "/does-not-exist-error.txt";
@@ -252,10 +630,86 @@ export function createFilesystemContractTests(
 
         await expect(fs.unlink(nonExistentPath)).rejects.toThrow();
       });
+
+      test("errors carry a stable code, path, operation and backend", async () => {
+        const nonExistentPath = "/does-not-exist-code.txt";
+
+        const error = await fs.readFile(nonExistentPath).catch(caught => caught);
+
+        expect(error).toBeInstanceOf(FileNotFoundError);
+        expect(error).toMatchObject({
+          code: "ENOENT",
+          path: nonExistentPath,
+          operation: "readFile",
+          backend: fs.getMetadata().name,
+        });
+      });
     });
   });
 }
 
+/**
+ * Error mapping shared by all adapters
+ */
+describe("Contract Tests: Error Mapping", () => {
+  const context = { path: "/file.txt", operation: "readFile", backend: "test" };
+
+  test("Node.js errno codes map to error classes and codes", () => {
+    const notFound = mapError(
+      Object.assign(new Error("no such file"), { code: "ENOENT" }),
+      context,
+    );
+    expect(notFound).toBeInstanceOf(FileNotFoundError);
+    expect(notFound).toMatchObject({ code: "ENOENT", ...context });
+
+    const exists = mapError(Object.assign(new Error("file exists"), { code: "EEXIST" }), context);
+    expect(exists).toBeInstanceOf(AlreadyExistsError);
+    expect(exists.code).toBe("EEXIST");
+
+    expect(mapError(Object.assign(new Error("denied"), { code: "EPERM" }), context)).toBeInstanceOf(
+      PermissionError,
+    );
+  });
+
+  test("AWS SDK error names and HTTP status codes map to error codes", () => {
+    expect(mapError({ name: "NoSuchKey", message: "missing" }, context).code).toBe("ENOENT");
+    expect(mapError({ name: "NoSuchBucket", message: "missing" }, context)).toBeInstanceOf(
+      StorageError,
+    );
+    expect(
+      mapError({ name: "Unknown", message: "denied", $metadata: { httpStatusCode: 403 } }, context)
+        .code,
+    ).toBe("EACCES");
+
+    const throttled = mapError({ name: "SlowDown", message: "slow down" }, context);
+    expect(throttled).toBeInstanceOf(NetworkError);
+    expect(throttled.code).toBe("EAGAIN");
+
+    expect(
+      mapError(
+        { name: "PreconditionFailed", message: "changed", $metadata: { httpStatusCode: 412 } },
+        context,
+      ),
+    ).toBeInstanceOf(PreconditionFailedError);
+  });
+
+  test("messages are not used for classification", () => {
+    const error = mapError(new Error("object not found in cache"), context);
+
+    expect(error).not.toBeInstanceOf(FileNotFoundError);
+    expect(error.code).toBe("EIO");
+  });
+
+  test("filesystem errors pass through with missing context filled in", () => {
+    const original = new FileNotFoundError("/file.txt");
+
+    const mapped = mapError(original, context);
+
+    expect(mapped).toBe(original);
+    expect(mapped).toMatchObject({ operation: "readFile", backend: "test" });
+  });
+});
+
 /**
  * Local filesystem adapter contract tests
  */
@@ -282,6 +736,104 @@ describe("Contract Tests: Local Filesystem Adapter", () => {
   );
 });
 
+/**
+ * In-memory adapter contract tests
+ */
+describe("Contract Tests: Memory Adapter", () => {
+  createFilesystemContractTests("MemoryAdapter", () =>
+    createFilesystem({
+      type: "memory",
+      memory: {
+        createMissingDirs: true,
+      },
+    }),
+  );
+});
+
+/**
+ * Adapter implementing only the core primitives, relying on the AbstractAdapter defaults
+ */
+class PrimitiveMemoryAdapter extends AbstractAdapter {
+  private inner: MemoryAdapter;
+
+  constructor(config: MemoryAdapterConfig) {
+    super();
+    this.inner = new MemoryAdapter(config);
+  }
+
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    return encoding ? this.inner.readFile(filePath, encoding) : this.inner.readFile(filePath);
+  }
+
+  async writeFile(
+    filePath: string,
+    data: string | Buffer,
+    options?: BufferEncoding | WriteFileOptions,
+  ): Promise<void> {
+    return this.inner.writeFile(filePath, data, options);
+  }
+
+  async unlink(filePath: string, options?: UnlinkOptions): Promise<void> {
+    return this.inner.unlink(filePath, options);
+  }
+
+  async readdir(dirPath: string, options: { withFileTypes: true }): Promise<DirectoryEntry[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[]>;
+  async readdir(dirPath: string, options?: ReaddirOptions): Promise<string[] | DirectoryEntry[]> {
+    return options?.withFileTypes
+      ? hideLockFiles(
+          await this.inner.readdir(dirPath, { withFileTypes: true }),
+          entry => entry.name,
+        )
+      : hideLockFiles(await this.inner.readdir(dirPath), name => name);
+  }
+
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.inner.mkdir(dirPath, options);
+  }
+
+  async rmdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    return this.inner.rmdir(dirPath, options);
+  }
+
+  async stat(filePath: string): Promise<FileStats> {
+    return this.inner.stat(filePath);
+  }
+
+  async getFileMetadata(filePath: string): Promise<FileMetadata> {
+    return this.inner.getFileMetadata(filePath);
+  }
+
+  createReadStream(filePath: string, options?: ReadStreamOptions) {
+    return this.inner.createReadStream(filePath, options);
+  }
+
+  createWriteStream(filePath: string, options?: WriteStreamOptions) {
+    return this.inner.createWriteStream(filePath, options);
+  }
+
+  getMetadata(): AdapterMetadata {
+    return this.inner.getMetadata();
+  }
+}
+
+/**
+ * Contract tests for the AbstractAdapter default implementations
+ */
+describe("Contract Tests: AbstractAdapter Defaults", () => {
+  registerAdapter<MemoryAdapterConfig>(
+    "primitive-memory",
+    config => new PrimitiveMemoryAdapter(config),
+    () => ({ errors: [], config: { createMissingDirs: true } }),
+  );
+
+  createFilesystemContractTests("PrimitiveMemoryAdapter", () =>
+    createFilesystem({ type: "primitive-memory" }),
+  );
+});
+
 /**
  * S3 adapter contract tests (skipped by default, requires AWS credentials)
  */
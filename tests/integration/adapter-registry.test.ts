@@ -0,0 +1,98 @@
+/**
+ * Integration Tests: Adapter Registry
+ *
+ * Tests for registering custom adapter types with the filesystem factory.
+ */
+
+import { createFilesystem, createFilesystemFromEnv } from "../../src/core/filesystem-factory";
+import {
+  getRegisteredAdapterTypes,
+  registerAdapter,
+  unregisterAdapter,
+} from "../../src/core/adapter-registry";
+import { MemoryAdapter, MemoryAdapterConfig } from "../../src/adapters/memory-adapter";
+import { ValidationError } from "../../src/errors/filesystem-errors";
+import type { AdapterType } from "../../src/types/config";
+
+declare module "../../src/types/config" {
+  interface AdapterConfigSections {
+    "custom-memory": { createMissingDirs?: boolean };
+  }
+}
+
+describe("Adapter Registry", () => {
+  const customType = "custom-memory";
+
+  beforeEach(() => {
+    registerAdapter<MemoryAdapterConfig>(
+      customType,
+      config => new MemoryAdapter(config),
+      (section, common) => {
+        const options = section as { createMissingDirs?: unknown } | undefined;
+        if (options?.createMissingDirs !== undefined && options.createMissingDirs !== true) {
+          return { errors: ["custom-memory createMissingDirs must be true if provided"] };
+        }
+        return { errors: [], config: { createMissingDirs: true, debug: common.debug } };
+      },
+    );
+  });
+
+  afterEach(() => {
+    unregisterAdapter(customType);
+  });
+
+  test("built-in adapter types are registered", () => {
+    expect(getRegisteredAdapterTypes()).toEqual(expect.arrayContaining(["local", "s3", "memory"]));
+  });
+
+  test("createFilesystem uses a registered custom adapter", async () => {
+    const fs = createFilesystem({ type: customType });
+
+    await fs.writeFile("/nested/custom.txt", "custom", "utf8");
+
+    expect(await fs.readFile("/nested/custom.txt", "utf8")).toBe("custom");
+  });
+
+  test("createFilesystem reports errors from the registered config validator", () => {
+    expect(() =>
+      createFilesystem({ type: customType, [customType]: { createMissingDirs: false } }),
+    ).toThrow(/createMissingDirs must be true/);
+  });
+
+  test("createFilesystem rejects unregistered types", () => {
+    expect(() => createFilesystem({ type: "unknown-backend" as AdapterType })).toThrow(
+      ValidationError,
+    );
+  });
+
+  test("createFilesystemFromEnv selects registered custom adapters", async () => {
+    process.env.FILESYSTEM_TYPE = customType;
+    try {
+      const fs = createFilesystemFromEnv();
+      await fs.writeFile("/nested/env.txt", "env", "utf8");
+      expect(await fs.readFile("/nested/env.txt", "utf8")).toBe("env");
+
+      process.env.FILESYSTEM_TYPE = "unknown-backend";
+      expect(() => createFilesystemFromEnv()).toThrow(/registered adapter type/);
+    } finally {
+      delete process.env.FILESYSTEM_TYPE;
+    }
+  });
+
+  test("validateConfig knows the built-in types without the filesystem factory", () => {
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { validateConfig } = require("../../src/types/config");
+      expect(validateConfig({ type: "local", local: { basePath: "." } }).isValid).toBe(true);
+      expect(validateConfig({ type: "memory" }).isValid).toBe(true);
+    });
+  });
+
+  test("registering a duplicate type requires override", () => {
+    const factory = (config: MemoryAdapterConfig) => new MemoryAdapter(config);
+    const validator = () => ({ errors: [], config: { createMissingDirs: false } });
+
+    expect(() => registerAdapter(customType, factory, validator)).toThrow(ValidationError);
+    expect(() => registerAdapter(customType, factory, validator, { override: true })).not.toThrow();
+  });
+});
@@ -6,7 +6,14 @@
 
 import { createFilesystem } from "../../src/core/filesystem-factory";
 import { Filesystem } from "../../src/interfaces/filesystem.interface";
-import { FileNotFoundError } from "../../src/errors/filesystem-errors";
+import {
+  AlreadyExistsError,
+  BatchOperationError,
+  FileNotFoundError,
+  PermissionError,
+  ValidationError,
+} from "../../src/errors/filesystem-errors";
+import { createSignedUrlToken, verifySignedUrlToken } from "../../src/utils/signed-url-utils";
 
 describe("Basic File Operations (User Story 1)", () => {
   describe("Local Filesystem", () => {
@@ -69,6 +76,97 @@ describe("Basic File Operations (User Story 1)", () => {
       expect(Buffer.compare(content as unknown as Buffer, testContent)).toBe(0);
     });
 
+    test("writeFile rejects unsupported flags", async () => {
+      await expect(
+        fs.writeFile("/flags.txt", "content", { flag: "a" as unknown as "w" }),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        fs.writeFile("/flags.txt", "content", { flag: "wx", overwrite: true }),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    test("atomic writeFile replaces the file without leaving temporary files", async () => {
+      await fs.writeFile("/config.json", '{"version":1}', "utf8");
+
+      await fs.writeFile("/config.json", '{"version":2}', { encoding: "utf8", atomic: true });
+
+      expect(await fs.readFile("/config.json", "utf8")).toBe('{"version":2}');
+      expect(await fs.readdir("/")).toEqual(["config.json"]);
+    });
+
+    test("atomic exclusive writeFile keeps an existing file", async () => {
+      await fs.writeFile("/config.json", "first", "utf8");
+
+      await expect(
+        fs.writeFile("/config.json", "second", { flag: "wx", atomic: true }),
+      ).rejects.toThrow(AlreadyExistsError);
+
+      expect(await fs.readFile("/config.json", "utf8")).toBe("first");
+      expect(await fs.readdir("/")).toEqual(["config.json"]);
+    });
+
+    test("atomicWrites configuration makes writes atomic by default", async () => {
+      const atomicFs = createFilesystem({
+        type: "local",
+        local: { basePath: testDir, createMissingDirs: true, atomicWrites: true },
+      });
+      await fs.writeFile("/config.json", "first", "utf8");
+      const before = await fs.stat("/config.json");
+
+      await atomicFs.writeFile("/config.json", "second", "utf8");
+
+      expect((await fs.stat("/config.json")).ino).not.toBe(before.ino);
+      expect(await fs.readFile("/config.json", "utf8")).toBe("second");
+      expect(() =>
+        createFilesystem({ type: "local", local: { atomicWrites: "yes" as unknown as boolean } }),
+      ).toThrow(ValidationError);
+    });
+
+    test("getSignedUrl signs tokens that verifySignedUrlToken accepts", async () => {
+      const secret = "test-signing-secret";
+      const signingFs = createFilesystem({
+        type: "local",
+        local: {
+          basePath: testDir,
+          signedUrls: { secret, baseUrl: "https://files.example.com/download" },
+        },
+      });
+
+      const url = await signingFs.getSignedUrl("/docs/report.pdf", {
+        operation: "read",
+        expiresIn: 60,
+        contentType: "application/pdf",
+      });
+      const token = new URL(url).searchParams.get("token")!;
+
+      expect(url.startsWith("https://files.example.com/download?token=")).toBe(true);
+      expect(verifySignedUrlToken(token, secret, "read")).toMatchObject({
+        path: "/docs/report.pdf",
+        operation: "read",
+        contentType: "application/pdf",
+      });
+      expect(() => verifySignedUrlToken(token, secret, "write")).toThrow(PermissionError);
+      expect(() => verifySignedUrlToken(token, "other-secret")).toThrow(PermissionError);
+      expect(() => verifySignedUrlToken(`x${token}`, secret)).toThrow();
+      expect(() => verifySignedUrlToken("not-a-token", secret)).toThrow(ValidationError);
+
+      const expired = createSignedUrlToken(
+        { path: "/docs/report.pdf", operation: "read", expiresAt: Date.now() - 1 },
+        secret,
+      );
+      expect(() => verifySignedUrlToken(expired, secret)).toThrow(PermissionError);
+
+      await expect(
+        signingFs.getSignedUrl("/../outside.txt", { operation: "read" }),
+      ).rejects.toThrow(PermissionError);
+      await expect(
+        signingFs.getSignedUrl("/docs/report.pdf", { operation: "read", expiresIn: 0 }),
+      ).rejects.toThrow(ValidationError);
+      await expect(fs.getSignedUrl("/docs/report.pdf", { operation: "read" })).rejects.toThrow(
+        ValidationError,
+      );
+    });
+
     test("unlink deletes file", async () => {
       const testPath = "/to-delete.txt";
       const testContent = "Delete me";
@@ -91,6 +189,34 @@ describe("Basic File Operations (User Story 1)", () => {
       await expect(fs.readFile(testPath, "utf8")).rejects.toThrow(FileNotFoundError);
     });
 
+    test("removeMany deletes files and ignores missing paths", async () => {
+      const paths = ["/many-1.txt", "/many-2.txt", "/nested/many-3.txt"];
+      for (const path of paths) {
+        await fs.writeFile(path, "Delete me", "utf8");
+      }
+
+      await fs.removeMany([...paths, "/never-existed.txt"], { concurrency: 2 });
+
+      for (const path of paths) {
+        expect(await fs.exists(path)).toBe(false);
+      }
+    });
+
+    test("removeMany reports failures in a BatchOperationError", async () => {
+      await fs.writeFile("/keep-going.txt", "Delete me", "utf8");
+      await fs.mkdir("/not-a-file");
+
+      const error = await fs
+        .removeMany(["/not-a-file", "/keep-going.txt"])
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(BatchOperationError);
+      expect((error as BatchOperationError).failures.map(failure => failure.path)).toEqual([
+        "/not-a-file",
+      ]);
+      expect(await fs.exists("/keep-going.txt")).toBe(false);
+    });
+
     test("readFile throws FileNotFoundError for non-existent file", async () => {
       const nonExistentPath = "/does-not-exist.txt";
 
@@ -224,6 +350,76 @@ describe("Basic File Operations (User Story 1)", () => {
       // For now, we rely on the test prefix to isolate test files
     });
 
+    test("getSignedUrl presigns GET and PUT requests without network access", async () => {
+      const presignFs = createFilesystem({
+        type: "s3",
+        s3: {
+          bucket: "presign-bucket",
+          region: "us-east-1",
+          accessKeyId: "AKIDEXAMPLE",
+          secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+          prefix: "uploads",
+        },
+      });
+
+      const readUrl = new URL(
+        await presignFs.getSignedUrl("/docs/report.pdf", { operation: "read", expiresIn: 300 }),
+      );
+      expect(readUrl.pathname).toContain("uploads/docs/report.pdf");
+      expect(readUrl.searchParams.get("X-Amz-Expires")).toBe("300");
+      expect(readUrl.searchParams.get("X-Amz-Signature")).toBeTruthy();
+
+      const writeUrl = new URL(
+        await presignFs.getSignedUrl("/docs/report.pdf", {
+          operation: "write",
+          contentType: "application/pdf",
+        }),
+      );
+      expect(writeUrl.searchParams.get("X-Amz-Expires")).toBe("900");
+      expect(writeUrl.searchParams.get("X-Amz-SignedHeaders")).toContain("content-type");
+      expect(writeUrl.searchParams.has("x-amz-checksum-crc32")).toBe(false);
+    });
+
+    test("server-side encryption settings are validated and signed into upload URLs", async () => {
+      const s3 = { bucket: "encrypted-bucket", region: "us-east-1", accessKeyId: "AKIDEXAMPLE" };
+      const customerKey = Buffer.alloc(32, 1).toString("base64");
+
+      const kmsFs = createFilesystem({
+        type: "s3",
+        s3: {
+          ...s3,
+          secretAccessKey: "secret",
+          serverSideEncryption: "aws:kms",
+          sseKmsKeyId: "alias/app",
+        },
+      });
+      const uploadUrl = new URL(await kmsFs.getSignedUrl("/report.pdf", { operation: "write" }));
+      expect(uploadUrl.searchParams.get("X-Amz-SignedHeaders")).toContain(
+        "x-amz-server-side-encryption-aws-kms-key-id",
+      );
+
+      const customerKeyFs = createFilesystem({
+        type: "s3",
+        s3: { ...s3, sseCustomerKey: customerKey },
+      });
+      await expect(
+        customerKeyFs.getSignedUrl("/report.pdf", { operation: "read" }),
+      ).rejects.toThrow(ValidationError);
+
+      for (const invalid of [
+        { serverSideEncryption: "DES" as "AES256" },
+        { sseKmsKeyId: "alias/app" },
+        { serverSideEncryption: "AES256" as const, sseKmsKeyId: "alias/app" },
+        { sseCustomerKey: "too-short" },
+        { sseCustomerKey: customerKey, serverSideEncryption: "AES256" as const },
+        { sseCustomerKey: customerKey, endpoint: "http://localhost:9000" },
+      ]) {
+        expect(() => createFilesystem({ type: "s3", s3: { ...s3, ...invalid } })).toThrow(
+          ValidationError,
+        );
+      }
+    });
+
     testCondition("writeFile and readFile with string content", async () => {
       const testPath = "/test.txt";
       const testContent = "Hello, S3 World!";
@@ -316,6 +512,17 @@ describe("Basic File Operations (User Story 1)", () => {
       expect(destContent).toBe(content);
     });
 
+    testCondition("removeMany deletes files in batches", async () => {
+      const paths = Array.from({ length: 25 }, (_, i) => `/many-s3/file-${i}.txt`);
+      for (const path of paths) {
+        await fs.writeFile(path, "Delete me", "utf8");
+      }
+
+      await fs.removeMany([...paths, "/many-s3/never-existed.txt"]);
+
+      expect(await fs.readdir("/many-s3")).toEqual([]);
+    });
+
     testCondition("rename moves file", async () => {
       const oldPath = "/old-s3.txt";
       const newPath = "/new-s3.txt";
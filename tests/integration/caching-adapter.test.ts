@@ -0,0 +1,271 @@
+/**
+ * Integration Tests: Caching Adapter
+ *
+ * Tests for the metadata and content cache in front of a backend.
+ */
+
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+import { createFilesystem } from "../../src/core/filesystem-factory";
+import { CachingAdapter } from "../../src/core/caching-adapter";
+import { MemoryAdapter } from "../../src/adapters/memory-adapter";
+import { FileStats } from "../../src/interfaces/filesystem.interface";
+import { FileNotFoundError } from "../../src/errors/filesystem-errors";
+import type { AdapterType } from "../../src/types/config";
+
+/**
+ * Memory backend counting the requests that reach it
+ */
+class CountingAdapter extends MemoryAdapter {
+  statCalls = 0;
+  readFileCalls = 0;
+
+  async stat(filePath: string): Promise<FileStats> {
+    this.statCalls++;
+    return super.stat(filePath);
+  }
+
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    this.readFileCalls++;
+    return encoding ? super.readFile(filePath, encoding) : super.readFile(filePath);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("Caching Adapter", () => {
+  let backend: CountingAdapter;
+  let store: MemoryAdapter;
+  let adapter: CachingAdapter;
+
+  beforeEach(() => {
+    backend = new CountingAdapter({ createMissingDirs: true });
+    store = new MemoryAdapter({ createMissingDirs: true });
+    adapter = new CachingAdapter(backend, { content: { store } });
+  });
+
+  describe("Metadata Cache", () => {
+    test("serves repeated stat and exists calls from the cache", async () => {
+      await backend.writeFile("/templates/page.html", "<p>hi</p>", "utf8");
+
+      expect((await adapter.stat("/templates/page.html")).size).toBe(9);
+      expect(await adapter.exists("/templates/page.html")).toBe(true);
+      expect((await adapter.stat("templates/page.html")).isFile()).toBe(true);
+      expect(backend.statCalls).toBe(1);
+    });
+
+    test("remembers missing paths until a write through the adapter", async () => {
+      expect(await adapter.exists("/missing.txt")).toBe(false);
+      await expect(adapter.stat("/missing.txt")).rejects.toThrow(FileNotFoundError);
+      expect(backend.statCalls).toBe(1);
+
+      await adapter.writeFile("/missing.txt", "now here", "utf8");
+      expect(await adapter.exists("/missing.txt")).toBe(true);
+    });
+
+    test("refetches stats once they expire", async () => {
+      adapter = new CachingAdapter(backend, { metadata: { ttl: 20 } });
+      await backend.writeFile("/a.txt", "a", "utf8");
+
+      await adapter.stat("/a.txt");
+      await adapter.stat("/a.txt");
+      await sleep(40);
+      await adapter.stat("/a.txt");
+      expect(backend.statCalls).toBe(2);
+    });
+
+    test("shares one backend request between concurrent calls", async () => {
+      await backend.writeFile("/shared.txt", "x", "utf8");
+
+      await Promise.all([
+        adapter.stat("/shared.txt"),
+        adapter.exists("/shared.txt"),
+        adapter.stat("/shared.txt"),
+      ]);
+      expect(backend.statCalls).toBe(1);
+    });
+
+    test("evicts the least recently used paths beyond maxEntries", async () => {
+      adapter = new CachingAdapter(backend, { metadata: { maxEntries: 2 } });
+      await backend.writeFile("/1.txt", "1", "utf8");
+      await backend.writeFile("/2.txt", "2", "utf8");
+      await backend.writeFile("/3.txt", "3", "utf8");
+
+      await adapter.stat("/1.txt");
+      await adapter.stat("/2.txt");
+      await adapter.stat("/1.txt");
+      await adapter.stat("/3.txt");
+      expect(backend.statCalls).toBe(3);
+
+      await adapter.stat("/1.txt");
+      await adapter.stat("/2.txt");
+      expect(backend.statCalls).toBe(4);
+    });
+  });
+
+  describe("Content Cache", () => {
+    test("reads repeated files from the store", async () => {
+      await backend.writeFile("/page.html", "<h1>cached</h1>", "utf8");
+
+      expect(await adapter.readFile("/page.html", "utf8")).toBe("<h1>cached</h1>");
+      expect((await adapter.readFile("/page.html")).toString("utf8")).toBe("<h1>cached</h1>");
+      expect(backend.readFileCalls).toBe(1);
+      expect(await store.readdir("/")).toHaveLength(1);
+    });
+
+    test("revalidates expired content by ETag", async () => {
+      adapter = new CachingAdapter(backend, { metadata: { ttl: 20 }, content: { store } });
+      await backend.writeFile("/page.html", "v1", "utf8");
+      await adapter.readFile("/page.html");
+
+      await sleep(40);
+      expect(await adapter.readFile("/page.html", "utf8")).toBe("v1");
+      expect(backend.readFileCalls).toBe(1);
+
+      // Another writer replaces the file behind the cache
+      await backend.writeFile("/page.html", "v2", "utf8");
+      await sleep(40);
+      expect(await adapter.readFile("/page.html", "utf8")).toBe("v2");
+      expect(backend.readFileCalls).toBe(2);
+      expect(await store.readdir("/")).toHaveLength(1);
+    });
+
+    test("skips files larger than maxFileSize", async () => {
+      adapter = new CachingAdapter(backend, { content: { store, maxFileSize: 4 } });
+      await backend.writeFile("/large.txt", "too large", "utf8");
+
+      await adapter.readFile("/large.txt");
+      await adapter.readFile("/large.txt");
+      expect(backend.readFileCalls).toBe(2);
+      expect(await store.readdir("/")).toEqual([]);
+    });
+
+    test("evicts contents beyond maxSize from the store", async () => {
+      adapter = new CachingAdapter(backend, { content: { store, maxSize: 10 } });
+      await backend.writeFile("/a.txt", "aaaaaa", "utf8");
+      await backend.writeFile("/b.txt", "bbbbbb", "utf8");
+
+      await adapter.readFile("/a.txt");
+      await adapter.readFile("/b.txt");
+      await sleep(10);
+      expect(await store.readdir("/")).toHaveLength(1);
+
+      await adapter.readFile("/b.txt");
+      expect(backend.readFileCalls).toBe(2);
+    });
+  });
+
+  describe("Invalidation", () => {
+    test("writes through the adapter replace cached contents", async () => {
+      await adapter.writeFile("/doc.txt", "one", "utf8");
+      expect(await adapter.readFile("/doc.txt", "utf8")).toBe("one");
+
+      await adapter.appendFile("/doc.txt", ",two", "utf8");
+      expect(await adapter.readFile("/doc.txt", "utf8")).toBe("one,two");
+
+      await pipeline(Readable.from(["three"]), adapter.createWriteStream("/doc.txt"));
+      expect(await adapter.readFile("/doc.txt", "utf8")).toBe("three");
+
+      await adapter.unlink("/doc.txt");
+      expect(await adapter.exists("/doc.txt")).toBe(false);
+      await sleep(10);
+      expect(await store.readdir("/")).toEqual([]);
+    });
+
+    test("copy and rename invalidate their destinations", async () => {
+      await adapter.writeFile("/src.txt", "source", "utf8");
+      await adapter.writeFile("/dest.txt", "old", "utf8");
+      expect(await adapter.readFile("/dest.txt", "utf8")).toBe("old");
+
+      await adapter.copyFile("/src.txt", "/dest.txt");
+      expect(await adapter.readFile("/dest.txt", "utf8")).toBe("source");
+
+      await adapter.rename("/src.txt", "/moved.txt");
+      expect(await adapter.exists("/src.txt")).toBe(false);
+      expect(await adapter.readFile("/moved.txt", "utf8")).toBe("source");
+    });
+
+    test("directory operations invalidate the paths below them", async () => {
+      await adapter.writeFile("/dir/nested/file.txt", "nested", "utf8");
+      expect(await adapter.exists("/dir/nested/file.txt")).toBe(true);
+      expect(await adapter.exists("/other/file.txt")).toBe(false);
+
+      await adapter.rename("/dir", "/other");
+      expect(await adapter.exists("/dir/nested/file.txt")).toBe(false);
+      expect(await adapter.readFile("/other/nested/file.txt", "utf8")).toBe("nested");
+
+      await adapter.rmdir("/other", { recursive: true });
+      expect(await adapter.exists("/other/nested/file.txt")).toBe(false);
+    });
+
+    test("writes below a directory cached as missing make it visible", async () => {
+      expect(await adapter.exists("/reports")).toBe(false);
+
+      await adapter.writeFile("/reports/2024/summary.txt", "summary", "utf8");
+      expect(await adapter.exists("/reports")).toBe(true);
+    });
+  });
+
+  describe("Factory Configuration", () => {
+    const testDir = "./test-temp-cache-store";
+
+    afterEach(async () => {
+      // Cleanup test directory
+      try {
+        await createFilesystem({ type: "local", local: { basePath: "." } }).rmdir(testDir, {
+          recursive: true,
+        });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    test("caches contents in a local store", async () => {
+      const fs = createFilesystem({
+        type: "memory",
+        memory: { createMissingDirs: true },
+        cache: {
+          metadata: { ttl: 60000 },
+          content: {
+            store: { type: "local", local: { basePath: testDir, createMissingDirs: true } },
+          },
+        },
+      });
+      await fs.writeFile("/views/index.html", "<main></main>", "utf8");
+
+      expect(await fs.readFile("/views/index.html", "utf8")).toBe("<main></main>");
+      expect(await fs.readFile("/views/index.html", "utf8")).toBe("<main></main>");
+      const stored = createFilesystem({ type: "local", local: { basePath: testDir } });
+      expect(await stored.readdir("/")).toHaveLength(1);
+    });
+
+    test("caches the stored content below an encryption layer", async () => {
+      const fs = createFilesystem({
+        type: "memory",
+        memory: { createMissingDirs: true },
+        encryption: { masterKey: Buffer.alloc(32, 7).toString("base64") },
+        cache: { content: {} },
+      });
+      await fs.writeFile("/secret.txt", "plaintext", "utf8");
+
+      expect(await fs.readFile("/secret.txt", "utf8")).toBe("plaintext");
+      expect(await fs.readFile("/secret.txt", "utf8")).toBe("plaintext");
+      expect((await fs.stat("/secret.txt")).size).toBe("plaintext".length);
+    });
+
+    test("rejects an invalid cache configuration", () => {
+      expect(() =>
+        createFilesystem({ type: "memory", cache: { metadata: { maxEntries: 0 } } }),
+      ).toThrow(/Cache metadata.maxEntries must be a positive integer/);
+      expect(() =>
+        createFilesystem({
+          type: "memory",
+          cache: { content: { store: { type: "nope" as AdapterType } } },
+        }),
+      ).toThrow(/Cache content store: Invalid type: "nope"/);
+    });
+  });
+});
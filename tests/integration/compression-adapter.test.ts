@@ -0,0 +1,231 @@
+/**
+ * Integration Tests: Compression Adapter
+ *
+ * Tests for transparent compression of files matching path patterns.
+ */
+
+import { randomBytes } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import zlib from "zlib";
+
+import { createFilesystem } from "../../src/core/filesystem-factory";
+import { CompressionAdapter } from "../../src/core/compression-adapter";
+import { MemoryAdapter } from "../../src/adapters/memory-adapter";
+import { StorageError, ValidationError } from "../../src/errors/filesystem-errors";
+import { isCodecAvailable } from "../../src/utils/compression-utils";
+
+const readStream = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+describe("Compression Adapter", () => {
+  const logLine = "2024-01-01T00:00:00Z INFO request handled in 12ms\n";
+  let backend: MemoryAdapter;
+  let adapter: CompressionAdapter;
+
+  beforeEach(() => {
+    backend = new MemoryAdapter({ createMissingDirs: true });
+    adapter = new CompressionAdapter(backend, {
+      rules: [
+        { pattern: "logs/**/*.log", codec: "gzip" },
+        { pattern: "archive/**", codec: "brotli", level: 11 },
+      ],
+    });
+  });
+
+  test("stores matching files compressed under the codec suffix", async () => {
+    const content = logLine.repeat(200);
+    await adapter.writeFile("/logs/app.log", content, "utf8");
+
+    const stored = await backend.readFile("/logs/app.log.gz");
+    expect(stored.length).toBeLessThan(content.length / 10);
+    expect(zlib.gunzipSync(stored).toString("utf8")).toBe(content);
+    expect(await backend.exists("/logs/app.log")).toBe(false);
+    expect(await adapter.readFile("/logs/app.log", "utf8")).toBe(content);
+  });
+
+  test("passes other files through unchanged", async () => {
+    await adapter.writeFile("/logs/notes.txt", "plain", "utf8");
+
+    expect(await backend.readFile("/logs/notes.txt", "utf8")).toBe("plain");
+    expect(await adapter.readFile("/logs/notes.txt", "utf8")).toBe("plain");
+  });
+
+  test("appendFile adds gzip members without rewriting the file", async () => {
+    await adapter.appendFile("/logs/app.log", "first\n", "utf8");
+    const firstMember = await backend.readFile("/logs/app.log.gz");
+    await adapter.appendFile("/logs/app.log", "second\n", "utf8");
+
+    const stored = await backend.readFile("/logs/app.log.gz");
+    expect(stored.subarray(0, firstMember.length).equals(firstMember)).toBe(true);
+    expect(await adapter.readFile("/logs/app.log", "utf8")).toBe("first\nsecond\n");
+  });
+
+  test("appendFile rewrites brotli files", async () => {
+    await adapter.appendFile("/archive/2024.log", "one,", "utf8");
+    await adapter.appendFile("/archive/2024.log", "two", "utf8");
+
+    const stored = await backend.readFile("/archive/2024.log.br");
+    expect(zlib.brotliDecompressSync(stored).toString("utf8")).toBe("one,two");
+  });
+
+  test("write and read streams compress and decompress", async () => {
+    const content = logLine.repeat(1000);
+    await pipeline(Readable.from([content]), adapter.createWriteStream("/logs/stream.log"));
+    await pipeline(
+      Readable.from(["tail\n"]),
+      adapter.createWriteStream("/logs/stream.log", { flags: "a" }),
+    );
+
+    expect(await readStream(adapter.createReadStream("/logs/stream.log"))).toBe(`${content}tail\n`);
+    expect(
+      await readStream(adapter.createReadStream("/logs/stream.log", { start: 4, end: 9 })),
+    ).toBe(content.slice(4, 10));
+  });
+
+  test("lists compressed files under their plain names", async () => {
+    await adapter.writeFile("/logs/a.log", "a", "utf8");
+    await adapter.writeFile("/logs/b.txt", "b", "utf8");
+    await backend.writeFile("/logs/c.txt.gz", "not managed", "utf8");
+
+    expect((await adapter.readdir("/logs")).sort()).toEqual(["a.log", "b.txt", "c.txt.gz"]);
+    expect((await adapter.readdirPaged("/logs")).entries.sort()).toEqual([
+      "a.log",
+      "b.txt",
+      "c.txt.gz",
+    ]);
+    expect(await adapter.glob("logs/*.log")).toEqual(["logs/a.log"]);
+    expect((await adapter.stat("/logs/a.log")).isFile()).toBe(true);
+  });
+
+  test("reads files stored uncompressed before a rule applied", async () => {
+    await backend.writeFile("/logs/old.log", "legacy\n", "utf8");
+
+    expect(await adapter.readFile("/logs/old.log", "utf8")).toBe("legacy\n");
+    expect(await readStream(adapter.createReadStream("/logs/old.log"))).toBe("legacy\n");
+
+    await adapter.appendFile("/logs/old.log", "appended\n", "utf8");
+    expect(await backend.exists("/logs/old.log")).toBe(false);
+    expect(await adapter.readFile("/logs/old.log", "utf8")).toBe("legacy\nappended\n");
+    expect(await adapter.readdir("/logs")).toEqual(["old.log"]);
+  });
+
+  test("rewriting or deleting a file stored uncompressed removes its old content", async () => {
+    await backend.writeFile("/logs/old.log", "legacy\n", "utf8");
+    await backend.writeFile("/logs/gone.log", "legacy\n", "utf8");
+
+    await adapter.writeFile("/logs/old.log", "rewritten\n", "utf8");
+    expect(await backend.exists("/logs/old.log")).toBe(false);
+    await adapter.unlink("/logs/old.log");
+    expect(await adapter.exists("/logs/old.log")).toBe(false);
+
+    // A compressed file written next to the old one, as by an earlier version
+    await backend.writeFile("/logs/gone.log.gz", zlib.gzipSync("new\n"));
+    await adapter.unlink("/logs/gone.log");
+    expect(await adapter.exists("/logs/gone.log")).toBe(false);
+    expect(await backend.readdir("/logs")).toEqual([]);
+  });
+
+  test("rename moves directories below a rule as they are", async () => {
+    adapter = new CompressionAdapter(backend, { rules: [{ pattern: "logs/**", codec: "gzip" }] });
+    await adapter.writeFile("/logs/a/app.log", "entry", "utf8");
+
+    await adapter.rename("/logs/a", "/logs/b");
+    expect(await adapter.readdir("/logs")).toEqual(["b"]);
+    expect(await adapter.readFile("/logs/b/app.log", "utf8")).toBe("entry");
+  });
+
+  test("rename recompresses files moved to another codec", async () => {
+    await adapter.writeFile("/logs/app.log", "moved", "utf8");
+    await adapter.rename("/logs/app.log", "/archive/app.log");
+
+    expect(await backend.exists("/logs/app.log.gz")).toBe(false);
+    expect(
+      zlib.brotliDecompressSync(await backend.readFile("/archive/app.log.br")).toString(),
+    ).toBe("moved");
+    expect(await adapter.readFile("/archive/app.log", "utf8")).toBe("moved");
+  });
+
+  test("unlink and removeMany delete compressed files", async () => {
+    await adapter.writeFile("/logs/a.log", "a", "utf8");
+    await adapter.writeFile("/logs/b.log", "b", "utf8");
+
+    await adapter.unlink("/logs/a.log");
+    await adapter.removeMany(["/logs/b.log"]);
+    expect(await backend.readdir("/logs")).toEqual([]);
+  });
+
+  test("corrupt compressed files fail with StorageError", async () => {
+    await backend.writeFile("/logs/broken.log.gz", "not gzip", "utf8");
+
+    await expect(adapter.readFile("/logs/broken.log")).rejects.toThrow(StorageError);
+  });
+
+  test("rejects signed URLs for compressed files", async () => {
+    await expect(adapter.getSignedUrl("/logs/app.log", { operation: "read" })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  test("zstd is available exactly when the runtime supports it", async () => {
+    const create = () =>
+      new CompressionAdapter(backend, { rules: [{ pattern: "**/*.zst-test", codec: "zstd" }] });
+
+    if (!isCodecAvailable("zstd")) {
+      expect(create).toThrow(ValidationError);
+      return;
+    }
+    const zstdAdapter = create();
+    await zstdAdapter.appendFile("/a.zst-test", "one,", "utf8");
+    await zstdAdapter.appendFile("/a.zst-test", "two", "utf8");
+    expect(await zstdAdapter.readFile("/a.zst-test", "utf8")).toBe("one,two");
+  });
+
+  describe("Factory Configuration", () => {
+    test("applies compression below the configured patterns", async () => {
+      const fs = createFilesystem({
+        type: "memory",
+        memory: { createMissingDirs: true },
+        compression: { rules: [{ pattern: "**/*.log", codec: "gzip", level: 9 }] },
+      });
+      await fs.writeFile("/var/app.log", logLine, "utf8");
+
+      expect(await fs.readdir("/var")).toEqual(["app.log"]);
+      expect(await fs.readFile("/var/app.log", "utf8")).toBe(logLine);
+    });
+
+    test("compresses before encrypting", async () => {
+      const fs = createFilesystem({
+        type: "memory",
+        memory: { createMissingDirs: true },
+        encryption: { masterKey: randomBytes(32).toString("base64") },
+        compression: { rules: [{ pattern: "**/*.log", codec: "gzip" }] },
+      });
+      const content = logLine.repeat(500);
+      await fs.writeFile("/app.log", content, "utf8");
+
+      expect((await fs.stat("/app.log")).size).toBeLessThan(content.length / 10);
+      expect(await fs.readFile("/app.log", "utf8")).toBe(content);
+    });
+
+    test("rejects invalid compression rules", () => {
+      expect(() =>
+        createFilesystem({
+          type: "memory",
+          compression: { rules: [{ pattern: "*.log", codec: "lz4" as "gzip" }] },
+        }),
+      ).toThrow(/Compression rules\[0\].codec must be "gzip", "brotli" or "zstd"/);
+      expect(() =>
+        createFilesystem({
+          type: "memory",
+          compression: { rules: [{ pattern: "*.log", codec: "gzip", level: 12 }] },
+        }),
+      ).toThrow(/level must be an integer from 0 to 9/);
+    });
+  });
+});
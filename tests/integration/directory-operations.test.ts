@@ -6,7 +6,11 @@
 
 import { createFilesystem } from "../../src/core/filesystem-factory";
 import { Filesystem } from "../../src/interfaces/filesystem.interface";
-import { StorageError } from "../../src/errors/filesystem-errors";
+import {
+  DirectoryNotEmptyError,
+  FileNotFoundError,
+  ValidationError,
+} from "../../src/errors/filesystem-errors";
 
 describe("Directory Operations (User Story 3)", () => {
   describe("Local Filesystem", () => {
@@ -119,6 +123,60 @@ describe("Directory Operations (User Story 3)", () => {
       await expect(fs.readdir(filePath)).rejects.toThrow();
     });
 
+    test("readdir withFileTypes returns Dirent-like entries", async () => {
+      await fs.writeFile("/typed/file.txt", "content", "utf8");
+      await fs.mkdir("/typed/subdir");
+
+      const entries = await fs.readdir("/typed", { withFileTypes: true });
+      const file = entries.find(entry => entry.name === "file.txt")!;
+      const dir = entries.find(entry => entry.name === "subdir")!;
+
+      expect(entries).toHaveLength(2);
+      expect(file.isFile()).toBe(true);
+      expect(file.isDirectory()).toBe(false);
+      expect(dir.isDirectory()).toBe(true);
+      expect(dir.isSymbolicLink()).toBe(false);
+    });
+
+    test("readdirPaged returns sorted pages with a cursor", async () => {
+      for (const name of ["e.txt", "a.txt", "c.txt", "b.txt", "d.txt"]) {
+        await fs.writeFile(`/paged/${name}`, name, "utf8");
+      }
+
+      const first = await fs.readdirPaged("/paged", { limit: 2 });
+      expect(first.entries).toEqual(["a.txt", "b.txt"]);
+      expect(first.cursor).toBeDefined();
+
+      const second = await fs.readdirPaged("/paged", { limit: 2, cursor: first.cursor });
+      expect(second.entries).toEqual(["c.txt", "d.txt"]);
+
+      const last = await fs.readdirPaged("/paged", { limit: 2, cursor: second.cursor });
+      expect(last.entries).toEqual(["e.txt"]);
+      expect(last.cursor).toBeUndefined();
+    });
+
+    test("readdirPaged rejects invalid limits", async () => {
+      await fs.mkdir("/paged-invalid");
+
+      await expect(fs.readdirPaged("/paged-invalid", { limit: 0 })).rejects.toThrow(
+        ValidationError,
+      );
+    });
+
+    test("readdirIterator yields every entry across pages", async () => {
+      for (let i = 0; i < 7; i++) {
+        await fs.writeFile(`/iterated/file-${i}.txt`, "x", "utf8");
+      }
+
+      const names: string[] = [];
+      for await (const name of fs.readdirIterator("/iterated", { pageSize: 3 })) {
+        names.push(name);
+      }
+
+      expect(names).toHaveLength(7);
+      expect(new Set(names).size).toBe(7);
+    });
+
     test("rmdir removes empty directory", async () => {
       const dirPath = "/to-remove";
       await fs.mkdir(dirPath);
@@ -285,8 +343,8 @@ describe("Directory Operations (User Story 3)", () => {
         await fs.mkdir(dirPath);
         // If it succeeds, that's acceptable for S3
       } catch (error) {
-        // If it fails, it should be a StorageError about parent not existing
-        expect(error).toBeInstanceOf(StorageError);
+        // If it fails, it should be a FileNotFoundError, as on the local filesystem
+        expect(error).toBeInstanceOf(FileNotFoundError);
       }
     });
 
@@ -321,6 +379,44 @@ describe("Directory Operations (User Story 3)", () => {
       await expect(fs.readdir(nonExistentPath)).rejects.toThrow();
     });
 
+    testCondition("readdir withFileTypes returns entries from the listing", async () => {
+      await fs.writeFile("/typed-s3/file.txt", "content", "utf8");
+      await fs.writeFile("/typed-s3/subdir/nested.txt", "nested", "utf8");
+
+      const entries = await fs.readdir("/typed-s3", { withFileTypes: true });
+      const file = entries.find(entry => entry.name === "file.txt")!;
+      const dir = entries.find(entry => entry.name === "subdir")!;
+
+      expect(file.isFile()).toBe(true);
+      expect(file.size).toBe(7);
+      expect(file.mtime).toBeInstanceOf(Date);
+      expect(dir.isDirectory()).toBe(true);
+    });
+
+    testCondition(
+      "readdir follows continuation tokens past 1000 entries",
+      async () => {
+        const count = 1005;
+        for (let i = 0; i < count; i++) {
+          await fs.writeFile(`/large-s3/file-${String(i).padStart(4, "0")}.txt`, "x", "utf8");
+        }
+
+        const entries = await fs.readdir("/large-s3");
+        expect(entries).toHaveLength(count);
+
+        const firstPage = await fs.readdirPaged("/large-s3", { limit: 1000 });
+        expect(firstPage.entries).toHaveLength(1000);
+        expect(firstPage.cursor).toBeDefined();
+
+        const names: string[] = [];
+        for await (const name of fs.readdirIterator("/large-s3", { pageSize: 400 })) {
+          names.push(name);
+        }
+        expect(names).toHaveLength(count);
+      },
+      300000,
+    );
+
     testCondition("rmdir removes directory marker", async () => {
       const dirPath = "/to-remove-s3";
       await fs.mkdir(dirPath);
@@ -360,7 +456,7 @@ describe("Directory Operations (User Story 3)", () => {
       await fs.writeFile(`${dirPath}/file.txt`, "test", "utf8");
 
       // Should throw because directory is not empty
-      await expect(fs.rmdir(dirPath)).rejects.toThrow(StorageError);
+      await expect(fs.rmdir(dirPath)).rejects.toThrow(DirectoryNotEmptyError);
     });
 
     testCondition("exists returns true for directory", async () => {
@@ -0,0 +1,255 @@
+/**
+ * Integration Tests: Encrypted Adapter
+ *
+ * Tests for client-side encryption of file contents and file names.
+ */
+
+import { randomBytes } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+import { createFilesystem } from "../../src/core/filesystem-factory";
+import { EncryptedAdapter } from "../../src/core/encrypted-adapter";
+import { MemoryAdapter } from "../../src/adapters/memory-adapter";
+import { Filesystem } from "../../src/interfaces/filesystem.interface";
+import {
+  FileNotFoundError,
+  StorageError,
+  ValidationError,
+} from "../../src/errors/filesystem-errors";
+import { ENCRYPTION_OVERHEAD } from "../../src/utils/encryption-utils";
+
+const readStream = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+describe("Encrypted Adapter", () => {
+  const masterKey = randomBytes(32).toString("base64");
+  let backend: MemoryAdapter;
+  let adapter: EncryptedAdapter;
+
+  beforeEach(() => {
+    backend = new MemoryAdapter({ createMissingDirs: true });
+    adapter = new EncryptedAdapter(backend, { masterKey });
+  });
+
+  test("stores ciphertext and reads back the plaintext", async () => {
+    await adapter.writeFile("/docs/secret.txt", "top secret", "utf8");
+
+    const stored = await backend.readFile("/docs/secret.txt");
+    expect(stored.toString("utf8")).not.toContain("top secret");
+    expect(stored.length).toBe("top secret".length + ENCRYPTION_OVERHEAD);
+    expect(await adapter.readFile("/docs/secret.txt", "utf8")).toBe("top secret");
+  });
+
+  test("encrypts equal contents differently", async () => {
+    await adapter.writeFile("/a.txt", "same", "utf8");
+    await adapter.writeFile("/b.txt", "same", "utf8");
+
+    expect((await backend.readFile("/a.txt")).equals(await backend.readFile("/b.txt"))).toBe(false);
+  });
+
+  test("stat, readdir and walk report plaintext sizes", async () => {
+    await adapter.writeFile("/dir/file.txt", "12345", "utf8");
+
+    expect((await adapter.stat("/dir/file.txt")).size).toBe(5);
+    const [entry] = await adapter.readdir("/dir", { withFileTypes: true });
+    expect(entry.size).toBe(5);
+
+    const walked = [];
+    for await (const walkEntry of adapter.walk("/")) {
+      walked.push(walkEntry);
+    }
+    expect(walked.find(item => item.path === "/dir/file.txt")?.stats.size).toBe(5);
+  });
+
+  test("appendFile re-encrypts the existing content", async () => {
+    await adapter.appendFile("/log.txt", "one\n", "utf8");
+    await adapter.appendFile("/log.txt", "two\n", "utf8");
+
+    expect(await adapter.readFile("/log.txt", "utf8")).toBe("one\ntwo\n");
+    expect((await adapter.stat("/log.txt")).size).toBe(8);
+  });
+
+  test("streams encrypt on write and decrypt on read", async () => {
+    const content = "x".repeat(100000);
+    await pipeline(
+      Readable.from([content.slice(0, 40000), content.slice(40000)]),
+      adapter.createWriteStream("/big.txt"),
+    );
+
+    expect(await readStream(adapter.createReadStream("/big.txt", { highWaterMark: 1000 }))).toBe(
+      content,
+    );
+    expect((await adapter.stat("/big.txt")).size).toBe(content.length);
+  });
+
+  test("read streams serve plaintext ranges", async () => {
+    await adapter.writeFile("/range.txt", "0123456789", "utf8");
+
+    expect(await readStream(adapter.createReadStream("/range.txt", { start: 2, end: 5 }))).toBe(
+      "2345",
+    );
+  });
+
+  test("append write streams keep the existing content", async () => {
+    await adapter.writeFile("/stream-log.txt", "first,", "utf8");
+    await pipeline(
+      Readable.from(["second"]),
+      adapter.createWriteStream("/stream-log.txt", { flags: "a" }),
+    );
+
+    expect(await adapter.readFile("/stream-log.txt", "utf8")).toBe("first,second");
+  });
+
+  test("modified ciphertext fails authentication", async () => {
+    await adapter.writeFile("/tampered.txt", "original", "utf8");
+    const stored = await backend.readFile("/tampered.txt");
+    stored[stored.length - ENCRYPTION_OVERHEAD] ^= 0xff;
+    await backend.writeFile("/tampered.txt", stored);
+
+    await expect(adapter.readFile("/tampered.txt")).rejects.toThrow(StorageError);
+    await expect(readStream(adapter.createReadStream("/tampered.txt"))).rejects.toThrow(
+      StorageError,
+    );
+  });
+
+  test("files written with another master key cannot be decrypted", async () => {
+    await adapter.writeFile("/other.txt", "data", "utf8");
+    const other = new EncryptedAdapter(backend, { masterKey: randomBytes(32).toString("base64") });
+
+    await expect(other.readFile("/other.txt")).rejects.toThrow(/wrong master key/);
+  });
+
+  test("unencrypted files are rejected", async () => {
+    await backend.writeFile("/plain.txt", "not encrypted", "utf8");
+
+    await expect(adapter.readFile("/plain.txt")).rejects.toThrow(StorageError);
+  });
+
+  test("rejects invalid master keys and signed URLs", async () => {
+    expect(() => new EncryptedAdapter(backend, { masterKey: "short" })).toThrow(ValidationError);
+    await adapter.writeFile("/file.txt", "data", "utf8");
+    await expect(adapter.getSignedUrl("/file.txt", { operation: "read" })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  describe("File Name Encryption", () => {
+    beforeEach(() => {
+      adapter = new EncryptedAdapter(backend, { masterKey, encryptFileNames: true });
+    });
+
+    test("stores encrypted names and lists decrypted names", async () => {
+      await adapter.writeFile("/reports/2024/summary.txt", "report", "utf8");
+
+      const [storedDir] = await backend.readdir("/");
+      expect(storedDir).not.toBe("reports");
+      expect(await adapter.readdir("/")).toEqual(["reports"]);
+      expect(await adapter.readdir("/reports/2024")).toEqual(["summary.txt"]);
+      expect(await adapter.readFile("/reports/2024/summary.txt", "utf8")).toBe("report");
+    });
+
+    test("walk and glob match decrypted paths", async () => {
+      await adapter.writeFile("/docs/a.md", "a", "utf8");
+      await adapter.writeFile("/docs/b.txt", "b", "utf8");
+
+      const paths = [];
+      for await (const entry of adapter.walk("/")) {
+        paths.push(entry.path);
+      }
+      expect(paths.sort()).toEqual(["/docs", "/docs/a.md", "/docs/b.txt"]);
+      expect(await adapter.glob("**/*.md")).toEqual(["docs/a.md"]);
+    });
+
+    test("skips entries with names it cannot decrypt", async () => {
+      await adapter.writeFile("/kept.txt", "kept", "utf8");
+      await backend.writeFile("/foreign.txt", "foreign", "utf8");
+
+      expect(await adapter.readdir("/")).toEqual(["kept.txt"]);
+      expect((await adapter.readdirPaged("/")).entries).toEqual(["kept.txt"]);
+    });
+
+    test("rename, copy and errors use the plaintext paths", async () => {
+      await adapter.writeFile("/old.txt", "moved", "utf8");
+      await adapter.rename("/old.txt", "/new.txt");
+      await adapter.copyFile("/new.txt", "/copy.txt");
+
+      expect(await adapter.readFile("/copy.txt", "utf8")).toBe("moved");
+      expect(await adapter.exists("/old.txt")).toBe(false);
+      await expect(adapter.readFile("/old.txt")).rejects.toMatchObject({
+        path: "/old.txt",
+        message: expect.stringContaining("/old.txt"),
+      });
+    });
+
+    test("locks report the plaintext path", async () => {
+      const handle = await adapter.lock("/locked.txt");
+
+      expect(handle.path).toBe("/locked.txt");
+      expect(await adapter.readdir("/")).toEqual([]);
+      await handle.release();
+    });
+  });
+
+  describe("Factory Configuration", () => {
+    const testDir = "./test-temp-encrypted-local";
+    let fs: Filesystem;
+
+    beforeEach(() => {
+      fs = createFilesystem({
+        type: "local",
+        local: { basePath: testDir, createMissingDirs: true },
+        encryption: { masterKey, encryptFileNames: true },
+      });
+    });
+
+    afterEach(async () => {
+      // Cleanup test directory
+      try {
+        await createFilesystem({ type: "local", local: { basePath: "." } }).rmdir(testDir, {
+          recursive: true,
+        });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    test("wraps the configured adapter", async () => {
+      await fs.writeFile("/notes/today.txt", "encrypted on disk", "utf8");
+
+      const raw = createFilesystem({ type: "local", local: { basePath: testDir } });
+      expect(await raw.readdir("/")).not.toContain("notes");
+      expect(await fs.readFile("/notes/today.txt", "utf8")).toBe("encrypted on disk");
+      expect((await fs.stat("/notes/today.txt")).size).toBe("encrypted on disk".length);
+    });
+
+    test("encrypts a single mount", async () => {
+      const mounted = createFilesystem({
+        type: "mount",
+        mount: {
+          "/": { type: "memory", memory: { createMissingDirs: true } },
+          "/vault": { type: "memory", encryption: { masterKey } },
+        },
+      });
+      await mounted.writeFile("/vault/key.txt", "hidden", "utf8");
+
+      expect(await mounted.readFile("/vault/key.txt", "utf8")).toBe("hidden");
+      expect((await mounted.stat("/vault/key.txt")).size).toBe(6);
+    });
+
+    test("rejects an invalid encryption configuration", () => {
+      expect(() =>
+        createFilesystem({ type: "memory", encryption: { masterKey: "not-a-key" } }),
+      ).toThrow(/Encryption masterKey must be a base64-encoded 256-bit key/);
+    });
+
+    test("reports missing files with their plaintext path", async () => {
+      await expect(fs.readFile("/missing.txt")).rejects.toThrow(FileNotFoundError);
+    });
+  });
+});
@@ -7,6 +7,7 @@
 import { createFilesystem } from "../../src/core/filesystem-factory";
 import { Filesystem } from "../../src/interfaces/filesystem.interface";
 import { FileNotFoundError, PermissionError } from "../../src/errors/filesystem-errors";
+import { contentMatchesType, detectContentType } from "../../src/utils/content-type-utils";
 
 describe("Metadata Operations (User Story 4)", () => {
   describe("Local Filesystem", () => {
@@ -459,4 +460,44 @@ describe("Metadata Operations (User Story 4)", () => {
       expect(true).toBe(true); // Placeholder for the concept
     });
   });
+
+  describe("Content Type Detection", () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+    test("detects the type from the extension", () => {
+      expect(detectContentType("/docs/report.PDF")).toBe("application/pdf");
+      expect(detectContentType("data.json")).toBe("application/json");
+      expect(detectContentType("/unknown.ext")).toBeUndefined();
+      expect(detectContentType("/no-extension")).toBeUndefined();
+    });
+
+    test("magic bytes win over the extension", () => {
+      expect(detectContentType("/upload.txt", png)).toBe("image/png");
+      expect(detectContentType("/upload", Buffer.from("%PDF-1.7"))).toBe("application/pdf");
+      expect(detectContentType("/notes.md", Buffer.from("# Notes"))).toBe("text/markdown");
+    });
+
+    test("ZIP-based formats keep the type of their extension", () => {
+      const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+      expect(detectContentType("/letter.docx", zip)).toBe(
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      );
+      expect(detectContentType("/letter.txt", zip)).toBe("application/zip");
+    });
+
+    test("content must carry the signature of a claimed type", () => {
+      const html = Buffer.from("<html><script>alert(1)</script></html>");
+      const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+      expect(contentMatchesType("image/png", png)).toBe(true);
+      expect(contentMatchesType("image/png", html)).toBe(false);
+      expect(contentMatchesType("IMAGE/PNG; q=1", html)).toBe(false);
+      expect(contentMatchesType("application/epub+zip", zip)).toBe(true);
+      expect(contentMatchesType("application/epub+zip", html)).toBe(false);
+      // Types without a signature cannot be checked
+      expect(contentMatchesType("text/html", html)).toBe(true);
+      expect(contentMatchesType("application/octet-stream", png)).toBe(true);
+    });
+  });
 });
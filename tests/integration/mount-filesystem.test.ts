@@ -0,0 +1,169 @@
+/**
+ * Integration Tests: Mount Filesystem
+ *
+ * Tests for composing several adapters under path prefixes.
+ */
+
+import { createFilesystem } from "../../src/core/filesystem-factory";
+import { MountFilesystem } from "../../src/core/mount-filesystem";
+import { MemoryAdapter } from "../../src/adapters/memory-adapter";
+import { Filesystem } from "../../src/interfaces/filesystem.interface";
+import {
+  AlreadyExistsError,
+  FileNotFoundError,
+  IsDirectoryError,
+  PermissionError,
+  ValidationError,
+} from "../../src/errors/filesystem-errors";
+
+describe("Mount Filesystem", () => {
+  const testDir = "./test-temp-mount-local";
+  let fs: Filesystem;
+
+  beforeEach(() => {
+    fs = createFilesystem({
+      type: "mount",
+      mount: {
+        "/cache": { type: "local", local: { basePath: testDir, createMissingDirs: true } },
+        "/tmp": { type: "memory", memory: { createMissingDirs: true } },
+        "/tmp/scratch": { type: "memory" },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    // Cleanup test directory
+    try {
+      await fs.rmdir("/cache", { recursive: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  test("routes paths to the adapter mounted at the longest prefix", async () => {
+    await fs.writeFile("/tmp/a.txt", "memory", "utf8");
+    await fs.writeFile("/tmp/scratch/b.txt", "scratch", "utf8");
+    await fs.writeFile("/cache/c.txt", "local", "utf8");
+
+    expect(await fs.readFile("/tmp/a.txt", "utf8")).toBe("memory");
+    expect(await fs.readFile("/tmp/scratch/b.txt", "utf8")).toBe("scratch");
+    expect(await fs.readFile("/cache/c.txt", "utf8")).toBe("local");
+    expect(await fs.exists("/tmp/scratch/a.txt")).toBe(false);
+  });
+
+  test("readdir of a parent lists mount points", async () => {
+    await fs.writeFile("/tmp/a.txt", "memory", "utf8");
+
+    expect((await fs.readdir("/")).sort()).toEqual(["cache", "tmp"]);
+    expect((await fs.readdir("/tmp")).sort()).toEqual(["a.txt", "scratch"]);
+  });
+
+  test("readdir withFileTypes reports mount points as directories", async () => {
+    await fs.writeFile("/tmp/a.txt", "memory", "utf8");
+
+    const entries = await fs.readdir("/tmp", { withFileTypes: true });
+    const file = entries.find(entry => entry.name === "a.txt")!;
+    const mountPoint = entries.find(entry => entry.name === "scratch")!;
+
+    expect(file.isFile()).toBe(true);
+    expect(file.size).toBe(6);
+    expect(mountPoint.isDirectory()).toBe(true);
+  });
+
+  test("mount points are reported as directories", async () => {
+    expect((await fs.stat("/")).isDirectory()).toBe(true);
+    expect((await fs.stat("/tmp/scratch")).isDirectory()).toBe(true);
+    expect(await fs.exists("/")).toBe(true);
+  });
+
+  test("paths outside every mount are not found", async () => {
+    await expect(fs.readFile("/other/file.txt")).rejects.toThrow(FileNotFoundError);
+    await expect(fs.readdir("/other")).rejects.toThrow(FileNotFoundError);
+    expect(await fs.exists("/other")).toBe(false);
+  });
+
+  test("copyFile streams content across mounts", async () => {
+    await fs.writeFile("/tmp/source.txt", "cross-mount copy", "utf8");
+
+    await fs.copyFile("/tmp/source.txt", "/cache/copied.txt");
+
+    expect(await fs.readFile("/cache/copied.txt", "utf8")).toBe("cross-mount copy");
+    expect(await fs.exists("/tmp/source.txt")).toBe(true);
+  });
+
+  test("rename moves files across mounts", async () => {
+    await fs.writeFile("/cache/move.txt", "cross-mount move", "utf8");
+
+    await fs.rename("/cache/move.txt", "/tmp/scratch/moved.txt");
+
+    expect(await fs.readFile("/tmp/scratch/moved.txt", "utf8")).toBe("cross-mount move");
+    expect(await fs.exists("/cache/move.txt")).toBe(false);
+  });
+
+  test("copyFile with overwrite false keeps an existing destination across mounts", async () => {
+    await fs.writeFile("/tmp/source.txt", "source", "utf8");
+    await fs.writeFile("/cache/target.txt", "existing", "utf8");
+
+    await expect(
+      fs.copyFile("/tmp/source.txt", "/cache/target.txt", { overwrite: false }),
+    ).rejects.toThrow(AlreadyExistsError);
+    expect(await fs.readFile("/cache/target.txt", "utf8")).toBe("existing");
+  });
+
+  test("rename refuses to move directories across mounts", async () => {
+    await fs.mkdir("/tmp/dir");
+
+    await expect(fs.rename("/tmp/dir", "/cache/dir")).rejects.toThrow(IsDirectoryError);
+  });
+
+  test("cross-mount copy of a missing file throws FileNotFoundError", async () => {
+    await expect(fs.copyFile("/tmp/missing.txt", "/cache/missing.txt")).rejects.toThrow(
+      FileNotFoundError,
+    );
+  });
+
+  test("mount points cannot be removed non-recursively", async () => {
+    await expect(fs.rmdir("/tmp")).rejects.toThrow(PermissionError);
+  });
+
+  test("recursive rmdir empties nested mounts", async () => {
+    await fs.writeFile("/tmp/a.txt", "memory", "utf8");
+    await fs.writeFile("/tmp/scratch/b.txt", "scratch", "utf8");
+
+    await fs.rmdir("/tmp", { recursive: true });
+
+    expect(await fs.exists("/tmp/a.txt")).toBe(false);
+    expect(await fs.exists("/tmp/scratch/b.txt")).toBe(false);
+    expect(await fs.readdir("/tmp")).toEqual(["scratch"]);
+  });
+
+  test("realpath includes the mount point", async () => {
+    await fs.writeFile("/tmp/scratch/b.txt", "scratch", "utf8");
+
+    expect(await fs.realpath("/tmp/scratch/b.txt")).toBe("tmp/scratch/b.txt");
+  });
+
+  test("rejects invalid mount configuration", () => {
+    expect(() => createFilesystem({ type: "mount", mount: {} })).toThrow(ValidationError);
+    expect(() => createFilesystem({ type: "mount", mount: { "/bad": { type: "local" } } })).toThrow(
+      /Mount "\/bad"/,
+    );
+    expect(() =>
+      createFilesystem({ type: "mount", mount: { relative: { type: "memory" } } }),
+    ).toThrow(ValidationError);
+  });
+
+  test("mounts can be managed at runtime", async () => {
+    const mountFs = new MountFilesystem({ "/a": new MemoryAdapter({ createMissingDirs: true }) });
+
+    mountFs.mount("/b", new MemoryAdapter({ createMissingDirs: true }));
+    await mountFs.writeFile("/b/file.txt", "b", "utf8");
+
+    expect(mountFs.getMounts().map(mount => mount.path)).toEqual(["/a", "/b"]);
+    expect(() => mountFs.mount("/a", new MemoryAdapter({ createMissingDirs: true }))).toThrow(
+      ValidationError,
+    );
+    expect(mountFs.unmount("/b")).toBe(true);
+    await expect(mountFs.readFile("/b/file.txt")).rejects.toThrow(FileNotFoundError);
+  });
+});
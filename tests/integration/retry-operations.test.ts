@@ -0,0 +1,203 @@
+/**
+ * Integration Tests: Retry Operations
+ *
+ * Tests for the retry and timeout layer that the filesystem factory applies to
+ * every adapter operation.
+ */
+
+import { createFilesystem } from "../../src/core/filesystem-factory";
+import { registerAdapter, unregisterAdapter } from "../../src/core/adapter-registry";
+import { MemoryAdapter, MemoryAdapterConfig } from "../../src/adapters/memory-adapter";
+import {
+  AbortError,
+  FileNotFoundError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+} from "../../src/errors/filesystem-errors";
+import { isRetryableError } from "../../src/utils/error-mapper";
+import { CopyFileOptions, FileStats } from "../../src/interfaces/filesystem.interface";
+import type { MemoryConfig } from "../../src/types/config";
+
+declare module "../../src/types/config" {
+  interface AdapterConfigSections {
+    "unreliable-memory": MemoryConfig;
+  }
+}
+
+/**
+ * Memory adapter whose reads fail with a transient network error a configurable
+ * number of times, and whose stat and copy calls take a configurable time
+ */
+class UnreliableAdapter extends MemoryAdapter {
+  static failures = 0;
+  static delay = 0;
+  static readCalls = 0;
+  static copyCalls = 0;
+
+  async readFile(filePath: string): Promise<Buffer>;
+  async readFile(filePath: string, encoding: BufferEncoding): Promise<string>;
+  async readFile(filePath: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+    UnreliableAdapter.readCalls++;
+    if (UnreliableAdapter.failures > 0) {
+      UnreliableAdapter.failures--;
+      throw Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+    }
+    return encoding ? super.readFile(filePath, encoding) : super.readFile(filePath);
+  }
+
+  async stat(filePath: string): Promise<FileStats> {
+    await new Promise(resolve => setTimeout(resolve, UnreliableAdapter.delay));
+    return super.stat(filePath);
+  }
+
+  async copyFile(src: string, dest: string, options?: CopyFileOptions): Promise<void> {
+    UnreliableAdapter.copyCalls++;
+    await new Promise(resolve => setTimeout(resolve, UnreliableAdapter.delay));
+    return super.copyFile(src, dest, options);
+  }
+}
+
+describe("Retry Operations", () => {
+  const unreliableType = "unreliable-memory";
+  const events: Array<{ level: string; message: string; meta?: any }> = [];
+  const logger = (level: string, message: string, meta?: any) => {
+    events.push({ level, message, meta });
+  };
+
+  beforeAll(() => {
+    registerAdapter<MemoryAdapterConfig>(
+      unreliableType,
+      config => new UnreliableAdapter(config),
+      () => ({ errors: [], config: { createMissingDirs: true } }),
+    );
+  });
+
+  afterAll(() => {
+    unregisterAdapter(unreliableType);
+  });
+
+  beforeEach(() => {
+    UnreliableAdapter.failures = 0;
+    UnreliableAdapter.delay = 0;
+    UnreliableAdapter.readCalls = 0;
+    UnreliableAdapter.copyCalls = 0;
+    events.length = 0;
+  });
+
+  test("transient failures are retried and reported through the logger", async () => {
+    const fs = createFilesystem({ type: unreliableType, common: { maxRetries: 2, logger } });
+    await fs.writeFile("/file.txt", "content", "utf8");
+    UnreliableAdapter.failures = 2;
+
+    expect(await fs.readFile("/file.txt", "utf8")).toBe("content");
+    expect(UnreliableAdapter.readCalls).toBe(3);
+
+    const retries = events.filter(event => event.level === "warn");
+    expect(retries).toHaveLength(2);
+    expect(retries[0].meta).toMatchObject({ operation: "readFile", path: "/file.txt", attempt: 1 });
+  });
+
+  test("the last error is thrown once retries are exhausted", async () => {
+    const fs = createFilesystem({ type: unreliableType, common: { maxRetries: 1, logger } });
+    await fs.writeFile("/file.txt", "content", "utf8");
+    UnreliableAdapter.failures = 5;
+
+    await expect(fs.readFile("/file.txt", "utf8")).rejects.toThrow("socket hang up");
+    expect(UnreliableAdapter.readCalls).toBe(2);
+    expect(events.some(event => event.level === "error")).toBe(true);
+  });
+
+  test("per-operation policies override the common retry count", async () => {
+    const fs = createFilesystem({
+      type: unreliableType,
+      common: { maxRetries: 3, operations: { readFile: { maxRetries: 0 } } },
+    });
+    await fs.writeFile("/file.txt", "content", "utf8");
+    UnreliableAdapter.failures = 1;
+
+    await expect(fs.readFile("/file.txt", "utf8")).rejects.toThrow("socket hang up");
+    expect(UnreliableAdapter.readCalls).toBe(1);
+  });
+
+  test("non-retryable errors fail on the first attempt", async () => {
+    const fs = createFilesystem({ type: unreliableType, common: { maxRetries: 3, logger } });
+
+    await expect(fs.readFile("/missing.txt")).rejects.toThrow(/not found/i);
+    expect(UnreliableAdapter.readCalls).toBe(1);
+    expect(events).toHaveLength(0);
+  });
+
+  test("errors are classified by code, not by message text", async () => {
+    const fs = createFilesystem({ type: unreliableType, common: { maxRetries: 3 } });
+
+    await expect(fs.readFile("/timeout-settings.json")).rejects.toBeInstanceOf(FileNotFoundError);
+    await expect(fs.readFile("/network/connection.json")).rejects.toBeInstanceOf(FileNotFoundError);
+    expect(UnreliableAdapter.readCalls).toBe(2);
+
+    expect(isRetryableError(new Error("connection throttled: too many requests"))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error("slow"), { name: "SlowDown" }))).toBe(true);
+    expect(isRetryableError({ $metadata: { httpStatusCode: 503 } })).toBe(true);
+    expect(isRetryableError(new NetworkError("socket closed", { cause: new Error() }))).toBe(true);
+  });
+
+  test("attempts exceeding the timeout fail with TimeoutError", async () => {
+    const fs = createFilesystem({
+      type: unreliableType,
+      common: { maxRetries: 0, operations: { stat: { timeout: 20 } } },
+    });
+    await fs.writeFile("/file.txt", "content", "utf8");
+    UnreliableAdapter.delay = 200;
+
+    await expect(fs.stat("/file.txt")).rejects.toBeInstanceOf(TimeoutError);
+    await expect(fs.withOptions({ timeout: 0 }).stat("/file.txt")).resolves.toBeDefined();
+  });
+
+  test("only read-only operations are retried after a timeout", async () => {
+    const fs = createFilesystem({ type: unreliableType, common: { timeout: 20, maxRetries: 2 } });
+    await fs.writeFile("/file.txt", "content", "utf8");
+    UnreliableAdapter.delay = 50;
+
+    await expect(fs.copyFile("/file.txt", "/copy.txt")).rejects.toBeInstanceOf(TimeoutError);
+    expect(UnreliableAdapter.copyCalls).toBe(1);
+
+    // The timed-out attempt still completes in the background
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(await fs.readFile("/copy.txt", "utf8")).toBe("content");
+  });
+
+  test("withOptions overrides the retry count for a single call", async () => {
+    const fs = createFilesystem({ type: unreliableType, common: { maxRetries: 0 } });
+    await fs.writeFile("/file.txt", "content", "utf8");
+    UnreliableAdapter.failures = 1;
+
+    expect(await fs.withOptions({ maxRetries: 1 }).readFile("/file.txt", "utf8")).toBe("content");
+  });
+
+  test("an aborted signal cancels pending and new operations", async () => {
+    const fs = createFilesystem({ type: unreliableType });
+    await fs.writeFile("/file.txt", "content", "utf8");
+    UnreliableAdapter.delay = 200;
+
+    const controller = new AbortController();
+    const scoped = fs.withOptions({ signal: controller.signal });
+    const pending = scoped.stat("/file.txt");
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    await expect(scoped.readFile("/file.txt")).rejects.toBeInstanceOf(AbortError);
+    expect(UnreliableAdapter.readCalls).toBe(0);
+  });
+
+  test("invalid operation policies are rejected", () => {
+    expect(() =>
+      createFilesystem({ type: "memory", common: { operations: { stat: { timeout: -1 } } } }),
+    ).toThrow(ValidationError);
+    expect(() =>
+      createFilesystem({
+        type: "memory",
+        common: { operations: { unknown: { maxRetries: 1 } } as any },
+      }),
+    ).toThrow(ValidationError);
+  });
+});
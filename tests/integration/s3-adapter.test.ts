@@ -0,0 +1,382 @@
+/**
+ * Integration Tests: S3 Adapter
+ *
+ * Tests for S3 request flows against an in-process fake of the S3 client.
+ */
+
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { S3Client } from "@aws-sdk/client-s3";
+
+import { S3Adapter, S3AdapterConfig } from "../../src/adapters/s3-adapter";
+import { BatchOperationError, IsDirectoryError } from "../../src/errors/filesystem-errors";
+
+/**
+ * Error shaped like the AWS SDK's service exceptions
+ */
+const s3Error = (name: string, httpStatusCode: number) =>
+  Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+
+/**
+ * In-memory object store answering the commands sent through `S3Client.send`
+ */
+class FakeS3 {
+  readonly objects = new Map<string, { body: Buffer; etag: string; contentType?: string }>();
+  readonly uploads = new Map<string, Map<number, Buffer>>();
+  readonly commands: Array<{ name: string; input: any }> = [];
+  /** Runs before each UploadPart is stored; a rejection fails the part */
+  beforeUploadPart: (input: any) => Promise<void> = async () => {};
+  /** Per-key errors returned by DeleteObjects instead of deleting the key */
+  readonly deleteErrors: Array<{ Key?: string; Code: string; Message?: string }> = [];
+
+  async send(command: { constructor: { name: string }; input: any }): Promise<any> {
+    const name = command.constructor.name.replace(/Command$/, "");
+    const input = command.input;
+    this.commands.push({ name, input });
+    // Let concurrent requests interleave as they would over the network
+    await new Promise(resolve => setImmediate(resolve));
+
+    const object = this.objects.get(input.Key);
+    switch (name) {
+      case "GetObject": {
+        if (!object) {
+          throw s3Error("NoSuchKey", 404);
+        }
+        const [, start, end] = /^bytes=(\d+)-(\d*)$/.exec(input.Range ?? "bytes=0-") ?? [];
+        if (Number(start) >= object.body.length && object.body.length > 0) {
+          throw s3Error("InvalidRange", 416);
+        }
+        const body = object.body.subarray(Number(start), end ? Number(end) + 1 : undefined);
+        return {
+          Body: Readable.from([body]),
+          ETag: object.etag,
+          ContentType: object.contentType,
+        };
+      }
+      case "ListObjectsV2": {
+        const keys = [...this.objects.keys()].filter(key => key.startsWith(input.Prefix ?? ""));
+        return { Contents: keys.slice(0, input.MaxKeys).map(Key => ({ Key })) };
+      }
+      case "PutObject":
+        if (input.IfNoneMatch === "*" && object) {
+          throw s3Error("PreconditionFailed", 412);
+        }
+        if (input.IfMatch !== undefined && object?.etag !== input.IfMatch) {
+          throw object ? s3Error("PreconditionFailed", 412) : s3Error("NoSuchKey", 404);
+        }
+        return { ETag: this.store(input.Key, Buffer.from(input.Body), input.ContentType) };
+      case "CreateMultipartUpload": {
+        const uploadId = `upload-${this.uploads.size + 1}`;
+        this.uploads.set(uploadId, new Map());
+        return { UploadId: uploadId };
+      }
+      case "UploadPart": {
+        await this.beforeUploadPart(input);
+        const body = Buffer.from(input.Body);
+        this.uploads.get(input.UploadId)!.set(input.PartNumber, body);
+        return { ETag: `"part-${input.PartNumber}"` };
+      }
+      case "CompleteMultipartUpload": {
+        if (input.IfNoneMatch === "*" && object) {
+          throw s3Error("PreconditionFailed", 412);
+        }
+        const stored = this.uploads.get(input.UploadId)!;
+        const body = Buffer.concat(
+          input.MultipartUpload.Parts.map((part: any) => stored.get(part.PartNumber)!),
+        );
+        this.uploads.delete(input.UploadId);
+        return { ETag: this.store(input.Key, body) };
+      }
+      case "DeleteObjects": {
+        const failed = new Set(this.deleteErrors.map(error => error.Key));
+        for (const { Key } of input.Delete.Objects) {
+          if (!failed.has(Key)) {
+            this.objects.delete(Key);
+          }
+        }
+        return { Errors: this.deleteErrors };
+      }
+      case "AbortMultipartUpload":
+        this.uploads.delete(input.UploadId);
+        return {};
+      default:
+        throw new Error(`Unexpected command ${name}`);
+    }
+  }
+
+  /**
+   * Names of the commands sent so far
+   */
+  names(): string[] {
+    return this.commands.map(command => command.name);
+  }
+
+  private store(key: string, body: Buffer, contentType?: string): string {
+    const etag = `"${createHash("md5").update(body).digest("hex")}"`;
+    this.objects.set(key, { body, etag, contentType });
+    return etag;
+  }
+}
+
+describe("S3 Adapter", () => {
+  let s3: FakeS3;
+  let adapter: S3Adapter;
+
+  const createAdapter = (config: Partial<S3AdapterConfig> = {}) =>
+    new S3Adapter({
+      bucket: "test-bucket",
+      region: "us-east-1",
+      accessKeyId: "test",
+      secretAccessKey: "test",
+      endpoint: "",
+      forcePathStyle: false,
+      prefix: "",
+      ...config,
+    });
+
+  beforeEach(() => {
+    s3 = new FakeS3();
+    jest
+      .spyOn(S3Client.prototype, "send")
+      .mockImplementation(((command: any) => s3.send(command)) as any);
+    adapter = createAdapter();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("createReadStream", () => {
+    const read = async (stream: Readable) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks).toString("utf8");
+    };
+
+    test("sends start and end as an HTTP range", async () => {
+      await adapter.writeFile("/data.txt", "0123456789");
+
+      expect(await read(adapter.createReadStream("/data.txt", { start: 2, end: 5 }))).toBe("2345");
+      expect(s3.commands.find(command => command.name === "GetObject")!.input.Range).toBe(
+        "bytes=2-5",
+      );
+    });
+
+    test("a start past the end of the object yields an empty stream", async () => {
+      await adapter.writeFile("/data.txt", "0123456789");
+
+      expect(await read(adapter.createReadStream("/data.txt", { start: 100 }))).toBe("");
+    });
+
+    test("rejects a directory prefix like readFile does", async () => {
+      await adapter.writeFile("/dir/file.txt", "content");
+
+      await expect(adapter.readFile("/dir")).rejects.toBeInstanceOf(IsDirectoryError);
+      await expect(read(adapter.createReadStream("/dir"))).rejects.toBeInstanceOf(IsDirectoryError);
+    });
+  });
+
+  describe("appendFile", () => {
+    test("writes back conditionally on the ETag that was read", async () => {
+      await adapter.writeFile("/log.txt", "a\n", { contentType: "text/x-log" });
+      const etag = s3.objects.get("log.txt")!.etag;
+
+      await adapter.appendFile("/log.txt", "b\n", "utf8");
+
+      const put = s3.commands.filter(command => command.name === "PutObject").pop()!;
+      expect(put.input.IfMatch).toBe(etag);
+      expect(put.input.ContentType).toBe("text/x-log");
+      expect(s3.objects.get("log.txt")!.body.toString("utf8")).toBe("a\nb\n");
+    });
+
+    test("creates a missing file exclusively", async () => {
+      await adapter.appendFile("/new.txt", "first", "utf8");
+
+      const put = s3.commands.find(command => command.name === "PutObject")!;
+      expect(put.input.IfNoneMatch).toBe("*");
+      expect(s3.objects.get("new.txt")!.body.toString("utf8")).toBe("first");
+    });
+
+    test("concurrent appends are not lost", async () => {
+      await Promise.all(
+        ["a", "b", "c", "d"].map(line => adapter.appendFile("/events.log", `${line}\n`, "utf8")),
+      );
+
+      const lines = s3.objects.get("events.log")!.body.toString("utf8").trim().split("\n");
+      expect(lines.sort()).toEqual(["a", "b", "c", "d"]);
+    });
+  });
+
+  describe("Multipart Uploads", () => {
+    const chunks = (content: string, size: number) =>
+      Readable.from(
+        content.match(new RegExp(`.{1,${size}}`, "gs"))!.map(chunk => Buffer.from(chunk)),
+      );
+
+    test("splits the stream into parts of partSize", async () => {
+      adapter = createAdapter({ multipartPartSize: 5 });
+
+      await pipeline(chunks("abcdefghijkl", 3), adapter.createWriteStream("/big.bin"));
+
+      const parts = s3.commands.filter(command => command.name === "UploadPart");
+      expect(parts.map(part => part.input.Body.length)).toEqual([5, 5, 2]);
+      const complete = s3.commands.find(command => command.name === "CompleteMultipartUpload")!;
+      expect(complete.input.MultipartUpload.Parts.map((part: any) => part.PartNumber)).toEqual([
+        1, 2, 3,
+      ]);
+      expect(s3.objects.get("big.bin")!.body.toString("utf8")).toBe("abcdefghijkl");
+    });
+
+    test("cuts several parts from one large chunk", async () => {
+      adapter = createAdapter({ multipartPartSize: 4 });
+
+      await pipeline(chunks("abcdefghij", 10), adapter.createWriteStream("/big.bin"));
+
+      const parts = s3.commands.filter(command => command.name === "UploadPart");
+      expect(parts.map(part => part.input.Body.toString("utf8"))).toEqual(["abcd", "efgh", "ij"]);
+      expect(s3.objects.get("big.bin")!.body.toString("utf8")).toBe("abcdefghij");
+    });
+
+    test("uploads at most multipartConcurrency parts at a time", async () => {
+      adapter = createAdapter({ multipartPartSize: 2, multipartConcurrency: 2 });
+      let uploading = 0;
+      let maxUploading = 0;
+      s3.beforeUploadPart = async () => {
+        maxUploading = Math.max(maxUploading, ++uploading);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        uploading--;
+      };
+
+      await pipeline(chunks("abcdefghijklmnop", 4), adapter.createWriteStream("/big.bin"));
+
+      expect(s3.commands.filter(command => command.name === "UploadPart")).toHaveLength(8);
+      expect(maxUploading).toBe(2);
+      expect(s3.objects.get("big.bin")!.body.toString("utf8")).toBe("abcdefghijklmnop");
+    });
+
+    test("aborts the upload when the stream is destroyed", async () => {
+      adapter = createAdapter({ multipartPartSize: 2 });
+      const stream = adapter.createWriteStream("/big.bin");
+
+      await new Promise<void>(resolve => stream.write("abcd", () => resolve()));
+      stream.destroy();
+      await new Promise(resolve => stream.once("close", resolve));
+
+      expect(s3.names()).toContain("AbortMultipartUpload");
+      expect(s3.names()).not.toContain("CompleteMultipartUpload");
+      expect(s3.uploads.size).toBe(0);
+      expect(s3.objects.has("big.bin")).toBe(false);
+    });
+
+    test("aborts the upload when a part fails", async () => {
+      adapter = createAdapter({ multipartPartSize: 2 });
+      s3.beforeUploadPart = async input => {
+        if (input.PartNumber === 2) {
+          throw s3Error("InternalError", 500);
+        }
+      };
+
+      await expect(
+        pipeline(chunks("abcdefgh", 2), adapter.createWriteStream("/big.bin")),
+      ).rejects.toThrow();
+
+      expect(s3.names()).toContain("AbortMultipartUpload");
+      expect(s3.names()).not.toContain("CompleteMultipartUpload");
+      expect(s3.uploads.size).toBe(0);
+    });
+
+    test("flags wx completes the upload only if the key does not exist", async () => {
+      adapter = createAdapter({ multipartPartSize: 2 });
+      await adapter.writeFile("/big.bin", "original");
+
+      await expect(
+        pipeline(chunks("abcdefgh", 2), adapter.createWriteStream("/big.bin", { flags: "wx" })),
+      ).rejects.toMatchObject({ code: "EEXIST" });
+
+      const complete = s3.commands.find(command => command.name === "CompleteMultipartUpload")!;
+      expect(complete.input.IfNoneMatch).toBe("*");
+      expect(s3.names()).toContain("AbortMultipartUpload");
+      expect(s3.uploads.size).toBe(0);
+      expect(s3.objects.get("big.bin")!.body.toString("utf8")).toBe("original");
+
+      await pipeline(chunks("abcdefgh", 2), adapter.createWriteStream("/new.bin", { flags: "wx" }));
+      expect(s3.objects.get("new.bin")!.body.toString("utf8")).toBe("abcdefgh");
+    });
+
+    test("flags wx applies to payloads smaller than a part", async () => {
+      adapter = createAdapter({ multipartPartSize: 16 });
+      await adapter.writeFile("/small.txt", "original");
+
+      await expect(
+        pipeline(chunks("small", 5), adapter.createWriteStream("/small.txt", { flags: "wx" })),
+      ).rejects.toMatchObject({ code: "EEXIST" });
+      expect(s3.objects.get("small.txt")!.body.toString("utf8")).toBe("original");
+    });
+
+    test("sends payloads smaller than a part with a single PutObject", async () => {
+      adapter = createAdapter({ multipartPartSize: 16 });
+
+      await pipeline(chunks("small payload", 4), adapter.createWriteStream("/small.txt"));
+
+      expect(s3.names()).toEqual(["PutObject"]);
+      expect(s3.objects.get("small.txt")!.body.toString("utf8")).toBe("small payload");
+    });
+  });
+
+  describe("walk", () => {
+    test("does not yield objects below a skipped directory", async () => {
+      await adapter.writeFile("/tree/src/main.ts", "main");
+      await adapter.writeFile("/tree/node_modules/pkg/index.js", "pkg");
+
+      const paths: string[] = [];
+      for await (const entry of adapter.walk("/tree", {
+        skipDirectory: entry => entry.name === "node_modules",
+      })) {
+        paths.push(entry.path);
+      }
+
+      expect(paths.sort()).toEqual(["/tree/node_modules", "/tree/src", "/tree/src/main.ts"]);
+      expect(await adapter.glob("**/*", { cwd: "/tree", ignore: ["node_modules"] })).toEqual([
+        "src/main.ts",
+      ]);
+    });
+
+    test("lease objects are not listed", async () => {
+      await adapter.writeFile("/a.txt", "a");
+      await adapter.lock("/a.txt");
+      await adapter.lock("/b.txt");
+
+      const paths: string[] = [];
+      for await (const entry of adapter.walk("/")) {
+        paths.push(entry.path);
+      }
+
+      expect([...s3.objects.keys()].sort()).toEqual([".a.txt.lock", ".b.txt.lock", "a.txt"]);
+      expect(await adapter.readdir("/")).toEqual(["a.txt"]);
+      expect(paths).toEqual(["/a.txt"]);
+    });
+  });
+
+  describe("removeMany", () => {
+    test("reports failed keys under the paths they were requested as", async () => {
+      adapter = createAdapter({ prefix: "data" });
+      await adapter.writeFile("/a.txt", "a");
+      await adapter.writeFile("/b.txt", "b");
+      s3.deleteErrors.push(
+        { Key: "data/b.txt", Code: "AccessDenied", Message: "Access Denied" },
+        { Key: "data/other.txt", Code: "InternalError" },
+      );
+
+      const error = await adapter.removeMany(["/a.txt", "/b.txt"]).catch(error => error);
+
+      expect(error).toBeInstanceOf(BatchOperationError);
+      const failures = (error as BatchOperationError).failures;
+      expect(failures.map(failure => failure.path)).toEqual(["/b.txt", "data/other.txt"]);
+      expect(s3.objects.has("data/a.txt")).toBe(false);
+      expect(s3.objects.has("data/b.txt")).toBe(true);
+    });
+  });
+});
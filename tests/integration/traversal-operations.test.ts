@@ -0,0 +1,272 @@
+/**
+ * Integration Tests: Traversal Operations
+ *
+ * Tests for recursive directory walks and glob matching, which must return the
+ * same results across storage backends.
+ */
+
+import { createFilesystem } from "../../src/core/filesystem-factory";
+import { Filesystem, WalkEntry } from "../../src/interfaces/filesystem.interface";
+import { matchGlob } from "../../src/utils/glob-utils";
+import { LocalAdapter } from "../../src/adapters/local-adapter";
+
+/**
+ * Collect all entries of a walk
+ */
+async function collect(iterator: AsyncIterable<WalkEntry>): Promise<WalkEntry[]> {
+  const entries: WalkEntry[] = [];
+  for await (const entry of iterator) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Create the fixture tree shared by all backends
+ */
+async function createTree(fs: Filesystem): Promise<void> {
+  await fs.writeFile("/tree/readme.md", "readme", "utf8");
+  await fs.writeFile("/tree/.hidden", "hidden", "utf8");
+  await fs.writeFile("/tree/docs/guide.md", "guide", "utf8");
+  await fs.writeFile("/tree/docs/api/index.md", "api", "utf8");
+  await fs.writeFile("/tree/src/main.ts", "main", "utf8");
+  await fs.writeFile("/tree/src/util.js", "util", "utf8");
+  await fs.writeFile("/tree/node_modules/pkg/index.js", "pkg", "utf8");
+}
+
+describe("Glob Matching", () => {
+  test("* and ? match within one segment", () => {
+    expect(matchGlob("main.ts", "*.ts")).toBe(true);
+    expect(matchGlob("src/main.ts", "*.ts")).toBe(false);
+    expect(matchGlob("a1.txt", "a?.txt")).toBe(true);
+    expect(matchGlob("a12.txt", "a?.txt")).toBe(false);
+  });
+
+  test("** matches any number of segments", () => {
+    expect(matchGlob("main.ts", "**/*.ts")).toBe(true);
+    expect(matchGlob("src/deep/main.ts", "**/*.ts")).toBe(true);
+    expect(matchGlob("src/deep/main.ts", "src/**/main.ts")).toBe(true);
+    expect(matchGlob("lib/main.ts", "src/**")).toBe(false);
+  });
+
+  test("brace sets and character classes", () => {
+    expect(matchGlob("src/main.ts", "src/*.{ts,js}")).toBe(true);
+    expect(matchGlob("src/util.js", "{src,lib}/**/*.{ts,js}")).toBe(true);
+    expect(matchGlob("file-b.txt", "file-[abc].txt")).toBe(true);
+    expect(matchGlob("file-d.txt", "file-[!abc].txt")).toBe(true);
+    expect(matchGlob("file-a.txt", "file-[!abc].txt")).toBe(false);
+  });
+
+  test("wildcards skip hidden names unless dot is set", () => {
+    expect(matchGlob(".env", "*")).toBe(false);
+    expect(matchGlob(".env", "*", { dot: true })).toBe(true);
+    expect(matchGlob(".env", ".*")).toBe(true);
+    expect(matchGlob(".git/config", "**/config")).toBe(false);
+  });
+});
+
+describe("Traversal Operations", () => {
+  describe("Local Filesystem", () => {
+    let fs: Filesystem;
+    const testDir = "./test-temp-traversal-local";
+
+    beforeAll(async () => {
+      fs = createFilesystem({
+        type: "local",
+        local: {
+          basePath: testDir,
+          createMissingDirs: true,
+        },
+      });
+      await createTree(fs);
+    });
+
+    afterAll(async () => {
+      // Cleanup test directory
+      try {
+        await fs.rmdir("/", { recursive: true });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    test("walk yields every entry with stats", async () => {
+      const entries = await collect(fs.walk("/tree"));
+      const paths = entries.map(entry => entry.path).sort();
+
+      expect(paths).toEqual([
+        "/tree/.hidden",
+        "/tree/docs",
+        "/tree/docs/api",
+        "/tree/docs/api/index.md",
+        "/tree/docs/guide.md",
+        "/tree/node_modules",
+        "/tree/node_modules/pkg",
+        "/tree/node_modules/pkg/index.js",
+        "/tree/readme.md",
+        "/tree/src",
+        "/tree/src/main.ts",
+        "/tree/src/util.js",
+      ]);
+
+      const guide = entries.find(entry => entry.path === "/tree/docs/guide.md")!;
+      expect(guide.name).toBe("guide.md");
+      expect(guide.depth).toBe(2);
+      expect(guide.stats.isFile()).toBe(true);
+      expect(guide.stats.size).toBe(5);
+    });
+
+    test("walk yields directories before their contents", async () => {
+      const paths = (await collect(fs.walk("/tree"))).map(entry => entry.path);
+
+      expect(paths.indexOf("/tree/docs")).toBeLessThan(paths.indexOf("/tree/docs/guide.md"));
+    });
+
+    test("walk honours maxDepth and includeDirectories", async () => {
+      const shallow = await collect(fs.walk("/tree", { maxDepth: 1 }));
+      expect(shallow.every(entry => entry.depth === 1)).toBe(true);
+      expect(shallow.map(entry => entry.name).sort()).toEqual([
+        ".hidden",
+        "docs",
+        "node_modules",
+        "readme.md",
+        "src",
+      ]);
+
+      const files = await collect(fs.walk("/tree/docs", { includeDirectories: false }));
+      expect(files.map(entry => entry.path).sort()).toEqual([
+        "/tree/docs/api/index.md",
+        "/tree/docs/guide.md",
+      ]);
+    });
+
+    test("walk does not descend into skipped directories", async () => {
+      const entries = await collect(
+        fs.walk("/tree", { skipDirectory: entry => entry.name === "node_modules" }),
+      );
+      const paths = entries.map(entry => entry.path);
+
+      expect(paths).toContain("/tree/node_modules");
+      expect(paths.filter(path => path.startsWith("/tree/node_modules/"))).toEqual([]);
+      expect(paths).toContain("/tree/docs/api/index.md");
+    });
+
+    test("glob matches with **, braces and ignore lists", async () => {
+      expect(await fs.glob("tree/**/*.md")).toEqual([
+        "tree/docs/api/index.md",
+        "tree/docs/guide.md",
+        "tree/readme.md",
+      ]);
+      expect(await fs.glob("**/*.{ts,js}", { cwd: "/tree", ignore: ["node_modules"] })).toEqual([
+        "src/main.ts",
+        "src/util.js",
+      ]);
+      expect(await fs.glob("src/?ain.ts", { cwd: "/tree" })).toEqual(["src/main.ts"]);
+    });
+
+    test("glob skips hidden files and directories unless requested", async () => {
+      expect(await fs.glob("*", { cwd: "/tree" })).toEqual(["readme.md"]);
+      expect(await fs.glob("*", { cwd: "/tree", dot: true })).toEqual([".hidden", "readme.md"]);
+      expect(await fs.glob("*", { cwd: "/tree", includeDirectories: true })).toEqual([
+        "docs",
+        "node_modules",
+        "readme.md",
+        "src",
+      ]);
+    });
+
+    test("glob below a missing directory returns no matches", async () => {
+      expect(await fs.glob("missing/**/*.md")).toEqual([]);
+    });
+
+    test("glob below a file returns no matches", async () => {
+      expect(await fs.glob("tree/readme.md/**")).toEqual([]);
+      expect(await fs.glob("tree/readme.md/*.md")).toEqual([]);
+    });
+
+    test("glob does not list ignored directories", async () => {
+      const adapter = new LocalAdapter({ basePath: testDir, createMissingDirs: false });
+      const readdir = jest.spyOn(adapter, "readdir");
+
+      expect(await adapter.glob("**/*.js", { cwd: "/tree", ignore: ["node_modules"] })).toEqual([
+        "src/util.js",
+      ]);
+      expect(readdir.mock.calls.map(([dirPath]) => dirPath)).not.toContain("tree/node_modules");
+      expect(readdir.mock.calls.map(([dirPath]) => dirPath)).toContain("tree/src");
+    });
+  });
+
+  describe("AWS S3 Filesystem", () => {
+    // Note: S3 tests require actual AWS credentials and bucket
+    // These tests are skipped by default but can be enabled with environment variables
+    const shouldRunS3Tests =
+      process.env.RUN_S3_TESTS === "true" &&
+      process.env.AWS_ACCESS_KEY_ID &&
+      process.env.AWS_SECRET_ACCESS_KEY &&
+      process.env.S3_TEST_BUCKET;
+
+    const testCondition = shouldRunS3Tests ? it : it.skip;
+
+    let fs: Filesystem;
+    const testPrefix = `traversal-test-${Date.now()}`;
+
+    beforeAll(async () => {
+      if (!shouldRunS3Tests) {
+        return;
+      }
+
+      fs = createFilesystem({
+        type: "s3",
+        s3: {
+          bucket: process.env.S3_TEST_BUCKET!,
+          region: process.env.AWS_REGION || "us-east-1",
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+          prefix: testPrefix,
+        },
+      });
+
+      await createTree(fs);
+    });
+
+    afterAll(async () => {
+      if (!shouldRunS3Tests) {
+        return;
+      }
+
+      // Cleanup test files
+      try {
+        await fs.rmdir("/", { recursive: true });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    testCondition("walk derives directories from keys", async () => {
+      const paths = (await collect(fs.walk("/tree"))).map(entry => entry.path);
+
+      expect(paths).toEqual(expect.arrayContaining(["/tree/docs", "/tree/docs/api"]));
+      expect(paths).toContain("/tree/docs/api/index.md");
+      expect(paths.indexOf("/tree/docs")).toBeLessThan(paths.indexOf("/tree/docs/guide.md"));
+    });
+
+    testCondition("walk honours maxDepth", async () => {
+      const shallow = await collect(fs.walk("/tree", { maxDepth: 1 }));
+
+      expect(shallow.map(entry => entry.name).sort()).toEqual([
+        ".hidden",
+        "docs",
+        "node_modules",
+        "readme.md",
+        "src",
+      ]);
+    });
+
+    testCondition("glob matches with **, braces and ignore lists", async () => {
+      expect(await fs.glob("**/*.{ts,js}", { cwd: "/tree", ignore: ["node_modules"] })).toEqual([
+        "src/main.ts",
+        "src/util.js",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Integration Tests: Watch Operations
+ *
+ * Tests for change watching with fs.watch (local) and polling (memory).
+ */
+
+import { once } from "events";
+import { randomBytes } from "crypto";
+
+import { createFilesystem } from "../../src/core/filesystem-factory";
+import { CachingAdapter } from "../../src/core/caching-adapter";
+import { MemoryAdapter } from "../../src/adapters/memory-adapter";
+import { Filesystem, FileWatcher, WatchEvent } from "../../src/interfaces/filesystem.interface";
+import { FileNotFoundError } from "../../src/errors/filesystem-errors";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Collect the events of a watcher as "type path" strings
+ */
+const record = (watcher: FileWatcher): string[] => {
+  const events: string[] = [];
+  watcher.on("all", (event: WatchEvent) => events.push(`${event.type} ${event.path}`));
+  return events;
+};
+
+/**
+ * Wait until a condition holds, failing after a timeout
+ */
+const waitFor = async (condition: () => boolean, timeout = 3000): Promise<void> => {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for watch events");
+    }
+    await sleep(10);
+  }
+};
+
+describe("Watch Operations", () => {
+  describe("Polling (memory)", () => {
+    let fs: Filesystem;
+    let watcher: FileWatcher | undefined;
+
+    beforeEach(() => {
+      fs = createFilesystem({ type: "memory", memory: { createMissingDirs: true } });
+    });
+
+    afterEach(async () => {
+      await watcher?.close();
+      watcher = undefined;
+    });
+
+    test("reports added, changed and removed files", async () => {
+      await fs.writeFile("/inbox/existing.csv", "a", "utf8");
+      watcher = fs.watch("/inbox", { interval: 20 });
+      const events = record(watcher);
+      await once(watcher, "ready");
+
+      await fs.writeFile("/inbox/new.csv", "b", "utf8");
+      await fs.writeFile("/inbox/existing.csv", "changed", "utf8");
+      await waitFor(() => events.length >= 2);
+      await fs.unlink("/inbox/new.csv");
+      await waitFor(() => events.length >= 3);
+
+      expect(events.sort()).toEqual([
+        "add /inbox/new.csv",
+        "change /inbox/existing.csv",
+        "unlink /inbox/new.csv",
+      ]);
+    });
+
+    test("reports only direct children unless recursive", async () => {
+      watcher = fs.watch("/", { interval: 20 });
+      const events = record(watcher);
+      await once(watcher, "ready");
+
+      await fs.writeFile("/drop/nested/file.txt", "x", "utf8");
+      await fs.writeFile("/top.txt", "x", "utf8");
+      await waitFor(() => events.length >= 2);
+      await sleep(60);
+
+      expect(events).toEqual(["addDir /drop", "add /top.txt"]);
+    });
+
+    test("reports directories and their contents when recursive", async () => {
+      watcher = fs.watch("/", { recursive: true, interval: 20 });
+      const events = record(watcher);
+      await once(watcher, "ready");
+
+      await fs.writeFile("/drop/nested/file.txt", "x", "utf8");
+      await waitFor(() => events.length >= 3);
+      await fs.rmdir("/drop", { recursive: true });
+      await waitFor(() => events.length >= 6);
+
+      expect(events).toEqual([
+        "addDir /drop",
+        "addDir /drop/nested",
+        "add /drop/nested/file.txt",
+        "unlink /drop/nested/file.txt",
+        "unlinkDir /drop/nested",
+        "unlinkDir /drop",
+      ]);
+    });
+
+    test("typed events carry the path and stats", async () => {
+      watcher = fs.watch("/", { interval: 20 });
+      await once(watcher, "ready");
+
+      const added = once(watcher, "add");
+      await fs.writeFile("/report.pdf", "12345", "utf8");
+      const [addedPath, stats] = await added;
+
+      expect(addedPath).toBe("/report.pdf");
+      expect(stats.size).toBe(5);
+    });
+
+    test("iterates over events until the loop is left", async () => {
+      const adapter = new MemoryAdapter({ createMissingDirs: true });
+      watcher = adapter.watch("/", { interval: 20 });
+      await once(watcher, "ready");
+      await adapter.writeFile("/one.txt", "1", "utf8");
+      const closed = once(watcher, "close");
+
+      const received: WatchEvent[] = [];
+      for await (const event of watcher) {
+        received.push(event);
+        if (received.length === 1) {
+          await adapter.writeFile("/two.txt", "2", "utf8");
+        } else {
+          break;
+        }
+      }
+
+      expect(received.map(event => `${event.type} ${event.path}`)).toEqual([
+        "add /one.txt",
+        "add /two.txt",
+      ]);
+      await closed;
+    });
+
+    test("fails when the directory does not exist", async () => {
+      watcher = fs.watch("/missing", { interval: 20 });
+
+      const [error] = await once(watcher, "error");
+      expect(error).toBeInstanceOf(FileNotFoundError);
+    });
+  });
+
+  describe("fs.watch (local)", () => {
+    const testDir = "./test-temp-watch";
+    let fs: Filesystem;
+    let watcher: FileWatcher | undefined;
+
+    beforeEach(async () => {
+      fs = createFilesystem({
+        type: "local",
+        local: { basePath: testDir, createMissingDirs: true },
+      });
+      await fs.mkdir("/", { recursive: true });
+    });
+
+    afterEach(async () => {
+      await watcher?.close();
+      watcher = undefined;
+      // Cleanup test directory
+      try {
+        await createFilesystem({ type: "local", local: { basePath: "." } }).rmdir(testDir, {
+          recursive: true,
+        });
+      } catch (error) {
+        // Ignore cleanup errors
+      }
+    });
+
+    test("reports files dropped into nested directories", async () => {
+      watcher = fs.watch("/", { recursive: true });
+      const events = record(watcher);
+      await once(watcher, "ready");
+
+      await fs.writeFile("/uploads/2024/data.json", "{}", "utf8");
+      await waitFor(() => events.includes("add /uploads/2024/data.json"));
+      await fs.writeFile("/uploads/2024/data.json", '{"a":1}', "utf8");
+      await waitFor(() => events.includes("change /uploads/2024/data.json"));
+      await fs.rmdir("/uploads", { recursive: true });
+      await waitFor(() => events.includes("unlinkDir /uploads"));
+
+      expect(events).toEqual([
+        "addDir /uploads",
+        "addDir /uploads/2024",
+        "add /uploads/2024/data.json",
+        "change /uploads/2024/data.json",
+        "unlink /uploads/2024/data.json",
+        "unlinkDir /uploads/2024",
+        "unlinkDir /uploads",
+      ]);
+    });
+
+    test("does not report metadata sidecars and atomic write temporaries", async () => {
+      await fs.writeFile("/doc.txt", "v1", "utf8");
+      watcher = fs.watch("/");
+      const events = record(watcher);
+      await once(watcher, "ready");
+
+      await fs.setFileMetadata("/doc.txt", { contentType: "text/plain" });
+      await fs.writeFile("/doc.txt", "version 2", { atomic: true });
+      await waitFor(() => events.length >= 1);
+      await sleep(100);
+
+      expect(events).toEqual(["change /doc.txt"]);
+    });
+
+    test("does not report lock files", async () => {
+      watcher = fs.watch("/");
+      const events = record(watcher);
+      await once(watcher, "ready");
+
+      const lock = await fs.lock("/doc.txt");
+      await lock.release();
+      await fs.writeFile("/doc.txt", "v1", "utf8");
+      await waitFor(() => events.length >= 1);
+      await sleep(100);
+
+      expect(events).toEqual(["add /doc.txt"]);
+    });
+
+    test("fails when the directory does not exist", async () => {
+      watcher = fs.watch("/missing");
+
+      const [error] = await once(watcher, "error");
+      expect(error).toBeInstanceOf(FileNotFoundError);
+    });
+  });
+
+  describe("Wrappers", () => {
+    let watcher: FileWatcher | undefined;
+
+    afterEach(async () => {
+      await watcher?.close();
+      watcher = undefined;
+    });
+
+    test("mounts report paths below their mount point", async () => {
+      const fs = createFilesystem({
+        type: "mount",
+        mount: {
+          "/": { type: "memory", memory: { createMissingDirs: true } },
+          "/ingest": { type: "memory", memory: { createMissingDirs: true } },
+        },
+      });
+      watcher = fs.watch("/ingest", { recursive: true, interval: 20 });
+      const events = record(watcher);
+      await once(watcher, "ready");
+
+      await fs.writeFile("/ingest/batch/1.csv", "x", "utf8");
+      await waitFor(() => events.length >= 2);
+
+      expect(events).toEqual(["addDir /ingest/batch", "add /ingest/batch/1.csv"]);
+    });
+
+    test("encryption and compression report the plain paths and sizes", async () => {
+      const fs = createFilesystem({
+        type: "memory",
+        memory: { createMissingDirs: true },
+        encryption: { masterKey: randomBytes(32).toString("base64"), encryptFileNames: true },
+        compression: { rules: [{ pattern: "**/*.log", codec: "gzip" }] },
+      });
+      watcher = fs.watch("/", { recursive: true, interval: 20 });
+      await once(watcher, "ready");
+
+      const added = once(watcher, "all");
+      await fs.writeFile("/app.log", "line\n", "utf8");
+      const [event] = (await added) as [WatchEvent];
+
+      expect(event.type).toBe("add");
+      expect(event.path).toBe("/app.log");
+      expect(event.stats?.size).toBe((await fs.stat("/app.log")).size);
+    });
+
+    test("the cache drops entries of reported changes", async () => {
+      const backend = new MemoryAdapter({ createMissingDirs: true });
+      const cached = new CachingAdapter(backend, { metadata: { ttl: 60000, negativeTtl: 60000 } });
+      expect(await cached.exists("/late.txt")).toBe(false);
+
+      watcher = cached.watch("/", { interval: 20 });
+      await once(watcher, "ready");
+      // Written behind the cache, as by another process
+      await backend.writeFile("/late.txt", "x", "utf8");
+      await once(watcher, "add");
+
+      expect(await cached.exists("/late.txt")).toBe(true);
+    });
+  });
+});